@@ -1,96 +1,50 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { VoiceStatus, AppLanguage, SUPPORTED_LANGUAGES } from './types';
-import { Camera, MapPin, Globe, Mic, Sparkles, Footprints, Power, RefreshCw, CheckCircle2, Languages, X, Navigation, Map as MapIcon, LocateFixed, Search } from 'lucide-react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-
-// --- UI Strings ---
-const UI_STRINGS: Record<string, Record<string, string>> = {
-  'en-US': {
-    camera_on: "Vision mode activated.",
-    camera_off: "Vision mode off.",
-    location_on: "Navigator mode activated.",
-    location_off: "Navigator off.",
-    ready: "System Ready",
-    listening: "Listening...",
-    speaking: "Vision Voice",
-    nav_ready: "Guide Ready",
-    hold_to_talk: "Hold to Talk",
-    guidance_start: "Guidance started.",
-    swipe_left_hint: "Vision",
-    swipe_right_hint: "Navigator",
-    swipe_down_hint: "Maps",
-    swipe_up_hint: "Blank Screen",
-    tap_to_start: "Tap to Initialize",
-    describe_scene: "Scanning environment...",
-    describe_location: "Accessing Google Maps data...",
-    calibration_start: "Calibration started. Keep the device steady.",
-    calibration_right: "Turn right.",
-    calibration_left: "Turn left.",
-    calibration_up: "Tilt up.",
-    calibration_down: "Tilt down.",
-    calibration_done: "All set.",
-    move_detected: "Perfect.",
-    skip_calibration: "Skip Calibration"
-  },
-  'hi-IN': {
-    camera_on: "दृष्टि मोड सक्रिय।",
-    camera_off: "दृष्टि मोड बंद।",
-    location_on: "नेविगेटर मोड सक्रिय।",
-    location_off: "नेविगेटर बंद।",
-    ready: "సిస్టమ్ సిద్ధంగా ఉంది",
-    listening: "सुन रहा हूँ...",
-    speaking: "विज़न वॉयस",
-    calibration_start: "कैलिब्रेशन शुरू। फोन स्थिर रखें।",
-    calibration_right: "दाईं ओर मुड़ें।",
-    calibration_left: "बाईं ओर मुड़ें।",
-    calibration_up: "ऊपर झुकें।",
-    calibration_down: "नीचे झुकें।",
-    calibration_done: "सब तैयार है।",
-    skip_calibration: "छोड़ें"
-  },
-  'te-IN': {
-    camera_on: "విజన్ మోడ్ సక్రియం చేయబడింది.",
-    camera_off: "విజన్ మోడ్ ఆఫ్.",
-    ready: "సిస్టమ్ సిద్ధంగా ఉంది",
-    listening: "వింటున్నాను...",
-    speaking: "విజన్ వాయిస్",
-    calibration_start: "కాలిబ్రేషన్ ప్రారంభమైంది.",
-    calibration_right: "కుడి వైపుకు తిరగండి.",
-    calibration_left: "ఎడమ వైపుకు తిరగండి.",
-    calibration_up: "పైకి వంచండి.",
-    calibration_down: "కిందికి వంచండి.",
-    calibration_done: "అంతా సిద్ధం.",
-    skip_calibration: "దాటవేయి"
-  },
-  'es-ES': {
-    camera_on: "Modo visión activado.",
-    camera_off: "Modo visión apagado.",
-    ready: "Sistema listo",
-    listening: "Escuchando...",
-    speaking: "Voz de Visión",
-    calibration_start: "Calibración iniciada.",
-    calibration_right: "Gira a la derecha.",
-    calibration_left: "Gira a la izquierda.",
-    calibration_up: "Inclina hacia arriba.",
-    calibration_down: "Inclina hacia abajo.",
-    calibration_done: "Todo listo.",
-    skip_calibration: "Omitir"
-  }
-};
-
-const playHaptic = (type: 'light' | 'medium' | 'heavy' | 'double' | 'success') => {
-  if (navigator.vibrate) {
-    const patterns = { 
-      light: 20, 
-      medium: 50, 
-      heavy: 80,
-      double: [40, 60, 40],
-      success: [15, 40, 15, 80]
-    };
-    navigator.vibrate(patterns[type]);
-  }
-};
+import { VoiceStatus, AppLanguage, SUPPORTED_LANGUAGES, SessionMode, TranscriptEntry, PhotoConversation, Coordinates } from './types';
+import { Globe, Mic, MicOff, Ear, Sparkles, Footprints, Power, RefreshCw, CheckCircle2, Languages, X, LocateFixed, Search, Accessibility, Settings as SettingsIcon, WifiOff } from 'lucide-react';
+import { playHaptic } from './utils/haptics';
+import { createGestureRecognizer, RecognizedGesture } from './utils/gestures';
+import { encode, decode, decodeAudioData } from './utils/audio';
+import { getVisionProvider, resolveProviderName, LiveSession, LiveErrorKind, classifyLiveError } from './services/visionProvider';
+import { superviseLiveSession, SessionSupervisor } from './services/sessionSupervisor';
+import { startMicCapture, MicCapture } from './services/audioCapture';
+import { createVoiceActivityDetector, VoiceActivityDetector, VadSensitivity, VAD_SENSITIVITIES } from './services/voiceActivity';
+import { playListeningCue } from './utils/earcons';
+import { getCurrentCoordinates } from './utils/geo';
+import { getRoutingSource, RouteStep } from './services/routing';
+import { startGuidance, GuidanceSession, GuidanceEvent, GuidanceProgress } from './services/guidance';
+import { listenOnce } from './services/speechInput';
+import { startFrameScheduler, FrameScheduler, FrameStats } from './services/frameScheduler';
+import { startHeadingTracking, subscribeHeading, saveCalibration, headingPromptContext } from './services/heading';
+import { MODES, MODE_ORDER, ModeActions, buildSystemPrompt, verbosityInstruction } from './services/modes';
+import { GestureAction, getGestureBindings, actionForGesture, gesturesForAction, modeForAction, describeGesture } from './services/gestureBindings';
+import { startObjectSearch, toSonification } from './services/objectFinder';
+import { createSonifier } from './services/sonifier';
+import { startColorDetection, ColorDetection, toBrightnessTone, describeColor, describeLight } from './services/colorDetector';
+import { createSpatialSpeechOutput, SpatialSpeechOutput, playSpatialCue, watchHeadphones } from './services/spatialAudio';
+import { getSettings, updateSettings, subscribeSettings } from './services/settings';
+import { signalCue, confirmCue, distanceCue, playCue } from './services/cues';
+import { createModeMachine, ModeState, IDLE_MODE } from './services/modeMachine';
+import { addLog, createThumbnail, saveTranscript, queuePhoto, getQueuedPhotos, removeQueuedPhoto } from './services/historyStore';
+import { startConnectivityMonitor, subscribeConnectivity, isOnline, reportNetworkFailure } from './services/connectivity';
+import { getPlaces, savePlace, findPlace, placeDirections, describeDirections, answerPlaceRequest } from './services/places';
+import { SosState, SosChannel, SOS_COUNTDOWN_SECONDS, buildSosMessage, sendSos, shareSos, watchForShake } from './services/sos';
+import { HelperCall, HelperCallState, startHelperCall, createRoomCode, helperLink, helperCueId } from './services/helperCall';
+import { getSignalingTransport } from './services/signaling';
+import { HistoryView } from './components/HistoryView';
+import { TranscriptView } from './components/TranscriptView';
+import { ReadingView } from './components/ReadingView';
+import { CaptionOverlay } from './components/CaptionOverlay';
+import { AccessibleControls } from './components/AccessibleControls';
+import { CuePractice } from './components/CuePractice';
+import { SettingsView } from './components/SettingsView';
+import { GestureBindingsView } from './components/GestureBindingsView';
+import { ChatView } from './components/ChatView';
+import { PlacesView } from './components/PlacesView';
+import { SosOverlay } from './components/SosOverlay';
+import { SosContactsView } from './components/SosContactsView';
+import { isScreenReaderModeEnabled, getScreenReaderPreference, setScreenReaderPreference, watchForScreenReader, announce, estimateReadingMs } from './services/screenReader';
+import { translate, languageInstruction, TranslateParams } from './i18n';
 
 const activeSources = new Set<AudioBufferSourceNode>();
 const stopAllAudio = () => {
@@ -98,110 +52,190 @@ const stopAllAudio = () => {
   activeSources.clear();
 };
 
-function encode(bytes: Uint8Array) {
-  let binary = '';
-  for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i]);
-  return btoa(binary);
-}
-
-function decode(base64: string) {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
-  return bytes;
-}
-
-async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-  }
-  return buffer;
-}
-
-const analyzeGesture = (points: {x: number, y: number}[]) => {
-  if (points.length < 5) return null;
-  const start = points[0];
-  const end = points[points.length - 1];
-  const dx = end.x - start.x;
-  const dy = end.y - start.y;
-  const absDx = Math.abs(dx);
-  const absDy = Math.abs(dy);
-
-  if (absDx > 80 && absDx > absDy * 1.5) {
-    return dx > 0 ? 'SWIPE_RIGHT' : 'SWIPE_LEFT';
-  }
-  if (absDy > 80 && absDy > absDx * 1.5) {
-    return dy > 0 ? 'SWIPE_DOWN' : 'SWIPE_UP';
-  }
-  return null;
-};
-
 const App: React.FC = () => {
   const [isAwake, setIsAwake] = useState(false);
-  const [appState, setAppState] = useState<'INIT' | 'LANGUAGE_PICKER' | 'CALIBRATION' | 'READY'>('INIT');
+  const [appState, setAppState] = useState<'INIT' | 'LANGUAGE_PICKER' | 'CALIBRATION' | 'READY' | 'HISTORY' | 'TRANSCRIPTS' | 'READING' | 'CUES' | 'SETTINGS' | 'GESTURES' | 'PLACES' | 'SOS_CONTACTS'>('INIT');
   const [calibrationStep, setCalibrationStep] = useState<number>(0);
   const [voiceStatus, setVoiceStatus] = useState<VoiceStatus>('idle');
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isMicHeld, setIsMicHeld] = useState(false);
-  const [visionActive, setVisionActive] = useState(false);
-  const [isNavMode, setIsNavMode] = useState(false);
-  const [isMapsMode, setIsMapsMode] = useState(false);
+  const [modeState, setModeState] = useState<ModeState>(IDLE_MODE);
+  const [isCameraOn, setIsCameraOn] = useState(false);
   const [isBlank, setIsBlank] = useState(false);
   const [isGuidanceActive, setIsGuidanceActive] = useState(false);
   const [selectedLanguage, setSelectedLanguage] = useState<AppLanguage | null>(null);
   const [gestureTrail, setGestureTrail] = useState<{x: number, y: number}[]>([]);
   const [countdown, setCountdown] = useState<number | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isOffline, setIsOffline] = useState(() => !isOnline());
+  const [gestureBindings, setGestureBindings] = useState(getGestureBindings);
+  const [micLevel, setMicLevel] = useState(0);
+  const [isHandsFree, setIsHandsFree] = useState(() => getSettings().handsFree);
+  const [vadSensitivity, setVadSensitivity] = useState<VadSensitivity>(() => getSettings().vadSensitivity);
+  const [isVoiceDetected, setIsVoiceDetected] = useState(false);
+  const [captionsEnabled, setCaptionsEnabled] = useState(() => getSettings().captions);
+  const [captionSizeIndex, setCaptionSizeIndex] = useState(() => getSettings().captionSize);
+  const [captionUser, setCaptionUser] = useState('');
+  const [captionModel, setCaptionModel] = useState('');
+  const [isScreenReaderMode, setIsScreenReaderMode] = useState(() => isScreenReaderModeEnabled());
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
+  const [guidanceProgress, setGuidanceProgress] = useState<GuidanceProgress | null>(null);
+  const [routeAttribution, setRouteAttribution] = useState<string | undefined>();
+  const [photoChat, setPhotoChat] = useState<PhotoConversation | null>(null);
+  const [isAskingPhoto, setIsAskingPhoto] = useState(false);
+  const [sos, setSos] = useState<SosState | null>(null);
+  const [helperCall, setHelperCall] = useState<{ state: HelperCallState, name: string } | null>(null);
+  const [isSosShakeOn, setIsSosShakeOn] = useState(() => getSettings().sosShake);
   
-  const currentSessionRef = useRef<any>(null);
-  const audioContextInRef = useRef<AudioContext | null>(null);
+  const currentSessionRef = useRef<LiveSession | null>(null);
+  const supervisorRef = useRef<SessionSupervisor | null>(null);
+  const voiceStatusRef = useRef<VoiceStatus>('idle');
+  const micCaptureRef = useRef<MicCapture | null>(null);
   const audioContextOutRef = useRef<AudioContext | null>(null);
+  const spatialOutputRef = useRef<SpatialSpeechOutput | null>(null);
   const nextStartTimeRef = useRef<number>(0);
+  const sessionModeRef = useRef<SessionMode>('VISION');
+  const turnTranscriptRef = useRef<string>('');
+  const userTurnRef = useRef<string>('');
+  const transcriptEntriesRef = useRef<TranscriptEntry[]>([]);
+  const sessionStartedAtRef = useRef<number>(0);
+  const captionTurnDoneRef = useRef(false);
   
-  const visionActiveRef = useRef(false);
-  const isNavModeRef = useRef(false);
-  const isMapsModeRef = useRef(false);
+  const activeModeRef = useRef<SessionMode | null>(null);
   const isMicHeldRef = useRef(false);
   const isSpeakingRef = useRef(false);
   const isCountingDownRef = useRef(false);
+  const isHandsFreeRef = useRef(isHandsFree);
+  const isScreenReaderModeRef = useRef(isScreenReaderMode);
+  const vadRef = useRef<VoiceActivityDetector | null>(null);
+  const preRollRef = useRef<string[]>([]);
+  const guidanceRef = useRef<GuidanceSession | null>(null);
+  const isPlanningRouteRef = useRef(false);
+  const isDictatingRef = useRef(false);
+  const reconnectingRef = useRef(false);
+  const objectSearchRef = useRef<{ stop: () => void } | null>(null);
+  const colorDetectionRef = useRef<ColorDetection | null>(null);
+  const helperCallRef = useRef<{ call: HelperCall, room: string } | null>(null);
+  /** The mode the active one replaced, so a helper call can hand back to it. */
+  const replacedModeRef = useRef<SessionMode | null>(null);
+  /** The conversation set aside for a helper call, picked up again when the call hands back to its mode. */
+  const pausedSessionRef = useRef<{ mode: SessionMode, resumptionHandle?: string, startedAt: number, pausedAt: number, entries: TranscriptEntry[] } | null>(null);
+  const photoChatRef = useRef<PhotoConversation | null>(null);
+  /** Releasing the hold ends the follow-up question being dictated. */
+  const photoQuestionRef = useRef<AbortController | null>(null);
+  const isDescribingQueueRef = useRef(false);
+  const sosRef = useRef<SosState | null>(null);
+  const sosTimerRef = useRef<number | null>(null);
+  /** Started with the countdown so the fix is usually ready when it ends. */
+  const sosLocationRef = useRef<Promise<Coordinates | null>>(Promise.resolve(null));
+  const sosHandlerRef = useRef<() => void>(() => {});
+  // Subscribed once; reaches the latest closures through this ref like the mode handlers.
+  const connectivityHandlerRef = useRef<(online: boolean) => void>(() => {});
 
   const initialOrientation = useRef<{alpha: number, beta: number, gamma: number} | null>(null);
   const lastPromptTime = useRef<number>(0);
   
-  const tapCountRef = useRef<number>(0);
-  const tapTimerRef = useRef<number | null>(null);
+  const gestureHandlerRef = useRef<(gesture: RecognizedGesture) => void>(() => {});
+  const unrecognizedHandlerRef = useRef<() => void>(() => {});
+  const [gestureRecognizer] = useState(() => createGestureRecognizer({
+    onGesture: (gesture) => gestureHandlerRef.current(gesture),
+    onUnrecognized: () => unrecognizedHandlerRef.current()
+  }));
   const pointsRef = useRef<{x: number, y: number}[]>([]);
   const holdTimerRef = useRef<number | null>(null);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const frameIntervalRef = useRef<number | null>(null);
+  const frameSchedulerRef = useRef<FrameScheduler | null>(null);
+
+  // The machine outlives renders, so it reaches the latest enter/exit closures through this ref.
+  const modeHandlersRef = useRef<{ enter: (mode: SessionMode, previous: SessionMode | null) => Promise<void>, exit: (mode: SessionMode, next: SessionMode | null) => Promise<void> }>({ enter: async () => {}, exit: async () => {} });
+  const [modeMachine] = useState(() => createModeMachine({
+    enter: (mode, previous) => modeHandlersRef.current.enter(mode, previous),
+    exit: (mode, next) => modeHandlersRef.current.exit(mode, next),
+    onChange: (state) => { activeModeRef.current = state.mode; setModeState(state); }
+  }));
 
   useEffect(() => { 
-    visionActiveRef.current = visionActive;
-    isNavModeRef.current = isNavMode;
-    isMapsModeRef.current = isMapsMode;
     isMicHeldRef.current = isMicHeld;
     isSpeakingRef.current = isSpeaking;
-  }, [visionActive, isNavMode, isMapsMode, isMicHeld, isSpeaking]);
+    isHandsFreeRef.current = isHandsFree;
+    isScreenReaderModeRef.current = isScreenReaderMode;
+    voiceStatusRef.current = voiceStatus;
+  }, [isMicHeld, isSpeaking, isHandsFree, isScreenReaderMode, voiceStatus]);
 
-  const t = (key: string) => {
-    if (!selectedLanguage) return UI_STRINGS['en-US'][key] || key;
-    return (UI_STRINGS[selectedLanguage.code] || UI_STRINGS['en-US'])[key] || key;
-  };
+  // Toggles and the settings screen both write through `updateSettings`; this mirrors the result.
+  useEffect(() => subscribeSettings(settings => {
+    setIsHandsFree(settings.handsFree);
+    setVadSensitivity(settings.vadSensitivity);
+    setCaptionsEnabled(settings.captions);
+    setCaptionSizeIndex(settings.captionSize);
+    const screenReaderMode = isScreenReaderModeEnabled(settings.screenReader);
+    isScreenReaderModeRef.current = screenReaderMode;
+    setIsScreenReaderMode(screenReaderMode);
+    setGestureBindings(getGestureBindings());
+    setIsSosShakeOn(settings.sosShake);
+  }), []);
+
+  useEffect(() => {
+    startConnectivityMonitor();
+    return subscribeConnectivity(online => connectivityHandlerRef.current(online));
+  }, []);
+
+  useEffect(() => {
+    vadRef.current = createVoiceActivityDetector({
+      sensitivity: vadSensitivity,
+      onSpeechStart: () => {
+        if (isSpeakingRef.current) { stopAllAudio(); nextStartTimeRef.current = 0; setIsSpeaking(false); }
+        setIsVoiceDetected(true);
+        playListeningCue('start');
+      },
+      onSpeechEnd: () => {
+        setIsVoiceDetected(false); setMicLevel(0);
+        playListeningCue('stop');
+      }
+    });
+    preRollRef.current = [];
+  }, [vadSensitivity]);
+
+  const t = (key: string, params?: TranslateParams) => translate(selectedLanguage?.code, key, params);
 
   const speakText = useCallback((text: string, callback?: () => void) => {
+    // With a screen reader running, our own synthesis would talk over it; let it read instead.
+    if (isScreenReaderModeRef.current) {
+      announce(text);
+      if (callback) window.setTimeout(callback, estimateReadingMs(text));
+      return;
+    }
     window.speechSynthesis.cancel();
     const utterance = new SpeechSynthesisUtterance(text);
     if (selectedLanguage) utterance.lang = selectedLanguage.code;
+    utterance.rate = getSettings().speechRate;
     utterance.onend = () => callback?.();
     window.speechSynthesis.speak(utterance);
   }, [selectedLanguage]);
 
+  useEffect(() => {
+    if (isScreenReaderMode || getScreenReaderPreference() !== 'auto') return;
+    return watchForScreenReader(() => {
+      isScreenReaderModeRef.current = true;
+      setIsScreenReaderMode(true);
+      window.speechSynthesis.cancel();
+      announce(t('sr_mode_on'));
+    });
+  }, [isScreenReaderMode, selectedLanguage]);
+
+  // Status that is otherwise only visible; spoken prompts already reach the screen reader via speakText.
+  useEffect(() => {
+    if (!isScreenReaderMode) return;
+    if (voiceStatus === 'connecting') announce(t('sr_connecting'));
+    else if (voiceStatus === 'listening') announce(t('sr_connected'));
+  }, [voiceStatus, isScreenReaderMode]);
+
+  useEffect(() => {
+    if (isScreenReaderMode && isAnalyzing) announce(t('analyzing'));
+  }, [isAnalyzing, isScreenReaderMode]);
+
   useEffect(() => {
     if (appState !== 'CALIBRATION') return;
     const handleOrientation = (event: DeviceOrientationEvent) => {
@@ -237,132 +271,279 @@ const App: React.FC = () => {
       } else if (calibrationStep < steps.length) {
         speakText(steps[calibrationStep]);
         if (calibrationStep === steps.length - 1) {
+          saveCalibration();
           setTimeout(() => { setAppState('READY'); playHaptic('success'); }, 2500);
         }
       }
     }
   }, [appState, calibrationStep]);
 
+  useEffect(() => {
+    if (appState === 'CALIBRATION' || appState === 'READY') startHeadingTracking();
+  }, [appState]);
+
+  // Photos queued before the app was last closed are described once it is back in use with signal.
+  useEffect(() => {
+    if (appState === 'READY' && canReachModel()) describeQueuedPhotos();
+  }, [appState]);
+
+  useEffect(() => {
+    if (!isSosShakeOn || appState !== 'READY') return;
+    return watchForShake(() => sosHandlerRef.current());
+  }, [isSosShakeOn, appState]);
+
+  // Keep Navigator / Maps sessions aware of which way the user faces as they turn.
+  const needsLocation = modeState.mode ? MODES[modeState.mode].needsLocation : false;
+  useEffect(() => {
+    if (!needsLocation) return;
+    let lastSent: { degrees: number, at: number } | null = null;
+    return subscribeHeading(reading => {
+      const now = Date.now();
+      if (!currentSessionRef.current) return;
+      if (lastSent && (now - lastSent.at < 5000 || Math.abs(((reading.degrees - lastSent.degrees + 540) % 360) - 180) < 30)) return;
+      lastSent = { degrees: reading.degrees, at: now };
+      currentSessionRef.current.sendContext(headingPromptContext(reading));
+    });
+  }, [needsLocation]);
+
   const stopCameraStream = useCallback(() => {
     if (videoRef.current?.srcObject) {
       const stream = videoRef.current.srcObject as MediaStream;
       stream.getTracks().forEach(track => track.stop());
       videoRef.current.srcObject = null;
     }
-    if (frameIntervalRef.current) clearInterval(frameIntervalRef.current);
-    frameIntervalRef.current = null;
-    setVisionActive(false);
+    frameSchedulerRef.current?.stop();
+    frameSchedulerRef.current = null;
+    setFrameStats(null);
+    setIsCameraOn(false);
   }, []);
 
+  const flushTranscriptTurn = () => {
+    const now = Date.now();
+    if (userTurnRef.current.trim()) transcriptEntriesRef.current.push({ speaker: 'user', text: userTurnRef.current.trim(), timestamp: now });
+    if (turnTranscriptRef.current.trim()) transcriptEntriesRef.current.push({ speaker: 'model', text: turnTranscriptRef.current.trim(), timestamp: now });
+    userTurnRef.current = '';
+  };
+
+  const showCaption = (speaker: 'user' | 'model', text: string) => {
+    if (captionTurnDoneRef.current) { captionTurnDoneRef.current = false; setCaptionUser(''); setCaptionModel(''); }
+    (speaker === 'user' ? setCaptionUser : setCaptionModel)(text);
+  };
+
   const closeSession = async () => {
     stopAllAudio();
-    if (currentSessionRef.current) { try { currentSessionRef.current.close(); } catch(e) {} currentSessionRef.current = null; }
-    if (audioContextInRef.current) { try { await audioContextInRef.current.close(); } catch(e) {} audioContextInRef.current = null; }
+    flushTranscriptTurn();
+    turnTranscriptRef.current = '';
+    if (transcriptEntriesRef.current.length) {
+      saveTranscript({ mode: sessionModeRef.current, language: selectedLanguage?.code || 'en-US', startedAt: sessionStartedAtRef.current, endedAt: Date.now(), entries: transcriptEntriesRef.current });
+      transcriptEntriesRef.current = [];
+    }
+    setCaptionUser(''); setCaptionModel('');
+    setVoiceStatus('idle');
+    supervisorRef.current?.stop();
+    supervisorRef.current = null;
+    currentSessionRef.current = null;
+    if (micCaptureRef.current) { await micCaptureRef.current.stop(); micCaptureRef.current = null; }
+    setMicLevel(0);
+    vadRef.current?.reset();
+    setIsVoiceDetected(false);
+    spatialOutputRef.current?.dispose();
+    spatialOutputRef.current = null;
     if (audioContextOutRef.current) { try { await audioContextOutRef.current.close(); } catch(e) {} audioContextOutRef.current = null; }
     nextStartTimeRef.current = 0;
   };
 
-  const startVoiceSession = useCallback(async (mode: 'VISION' | 'NAV' | 'MAPS') => {
+  /** Closes the connection but keeps the conversation, its resumption handle and transcript, for `startVoiceSession`. */
+  const pauseSession = async () => {
+    flushTranscriptTurn();
+    pausedSessionRef.current = {
+      mode: sessionModeRef.current,
+      resumptionHandle: supervisorRef.current?.resumptionHandle(),
+      startedAt: sessionStartedAtRef.current,
+      pausedAt: Date.now(),
+      entries: transcriptEntriesRef.current
+    };
+    transcriptEntriesRef.current = [];
     await closeSession();
+  };
+
+  /** Saves the transcript of a paused conversation that won't be picked up again. */
+  const dropPausedSession = () => {
+    const paused = pausedSessionRef.current;
+    pausedSessionRef.current = null;
+    if (paused?.entries.length) {
+      saveTranscript({ mode: paused.mode, language: selectedLanguage?.code || 'en-US', startedAt: paused.startedAt, endedAt: paused.pausedAt, entries: paused.entries });
+    }
+  };
+
+  const reportSessionFailure = (kind: LiveErrorKind) => {
+    setVoiceStatus('error');
+    stopAllAudio(); setIsSpeaking(false);
+    signalCue('error');
+    speakText(`${t(`session_error_${kind}`)} ${t('session_failed_hint')}`);
+  };
+
+  const startVoiceSession = useCallback(async (mode: SessionMode) => {
+    await closeSession();
+    const paused = pausedSessionRef.current?.mode === mode ? pausedSessionRef.current : null;
+    if (paused) pausedSessionRef.current = null;
+    else dropPausedSession();
+    sessionModeRef.current = mode;
+    sessionStartedAtRef.current = paused?.startedAt ?? Date.now();
+    if (paused) transcriptEntriesRef.current = paused.entries;
     setVoiceStatus('connecting');
-    const systemPrompt = `USER CONTEXT: The user is a BLIND person. You are their visual and spatial guide from Google.
-IDENTITY: ${mode === 'MAPS' ? 'GOOGLE MAPS EXPLORER' : mode === 'NAV' ? 'GOOGLE NAVIGATOR' : 'GOOGLE VISION'}.
-GOAL: Provide vivid, professional, and helpful spatial descriptions. 
-MAPS MODE: You specialize in providing neighborhood awareness. Identify the current street, nearest intersections, and highly relevant local businesses or landmarks.
-SAFETY: Always highlight immediate physical hazards first.
-STYLE: Clear, descriptive, and reassuring. Use relative directions.`;
+    const settings = getSettings();
+    const systemPrompt = buildSystemPrompt(mode, selectedLanguage, settings.verbosity);
     try {
-      const ai = new GoogleGenAI({   apiKey: import.meta.env.VITE_API_KEY as string, });
-      const micStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const AudioCtx = (window.AudioContext || (window as any).webkitAudioContext);
-      audioContextInRef.current = new AudioCtx({ sampleRate: 16000 });
-      audioContextOutRef.current = new AudioCtx({ sampleRate: 24000 });
-      const session = await ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+      micCaptureRef.current = await startMicCapture({
+        onChunk: (pcm, level) => {
+          if (isCountingDownRef.current || isDictatingRef.current) return;
+          const data = encode(new Uint8Array(pcm.buffer));
+          if (isHandsFreeRef.current && vadRef.current) {
+            const wasSpeaking = vadRef.current.isSpeaking();
+            // While the model talks the bar is raised so its own playback doesn't count as barge-in.
+            if (!vadRef.current.process(level, isSpeakingRef.current)) {
+              preRollRef.current = [...preRollRef.current, data].slice(-2);
+              return;
+            }
+            if (!wasSpeaking) { preRollRef.current.forEach(chunk => currentSessionRef.current?.sendAudio(chunk)); preRollRef.current = []; }
+          } else if (!isMicHeldRef.current || isSpeakingRef.current) return;
+          setMicLevel(level.rms);
+          currentSessionRef.current?.sendAudio(data);
+        }
+      });
+    } catch (err) {
+      reportSessionFailure(classifyLiveError(err));
+      return;
+    }
+    // Output labels become readable once the mic is granted.
+    watchHeadphones();
+    const AudioCtx = (window.AudioContext || (window as any).webkitAudioContext);
+    audioContextOutRef.current = new AudioCtx({ sampleRate: 24000 });
+    spatialOutputRef.current = createSpatialSpeechOutput(audioContextOutRef.current);
+    supervisorRef.current = superviseLiveSession({
+      resumptionHandle: paused?.resumptionHandle,
+      connect: (hooks) => getVisionProvider().connectLive({
+        systemInstruction: systemPrompt,
+        tools: MODES[mode].tools,
+        voiceName: settings.voiceName,
+        languageCode: selectedLanguage?.code || 'en-US',
+        resumptionHandle: hooks.resumptionHandle,
         callbacks: {
-          onopen: () => {
-            setVoiceStatus('listening');
-            const source = audioContextInRef.current!.createMediaStreamSource(micStream);
-            const processor = audioContextInRef.current!.createScriptProcessor(4096, 1, 1);
-            processor.onaudioprocess = (e) => {
-              if (!isMicHeldRef.current || isSpeakingRef.current || isCountingDownRef.current) return;
-              const inputData = e.inputBuffer.getChannelData(0);
-              const int16 = new Int16Array(inputData.length);
-              for (let i = 0; i < inputData.length; i++) int16[i] = inputData[i] * 32768;
-              session.sendRealtimeInput({ media: { data: encode(new Uint8Array(int16.buffer)), mimeType: 'audio/pcm;rate=16000' } });
-            };
-            source.connect(processor);
-            processor.connect(audioContextInRef.current!.destination);
+          onOpen: () => { hooks.onOpen(); setVoiceStatus('listening'); },
+          onResumptionHandle: hooks.onResumptionHandle,
+          onInputTranscript: (text) => { userTurnRef.current += text; showCaption('user', userTurnRef.current); },
+          onOutputTranscript: (text) => { turnTranscriptRef.current += text; showCaption('model', turnTranscriptRef.current); },
+          onInterrupted: () => { stopAllAudio(); nextStartTimeRef.current = 0; spatialOutputRef.current?.placeAt(null); },
+          onSpatialCue: (cue) => {
+            playSpatialCue(cue.kind, cue.clock);
+            // The rest of the reply is voiced from the object's direction until the model falls silent.
+            spatialOutputRef.current?.placeAt(cue.clock);
+            if (cue.kind === 'hazard') playHaptic(cue.clock >= 7 && cue.clock <= 11 ? 'left' : cue.clock >= 1 && cue.clock <= 5 ? 'right' : 'heavy');
           },
-          onmessage: async (message: LiveServerMessage) => {
-            const audioData = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (audioData && audioContextOutRef.current) {
-              if (!isSpeakingRef.current) setIsSpeaking(true);
-              const ctx = audioContextOutRef.current;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              const buffer = await decodeAudioData(decode(audioData), ctx, 24000, 1);
-              const source = ctx.createBufferSource();
-              source.buffer = buffer;
-              source.connect(ctx.destination);
-              source.onended = () => { activeSources.delete(source); if (activeSources.size === 0) setIsSpeaking(false); };
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              activeSources.add(source);
-            }
+          onPlaceRequest: answerPlaceRequest,
+          onTurnComplete: () => {
+            captionTurnDoneRef.current = true;
+            flushTranscriptTurn();
+            if (!turnTranscriptRef.current) return;
+            addLog({ text: turnTranscriptRef.current, mode: sessionModeRef.current, language: selectedLanguage?.code || 'en-US' });
+            turnTranscriptRef.current = '';
+          },
+          onAudio: async (audioData) => {
+            if (!audioContextOutRef.current) return;
+            if (!isSpeakingRef.current) setIsSpeaking(true);
+            const ctx = audioContextOutRef.current;
+            nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+            const buffer = await decodeAudioData(decode(audioData), ctx, 24000, 1);
+            const source = ctx.createBufferSource();
+            source.buffer = buffer;
+            source.connect(spatialOutputRef.current?.input ?? ctx.destination);
+            source.onended = () => {
+              activeSources.delete(source);
+              if (activeSources.size === 0) { setIsSpeaking(false); spatialOutputRef.current?.placeAt(null); }
+            };
+            source.start(nextStartTimeRef.current);
+            nextStartTimeRef.current += buffer.duration;
+            activeSources.add(source);
           },
-          onerror: () => setVoiceStatus('idle'),
-          onclose: () => setVoiceStatus('idle')
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          tools: [{ googleMaps: {} }, { googleSearch: {} }],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } },
-          systemInstruction: systemPrompt
+          onError: hooks.onError,
+          onClose: hooks.onClose
         }
-      });
-      currentSessionRef.current = session;
-    } catch (err) { setVoiceStatus('idle'); }
+      }),
+      onConnected: (session, resumed) => {
+        const recovering = reconnectingRef.current;
+        currentSessionRef.current = session;
+        reconnectingRef.current = false;
+        if (recovering) { signalCue('success'); speakText(t(resumed ? 'session_resumed' : 'session_reconnected')); }
+      },
+      onRetrying: (kind, attempt) => {
+        currentSessionRef.current = null;
+        reconnectingRef.current = true;
+        stopAllAudio(); setIsSpeaking(false);
+        setVoiceStatus('connecting');
+        signalCue('warning');
+        // Only the first retry is spoken in full; later ones would drown out guidance prompts.
+        speakText(attempt === 1 ? `${t(`session_error_${kind}`)} ${t('session_reconnecting')}` : t('session_retry', { attempt }));
+        if (kind === 'network') reportNetworkFailure();
+      },
+      onFailed: (kind) => {
+        currentSessionRef.current = null;
+        reconnectingRef.current = false;
+        reportSessionFailure(kind);
+      }
+    });
   }, [selectedLanguage]);
 
-  const startVisionMode = async () => {
-    speakText("Vision Mode");
-    setIsNavMode(false); setIsMapsMode(false); setIsGuidanceActive(false); setIsBlank(false);
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 640 }, height: { ideal: 480 }, aspectRatio: 4/3 } });
-      if (videoRef.current) { videoRef.current.srcObject = stream; setVisionActive(true); playHaptic('medium'); }
-      if (frameIntervalRef.current) clearInterval(frameIntervalRef.current);
-      frameIntervalRef.current = window.setInterval(() => {
-        if (canvasRef.current && videoRef.current && videoRef.current.readyState === 4) {
-          const ctx = canvasRef.current.getContext('2d');
-          if (ctx) {
-            canvasRef.current.width = 320; canvasRef.current.height = 240; 
-            ctx.drawImage(videoRef.current, 0, 0, 320, 240);
-            const base64 = canvasRef.current.toDataURL('image/jpeg', 0.4).split(',')[1];
-            if (currentSessionRef.current) currentSessionRef.current.sendRealtimeInput({ media: { data: base64, mimeType: 'image/jpeg' } });
-          }
-        }
-      }, 1000);
-      startVoiceSession('VISION');
-    } catch (e) { playHaptic('heavy'); speakText("Camera access denied."); }
+  const startCamera = async (streamFrames: boolean) => {
+    const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 640 }, height: { ideal: 480 }, aspectRatio: 4/3 } });
+    if (!videoRef.current) { stream.getTracks().forEach(track => track.stop()); throw new Error('Video element not mounted'); }
+    videoRef.current.srcObject = stream;
+    setIsCameraOn(true);
+    frameSchedulerRef.current?.stop();
+    if (streamFrames && canvasRef.current) {
+      frameSchedulerRef.current = startFrameScheduler({
+        video: videoRef.current,
+        canvas: canvasRef.current,
+        send: (base64) => currentSessionRef.current?.sendImage(base64),
+        isPaused: () => !currentSessionRef.current || isSpeakingRef.current || isCountingDownRef.current,
+        getUplink: () => currentSessionRef.current?.uplink,
+        onStats: setFrameStats
+      });
+    }
   };
 
-  const startNavigatorMode = () => {
-    speakText("Navigator Mode");
-    if (visionActiveRef.current) stopCameraStream();
-    setIsNavMode(true); setIsMapsMode(false); setIsGuidanceActive(false); setIsBlank(false);
-    playHaptic('heavy');
-    startVoiceSession('NAV');
+  const enterMode = async (mode: SessionMode, previous: SessionMode | null) => {
+    const definition = MODES[mode];
+    replacedModeRef.current = previous;
+    // Without signal the mode still opens so the camera and gestures work; the session waits for signal.
+    const offline = definition.liveSession && !canReachModel();
+    if (offline) { signalCue(definition.cue); speakText(`${t(definition.announceKey)} ${t('offline_live_unavailable')}`); }
+    else confirmCue(definition.cue, () => speakText(t(definition.announceKey)));
+    setIsBlank(false);
+    if (definition.needsCamera) {
+      try { await startCamera(definition.liveSession); }
+      catch (e) { playHaptic('heavy'); speakText(t('camera_denied')); throw e; }
+    }
+    if (offline) { sessionModeRef.current = mode; setVoiceStatus('error'); }
+    else if (definition.liveSession) startVoiceSession(mode);
+    definition.onEnter?.(modeActions);
   };
 
-  const startMapsMode = () => {
-    speakText("Maps Mode");
-    if (visionActiveRef.current) stopCameraStream();
-    setIsMapsMode(true); setIsNavMode(false); setIsGuidanceActive(false); setIsBlank(false);
-    playHaptic('medium');
-    startVoiceSession('MAPS');
+  const exitMode = async (mode: SessionMode, next: SessionMode | null) => {
+    if (MODES[mode].needsCamera) stopCameraStream();
+    updatePhotoChat(null);
+    stopGuidance();
+    stopObjectSearch();
+    stopColorDetection();
+    endHelperCall();
+    if (next && MODES[next].resumesPrevious && supervisorRef.current) { await pauseSession(); return; }
+    if (pausedSessionRef.current && pausedSessionRef.current.mode !== next) dropPausedSession();
+    await closeSession();
   };
 
-  const describeLocation = async () => {
+  modeHandlersRef.current = { enter: enterMode, exit: exitMode };
+
+  const describeLocation = async (prompt: string) => {
     if (isAnalyzing) return;
     setIsAnalyzing(true);
     speakText(t('describe_location'));
@@ -371,87 +552,692 @@ STYLE: Clear, descriptive, and reassuring. Use relative directions.`;
     navigator.geolocation.getCurrentPosition(async (pos) => {
       const { latitude, longitude } = pos.coords;
       try {
-        const ai = new GoogleGenAI({   apiKey: import.meta.env.VITE_API_KEY as string, });
-        const response = await ai.models.generateContent({
-          model: 'gemini-3-flash-preview',
-          contents: "I am a blind person exploring my surroundings. Using my exact location coordinates, please describe the street I'm on, the neighborhood character, and the 5 most important landmarks or businesses within walking distance. Be professional and descriptive.",
-          config: {
-            tools: [{ googleMaps: {} }],
-            toolConfig: {
-              retrievalConfig: {
-                latLng: { latitude, longitude }
-              }
-            }
-          },
-        });
-        if (response.text) speakText(response.text);
+        const text = await getVisionProvider().describeLocation(
+          { latitude, longitude },
+          `${prompt}
+${verbosityInstruction(getSettings().verbosity)}
+${headingPromptContext()}
+${languageInstruction(selectedLanguage)}`
+        );
+        if (text) {
+          speakText(text);
+          addLog({ text, mode: activeModeRef.current || 'MAPS', language: selectedLanguage?.code || 'en-US', coordinates: { latitude, longitude } });
+        }
       } catch (err) {
-        speakText("Location details unavailable. Please check your signal.");
+        explainFailure(err, 'location_unavailable');
       } finally {
         setIsAnalyzing(false);
       }
     }, () => {
-      speakText("Location access is required for Maps Mode.");
+      speakText(t('location_required'));
       setIsAnalyzing(false);
     });
   };
 
-  const triggerCountdownDescription = async () => {
+  /** The mock backend runs on the device, so only real backends need signal. */
+  const canReachModel = () => resolveProviderName() === 'mock' || isOnline();
+
+  /** Says why a model call failed; a lost connection also switches the app to offline. */
+  const explainFailure = (err: unknown, fallbackKey = 'analysis_failed') => {
+    if (classifyLiveError(err) !== 'network') { speakText(t(fallbackKey)); return; }
+    reportNetworkFailure();
+    speakText(t('offline_unavailable'));
+  };
+
+  /** Describes photos captured without signal, oldest first, stopping if the signal drops again. */
+  const describeQueuedPhotos = async () => {
+    if (isDescribingQueueRef.current) return;
+    isDescribingQueueRef.current = true;
+    try {
+      const queued = await getQueuedPhotos().catch(() => []);
+      for (const [i, photo] of queued.entries()) {
+        if (!canReachModel()) break;
+        let text = '';
+        try { text = await getVisionProvider().describeImage(photo.image, photo.prompt); }
+        catch (err) {
+          // Kept for the next time the signal returns.
+          if (classifyLiveError(err) === 'network') reportNetworkFailure();
+          break;
+        }
+        await removeQueuedPhoto(photo.id);
+        if (!text) continue;
+        addLog({ text, mode: photo.mode, language: photo.language, thumbnail: photo.thumbnail });
+        const spoken = `${t('queued_photo_described', { index: i + 1, count: queued.length })} ${text}`;
+        // Waits for each description to finish; the timer covers speech that was cut off.
+        await new Promise<void>(resolve => {
+          const timer = window.setTimeout(resolve, estimateReadingMs(spoken) + 2000);
+          speakText(spoken, () => { window.clearTimeout(timer); resolve(); });
+        });
+      }
+    } finally {
+      isDescribingQueueRef.current = false;
+    }
+  };
+
+  connectivityHandlerRef.current = (online) => {
+    setIsOffline(!online);
+    if (!online) { signalCue('warning'); speakText(t('offline_now')); return; }
+    signalCue('success');
+    speakText(t('online_again'));
+    const mode = activeModeRef.current;
+    if (mode && MODES[mode].liveSession && (voiceStatusRef.current === 'error' || voiceStatusRef.current === 'connecting')) {
+      reconnectingRef.current = true;
+      setVoiceStatus('connecting');
+      if (supervisorRef.current) supervisorRef.current.retryNow();
+      else startVoiceSession(mode);
+    }
+    describeQueuedPhotos();
+  };
+
+  const updatePhotoChat = (chat: PhotoConversation | null) => {
+    photoChatRef.current = chat;
+    setPhotoChat(chat);
+  };
+
+  /** Dictates a question and answers it against the kept photo rather than the live camera. */
+  const askAboutPhoto = async () => {
+    const chat = photoChatRef.current;
+    if (!chat || isDictatingRef.current) return;
+    const release = new AbortController();
+    photoQuestionRef.current = release;
+    isDictatingRef.current = true;
+    setIsAskingPhoto(true);
+    window.speechSynthesis.cancel();
+    playHaptic('double');
+    playListeningCue('start');
+    const question = await listenOnce(selectedLanguage?.code || 'en-US', 15000, release.signal).catch(() => '');
+    isDictatingRef.current = false;
+    photoQuestionRef.current = null;
+    setIsAskingPhoto(false);
+    playListeningCue('stop');
+    if (photoChatRef.current !== chat) return;
+    if (!question) { playHaptic('heavy'); speakText(t('photo_no_question')); return; }
+    const asked = { ...chat, turns: [...chat.turns, { role: 'user' as const, text: question }] };
+    updatePhotoChat(asked);
+    setIsAnalyzing(true);
+    try {
+      const answer = await getVisionProvider().askAboutImage(chat.image, chat.prompt, asked.turns);
+      // Dismissed or replaced by a new capture while the answer was on its way.
+      if (photoChatRef.current !== asked || !answer) return;
+      updatePhotoChat({ ...asked, turns: [...asked.turns, { role: 'model', text: answer }] });
+      speakText(answer);
+      addLog({ text: `${question}\n${answer}`, mode: 'VISION', language: selectedLanguage?.code || 'en-US', thumbnail: chat.thumbnail });
+    } catch (err) {
+      explainFailure(err);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const dismissPhoto = () => {
+    photoQuestionRef.current?.abort();
+    updatePhotoChat(null);
+    playHaptic('light');
+    speakText(t('photo_dismissed'));
+  };
+
+  const triggerCountdownDescription = async (prompt: string) => {
     if (isCountingDownRef.current) return;
+    const capture = async () => {
+      speakText(t('describe_scene')); playHaptic('success');
+      if (!videoRef.current || !canvasRef.current) return;
+      const ctx = canvasRef.current.getContext('2d');
+      if (!ctx) return;
+      canvasRef.current.width = 1024; canvasRef.current.height = 768;
+      ctx.drawImage(videoRef.current, 0, 0, 1024, 768);
+      const base64 = canvasRef.current.toDataURL('image/jpeg', 0.9).split(',')[1];
+      const thumbnail = createThumbnail(canvasRef.current);
+      const fullPrompt = `${prompt}
+${verbosityInstruction(getSettings().verbosity)}
+${languageInstruction(selectedLanguage)}`;
+      const queueForLater = async () => {
+        const waiting = await queuePhoto({ image: base64, thumbnail, prompt: fullPrompt, mode: activeModeRef.current || 'VISION', language: selectedLanguage?.code || 'en-US' });
+        signalCue('warning');
+        speakText(waiting === null ? t('offline_unavailable') : t('offline_photo_queued', { count: waiting }));
+      };
+      if (!canReachModel()) { await queueForLater(); return; }
+      try {
+        const text = await getVisionProvider().describeImage(base64, fullPrompt);
+        if (text) {
+          speakText(text);
+          addLog({ text, mode: activeModeRef.current || 'VISION', language: selectedLanguage?.code || 'en-US', thumbnail });
+          // Replaces any earlier photo: follow-ups are about what was just described.
+          updatePhotoChat({ image: base64, thumbnail, prompt: fullPrompt, turns: [{ role: 'model', text }] });
+        }
+      } catch (err) {
+        if (classifyLiveError(err) !== 'network') { speakText(t('analysis_failed')); return; }
+        reportNetworkFailure();
+        await queueForLater();
+      }
+    };
+    let count = getSettings().countdownSeconds;
+    if (count === 0) { capture(); return; }
     isCountingDownRef.current = true;
-    let count = 3;
     setCountdown(count);
-    speakText("3");
+    speakText(count.toString());
     playHaptic('light');
-    const interval = setInterval(async () => {
+    const interval = setInterval(() => {
       count--;
       if (count > 0) {
         setCountdown(count); speakText(count.toString()); playHaptic('light');
       } else {
         clearInterval(interval); setCountdown(null); isCountingDownRef.current = false;
-        speakText("Analyzing scene."); playHaptic('success');
-        if (videoRef.current && canvasRef.current) {
-           const ctx = canvasRef.current.getContext('2d');
-           if (ctx) {
-             canvasRef.current.width = 1024; canvasRef.current.height = 768;
-             ctx.drawImage(videoRef.current, 0, 0, 1024, 768);
-             const base64 = canvasRef.current.toDataURL('image/jpeg', 0.9).split(',')[1];
-             try {
-                const ai = new GoogleGenAI({   apiKey: import.meta.env.VITE_API_KEY as string, });
-                const response = await ai.models.generateContent({
-                  model: 'gemini-3-flash-preview',
-                  contents: [{
-                    parts: [
-                      { inlineData: { data: base64, mimeType: 'image/jpeg' } },
-                      { text: "USER IS BLIND. Describe this scene in detail for them. Focus on hazards and layout." }
-                    ]
-                  }]
-                });
-                if (response.text) speakText(response.text);
-             } catch (err) { speakText("Analysis failed."); }
-           }
+        capture();
+      }
+    }, 1000);
+  };
+
+  const describeManeuver = (step: RouteStep) => {
+    const maneuver = t(`maneuver_${step.maneuver}`);
+    return step.street && step.maneuver !== 'arrive' ? `${maneuver} ${t('maneuver_onto', { street: step.street })}` : maneuver;
+  };
+
+  const roundDistance = (meters: number) => Math.max(5, Math.round(meters / 5) * 5);
+
+  const stopGuidance = () => {
+    guidanceRef.current?.stop();
+    guidanceRef.current = null;
+    setIsGuidanceActive(false);
+    setGuidanceProgress(null);
+  };
+
+  const handleGuidanceEvent = (destination: string) => (event: GuidanceEvent) => {
+    const turnCue = (step: RouteStep) => signalCue(step.maneuver.endsWith('left') ? 'direction_left' : step.maneuver.endsWith('right') ? 'direction_right' : 'direction_ahead');
+    switch (event.type) {
+      case 'start':
+        signalCue('success');
+        speakText(`${t('guidance_start')} ${t('guidance_heading_to', { destination })} ${t('guidance_continue', { distance: roundDistance(event.distance), maneuver: describeManeuver(event.step) })}`);
+        break;
+      case 'approaching':
+        signalCue(distanceCue(event.distance));
+        speakText(t('guidance_approaching', { distance: roundDistance(event.distance), maneuver: describeManeuver(event.step) }));
+        break;
+      case 'turn':
+        turnCue(event.step);
+        speakText(`${t('guidance_now', { maneuver: describeManeuver(event.step) })} ${t('guidance_continue', { distance: roundDistance(event.distance), maneuver: describeManeuver(event.next) })}`);
+        break;
+      case 'offRoute':
+        signalCue('warning');
+        speakText(t('guidance_off_route', { distance: roundDistance(event.distance) }));
+        break;
+      case 'backOnRoute':
+        signalCue('success');
+        speakText(`${t('guidance_back_on_route')} ${t('guidance_continue', { distance: roundDistance(event.distance), maneuver: describeManeuver(event.step) })}`);
+        break;
+      case 'arrived':
+        signalCue('success');
+        speakText(t('guidance_arrived', { destination }));
+        stopGuidance();
+        break;
+    }
+  };
+
+  const startGuidanceFlow = async () => {
+    if (isPlanningRouteRef.current) return;
+    isPlanningRouteRef.current = true;
+    stopAllAudio();
+    try {
+      isDictatingRef.current = true;
+      await new Promise<void>(resolve => speakText(t('guidance_ask_destination'), resolve));
+      playListeningCue('start');
+      const destination = await listenOnce(selectedLanguage?.code || 'en-US').finally(() => {
+        isDictatingRef.current = false;
+        playListeningCue('stop');
+      });
+      if (!destination) { playHaptic('heavy'); speakText(t('guidance_no_destination')); return; }
+      setIsAnalyzing(true);
+      const origin = await getCurrentCoordinates();
+      const source = getRoutingSource();
+      const route = await source.getRoute(origin, destination);
+      if (activeModeRef.current !== 'NAV') return;
+      setRouteAttribution(source.attribution);
+      setIsGuidanceActive(true);
+      guidanceRef.current = startGuidance(route, {
+        onEvent: handleGuidanceEvent(route.destination),
+        onProgress: setGuidanceProgress,
+        onError: (err) => {
+          playHaptic('warning');
+          speakText(t('guidance_location_lost'));
+          if (err.code === err.PERMISSION_DENIED) stopGuidance();
         }
+      }, origin);
+    } catch (e) {
+      playHaptic('heavy');
+      speakText(t('guidance_route_failed'));
+    } finally {
+      setIsAnalyzing(false);
+      isPlanningRouteRef.current = false;
+    }
+  };
+
+  const stopObjectSearch = () => {
+    objectSearchRef.current?.stop();
+    objectSearchRef.current = null;
+  };
+
+  const startObjectSearchFlow = async () => {
+    if (isDictatingRef.current) return;
+    stopObjectSearch();
+    isDictatingRef.current = true;
+    let target = '';
+    try {
+      await new Promise<void>(resolve => speakText(t('find_ask'), resolve));
+      playListeningCue('start');
+      target = await listenOnce(selectedLanguage?.code || 'en-US');
+    } catch (e) {
+      // Dictation unsupported or failed; handled as "nothing heard" below.
+    } finally {
+      isDictatingRef.current = false;
+      playListeningCue('stop');
+    }
+    if (activeModeRef.current !== 'FIND' || !videoRef.current || !canvasRef.current) return;
+    if (!target) { playHaptic('heavy'); speakText(t('find_no_target')); return; }
+    speakText(t('find_searching', { object: target }));
+    const sonifier = createSonifier();
+    let centred = false;
+    const search = startObjectSearch({
+      video: videoRef.current,
+      canvas: canvasRef.current,
+      target,
+      onLocation: (box) => {
+        const sound = box && toSonification(box);
+        sonifier.update(sound);
+        if (sound?.centred && !centred) { signalCue('success'); speakText(t('find_centred', { object: target })); }
+        centred = !!sound?.centred;
+      },
+      onError: (err) => { stopObjectSearch(); signalCue('error'); explainFailure(err); }
+    });
+    objectSearchRef.current = { stop: () => { search.stop(); sonifier.stop(); } };
+  };
+
+  const stopColorDetection = () => {
+    colorDetectionRef.current?.stop();
+    colorDetectionRef.current = null;
+  };
+
+  const startColorFlow = () => {
+    stopColorDetection();
+    if (!videoRef.current || !canvasRef.current) return;
+    const sonifier = createSonifier();
+    const detection = startColorDetection({
+      video: videoRef.current,
+      canvas: canvasRef.current,
+      onSample: (sample) => sonifier.update(toBrightnessTone(sample.brightness)),
+      onColorChange: (sample) => speakText(describeColor(sample, t))
+    });
+    colorDetectionRef.current = { ...detection, stop: () => { detection.stop(); sonifier.stop(); } };
+  };
+
+  const endHelperCall = () => {
+    helperCallRef.current?.call.end();
+    helperCallRef.current = null;
+    setHelperCall(null);
+  };
+
+  /** Hands back to the mode the call interrupted, which resumes its paused AI session. */
+  const leaveHelperMode = (resumeMode: SessionMode | null) => {
+    if (activeModeRef.current !== 'HELPER') return;
+    if (resumeMode) modeMachine.activate(resumeMode);
+    else modeMachine.deactivate();
+  };
+
+  const startHelperCallFlow = () => {
+    endHelperCall();
+    const camera = videoRef.current?.srcObject;
+    if (!(camera instanceof MediaStream)) return;
+    const resumeMode = replacedModeRef.current;
+    const transport = getSignalingTransport();
+    if (!transport) {
+      signalCue('error');
+      speakText(t('helper_call_no_relay'));
+      leaveHelperMode(resumeMode);
+      return;
+    }
+    const room = createRoomCode();
+    let name = '';
+    const call = startHelperCall({
+      transport,
+      room,
+      camera,
+      onState: (state) => {
+        setHelperCall({ state, name });
+        if (state === 'connected') confirmCue('success', () => speakText(t('helper_call_connected', { name })));
+      },
+      onRequest: (requested) => {
+        name = requested || t('helper_unnamed');
+        setHelperCall({ state: 'request', name });
+        playCue('mode_helper');
+        speakText(t('helper_call_request', { name }));
+      },
+      onCue: (cue) => playCue(helperCueId(cue)),
+      onEnd: (reason) => {
+        helperCallRef.current = null;
+        setHelperCall(null);
+        signalCue(reason === 'hangup' ? 'mode_off' : 'error');
+        speakText(t(`helper_call_${reason}`));
+        leaveHelperMode(resumeMode);
       }
+    });
+    helperCallRef.current = { call, room };
+    speakText(t('helper_call_waiting'));
+  };
+
+  const shareHelperInvite = async () => {
+    const room = helperCallRef.current?.room;
+    if (!room) { startHelperCallFlow(); return; }
+    try {
+      if (navigator.share) await navigator.share({ text: t('helper_invite'), url: helperLink(room) });
+      else {
+        await navigator.clipboard.writeText(helperLink(room));
+        playHaptic('success');
+        speakText(t('helper_link_copied'));
+      }
+    } catch (e) {
+      if (e instanceof DOMException && e.name === 'AbortError') return;
+      playHaptic('heavy');
+      speakText(t('helper_share_failed'));
+    }
+  };
+
+  /** Lets in a helper who asked to join; with nobody waiting, shares the link instead. */
+  const acceptHelper = () => {
+    if (!helperCallRef.current?.call.accept()) { shareHelperInvite(); return; }
+    playHaptic('success');
+  };
+
+  const declineHelper = () => {
+    if (!helperCallRef.current?.call.decline()) { playHaptic('heavy'); return; }
+    playHaptic('double');
+    speakText(t('helper_call_request_declined'));
+  };
+
+  const announceColor = () => {
+    const sample = colorDetectionRef.current?.latest();
+    playHaptic('light');
+    speakText(sample ? `${describeColor(sample, t)}. ${describeLight(sample.brightness, t)}` : t('color_waiting'));
+  };
+
+  /** Speaks `prompt`, then resolves to what the user said; empty when nothing was heard. */
+  const askByVoice = async (prompt: string) => {
+    isDictatingRef.current = true;
+    try {
+      await new Promise<void>(resolve => speakText(prompt, resolve));
+      playListeningCue('start');
+      return await listenOnce(selectedLanguage?.code || 'en-US');
+    } catch (e) {
+      return '';
+    } finally {
+      isDictatingRef.current = false;
+      playListeningCue('stop');
+    }
+  };
+
+  /** Works without signal: the fix and the place list never leave the device. */
+  const savePlaceFlow = async () => {
+    if (isDictatingRef.current) return;
+    stopAllAudio();
+    const name = await askByVoice(t('place_ask_name'));
+    if (!name) { playHaptic('heavy'); speakText(t('place_no_name')); return; }
+    try {
+      const saved = savePlace(name, await getCurrentCoordinates());
+      signalCue('success');
+      speakText(t('place_saved', { name: saved.name }));
+    } catch (e) {
+      playHaptic('heavy');
+      speakText(t('place_location_unavailable'));
+    }
+  };
+
+  const placeDirectionsFlow = async () => {
+    if (isDictatingRef.current) return;
+    const places = getPlaces();
+    if (!places.length) { playHaptic('heavy'); speakText(t('places_empty')); return; }
+    stopAllAudio();
+    const place = findPlace(await askByVoice(t('place_ask_which')), places);
+    if (!place) { playHaptic('heavy'); speakText(t('place_not_found', { names: places.map(p => p.name).join(', ') })); return; }
+    try {
+      speakText(describeDirections(placeDirections(place, await getCurrentCoordinates()), t));
+    } catch (e) {
+      playHaptic('heavy');
+      speakText(t('place_location_unavailable'));
+    }
+  };
+
+  const toggleGuidance = () => {
+    if (guidanceRef.current) { stopGuidance(); playHaptic('light'); speakText(t('guidance_stopped')); }
+    else startGuidanceFlow();
+  };
+
+  const toggleCaptions = () => {
+    const next = !captionsEnabled;
+    updateSettings({ captions: next });
+    playHaptic('light');
+    speakText(t(next ? 'captions_on' : 'captions_off'));
+  };
+
+  const resizeCaptions = (sizeIndex: number) => {
+    updateSettings({ captionSize: sizeIndex });
+    playHaptic('light');
+  };
+
+  const toggleHandsFree = () => {
+    const next = !isHandsFreeRef.current;
+    updateSettings({ handsFree: next });
+    vadRef.current?.reset();
+    setIsVoiceDetected(false);
+    playHaptic(next ? 'success' : 'light');
+    playListeningCue(next ? 'start' : 'stop');
+    speakText(t(next ? 'hands_free_on' : 'hands_free_off'));
+  };
+
+  const cycleVadSensitivity = () => {
+    const next = VAD_SENSITIVITIES[(VAD_SENSITIVITIES.indexOf(vadSensitivity) + 1) % VAD_SENSITIVITIES.length];
+    updateSettings({ vadSensitivity: next });
+    playHaptic('light');
+    speakText(`${t('sensitivity')}: ${t(`sensitivity_${next}`)}`);
+  };
+
+  const toggleScreenReaderMode = () => {
+    const next = !isScreenReaderModeRef.current;
+    setScreenReaderPreference(next ? 'on' : 'off');
+    isScreenReaderModeRef.current = next;
+    setIsScreenReaderMode(next);
+    playHaptic('light');
+    speakText(t(next ? 'sr_mode_on' : 'sr_mode_off'));
+  };
+
+  /** Double tap: the primary action of whichever mode is active. */
+  const runPrimaryAction = () => {
+    const mode = activeModeRef.current;
+    if (mode && voiceStatusRef.current === 'error') retrySession();
+    else if (mode) MODES[mode].onDoubleTap(modeActions);
+    else modeMachine.activate('VISION');
+  };
+
+  const retrySession = () => {
+    if (!canReachModel()) { playHaptic('heavy'); speakText(t('offline_live_unavailable')); return; }
+    playHaptic('medium');
+    speakText(t('session_reconnecting'));
+    setVoiceStatus('connecting');
+    if (supervisorRef.current) { reconnectingRef.current = true; supervisorRef.current.retryNow(); }
+    else startVoiceSession(sessionModeRef.current);
+  };
+
+  const stopActiveMode = () => {
+    modeMachine.deactivate();
+    signalCue('mode_off');
+  };
+
+  const turnOff = () => {
+    modeMachine.deactivate();
+    setIsBlank(true);
+    signalCue('mode_off');
+  };
+
+  const toggleTalk = () => {
+    if (isHandsFreeRef.current) return;
+    const next = !isMicHeldRef.current;
+    setIsMicHeld(next);
+    if (!next) setMicLevel(0);
+    playHaptic(next ? 'double' : 'light');
+    playListeningCue(next ? 'start' : 'stop');
+  };
+
+  const openReading = () => {
+    modeMachine.deactivate();
+    playHaptic('medium');
+    setAppState('READING');
+  };
+
+  const closeReading = () => {
+    setAppState('READY');
+    modeMachine.activate('VISION');
+  };
+
+  const modeActions: ModeActions = {
+    describeScene: triggerCountdownDescription,
+    describeLocation,
+    toggleGuidance,
+    openReading,
+    findObject: startObjectSearchFlow,
+    startColorDetection: startColorFlow,
+    announceColor,
+    callHelper: startHelperCallFlow,
+    acceptHelper,
+    declineHelper
+  };
+
+  const openSettings = () => {
+    modeMachine.deactivate();
+    playHaptic('medium');
+    setAppState('SETTINGS');
+  };
+
+  const updateSos = (next: SosState | null) => {
+    sosRef.current = next;
+    setSos(next);
+  };
+
+  const startSos = () => {
+    if (sosRef.current) return;
+    setIsBlank(false);
+    stopAllAudio();
+    sosLocationRef.current = getCurrentCoordinates({ enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }).catch(() => null);
+    let seconds = SOS_COUNTDOWN_SECONDS;
+    updateSos({ phase: 'countdown', seconds });
+    signalCue('warning');
+    speakText(t('sos_countdown', { seconds }));
+    sosTimerRef.current = window.setInterval(() => {
+      seconds--;
+      playHaptic('heavy');
+      if (seconds > 0) {
+        updateSos({ phase: 'countdown', seconds });
+        // The opening announcement covers the first seconds.
+        if (seconds <= 3) speakText(seconds.toString());
+        return;
+      }
+      window.clearInterval(sosTimerRef.current!);
+      sosTimerRef.current = null;
+      sendSosNow();
     }, 1000);
   };
 
-  const handlePointerDown = (e: React.PointerEvent) => {
-    if (appState !== 'READY') return;
-    if (isBlank) {
-      setIsBlank(false);
-      playHaptic('medium');
+  sosHandlerRef.current = startSos;
+
+  const cancelSos = () => {
+    if (sosTimerRef.current !== null) { window.clearInterval(sosTimerRef.current); sosTimerRef.current = null; }
+    updateSos(null);
+    playHaptic('double');
+    speakText(t('sos_cancelled'));
+  };
+
+  const sendSosNow = async () => {
+    updateSos({ phase: 'sending' });
+    const coordinates = await sosLocationRef.current;
+    const message = buildSosMessage(coordinates, t);
+    const { channel, webhookFailed } = await sendSos(message, coordinates);
+    if (channel === 'needs_tap') {
+      updateSos({ phase: 'share', message, coordinates });
+      signalCue('warning');
+      speakText(webhookFailed ? `${t('sos_webhook_failed')} ${t('sos_tap_to_share')}` : t('sos_tap_to_share'));
+      return;
+    }
+    confirmSos(message, coordinates, channel, webhookFailed);
+  };
+
+  /** Runs from the overlay's tap, which the share sheet accepts as a user gesture. */
+  const shareSosFromTap = async () => {
+    const pending = sosRef.current;
+    if (pending?.phase !== 'share') return;
+    const channel = await shareSos(pending.message);
+    confirmSos(pending.message, pending.coordinates, channel === 'needs_tap' ? null : channel);
+  };
+
+  /**
+   * Says what went out, or that a draft is waiting for Send, including the coordinates so the user
+   * knows what their contacts receive.
+   */
+  const confirmSos = (message: string, coordinates: Coordinates | null, channel: SosChannel | null, webhookFailed = false) => {
+    const failure = webhookFailed ? `${t('sos_webhook_failed')} ` : '';
+    if (!channel) {
+      updateSos(null);
+      signalCue('error');
+      const { sosContacts, sosWebhookUrl } = getSettings();
+      speakText(failure + (sosContacts.length || sosWebhookUrl ? t('sos_not_sent') : `${t('sos_not_sent')} ${t('sos_setup_hint')}`));
+      return;
+    }
+    const location = coordinates ? { latitude: coordinates.latitude.toFixed(4), longitude: coordinates.longitude.toFixed(4) } : null;
+    if (channel === 'webhook') {
+      updateSos({ phase: 'sent', message });
+      signalCue('success');
+      speakText(location ? t('sos_sent', location) : t('sos_sent_no_location'));
       return;
     }
+    updateSos({ phase: 'opened', message, channel });
+    signalCue('warning');
+    const ready = channel === 'sms_opened' ? t('sos_ready_sms') : t('sos_ready_share');
+    speakText(`${failure}${ready} ${location ? t('sos_ready_location', location) : t('sos_ready_no_location')}`);
+  };
+
+  const openPlaces = () => {
+    modeMachine.deactivate();
+    playHaptic('medium');
+    setAppState('PLACES');
+  };
+
+  const openHistory = () => {
+    modeMachine.deactivate();
+    playHaptic('medium');
+    setAppState('HISTORY');
+  };
+
+  const wakeFromBlank = () => {
+    setIsBlank(false);
+    playHaptic('medium');
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (appState !== 'READY') return;
+    gestureRecognizer.down(e);
+    // The blank screen wakes once the gesture is known, so the SOS gesture works from it too.
+    if (isBlank) return;
+    // A second finger makes this a multi-finger gesture, never a hold.
+    if (!e.isPrimary) { if (holdTimerRef.current) { window.clearTimeout(holdTimerRef.current); holdTimerRef.current = null; } return; }
     pointsRef.current = [{x: e.clientX, y: e.clientY}];
     setGestureTrail([{x: e.clientX, y: e.clientY}]);
     holdTimerRef.current = window.setTimeout(() => {
-      if (isSpeakingRef.current || isCountingDownRef.current || isAnalyzing) return;
+      if (isCountingDownRef.current || isAnalyzing) return;
+      if (photoChatRef.current) { gestureRecognizer.cancel(); askAboutPhoto(); return; }
+      if (isHandsFreeRef.current || isSpeakingRef.current) return;
+      gestureRecognizer.cancel();
       setIsMicHeld(true); playHaptic('double');
-    }, 450);
+    }, getSettings().holdThresholdMs);
   };
 
   const handlePointerMove = (e: React.PointerEvent) => {
-    if (appState !== 'READY' || pointsRef.current.length === 0 || isBlank) return;
+    if (appState !== 'READY') return;
+    gestureRecognizer.move(e);
+    if (!e.isPrimary || pointsRef.current.length === 0) return;
     pointsRef.current.push({x: e.clientX, y: e.clientY});
     setGestureTrail(prev => [...prev, {x: e.clientX, y: e.clientY}].slice(-30));
     if (Math.sqrt(Math.pow(e.clientX - pointsRef.current[0].x, 2) + Math.pow(e.clientY - pointsRef.current[0].y, 2)) > 30) {
@@ -459,47 +1245,71 @@ STYLE: Clear, descriptive, and reassuring. Use relative directions.`;
     }
   };
 
-  const handlePointerUp = () => {
-    if (appState !== 'READY' || isBlank) return;
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (appState !== 'READY') return;
     if (holdTimerRef.current) { window.clearTimeout(holdTimerRef.current); holdTimerRef.current = null; }
-    if (isMicHeldRef.current) { setIsMicHeld(false); playHaptic('light'); } 
-    else {
-      const gesture = analyzeGesture(pointsRef.current);
-      if (gesture === 'SWIPE_RIGHT') { if (!isNavModeRef.current) startNavigatorMode(); } 
-      else if (gesture === 'SWIPE_LEFT') { if (!visionActiveRef.current) startVisionMode(); } 
-      else if (gesture === 'SWIPE_DOWN') { if (!isMapsModeRef.current) startMapsMode(); }
-      else if (gesture === 'SWIPE_UP') { 
-        stopCameraStream(); 
-        setIsNavMode(false); 
-        setIsMapsMode(false); 
-        setIsGuidanceActive(false); 
-        closeSession(); 
-        setIsBlank(true);
-        playHaptic('heavy');
-      }
-      else {
-        tapCountRef.current++;
-        if (tapTimerRef.current) clearTimeout(tapTimerRef.current);
-        tapTimerRef.current = window.setTimeout(() => {
-          if (tapCountRef.current === 2) {
-            if (isNavModeRef.current) { setIsGuidanceActive(!isGuidanceActive); playHaptic('success'); if (isGuidanceActive) speakText(t('guidance_start')); } 
-            else if (isMapsModeRef.current) describeLocation();
-            else if (visionActiveRef.current) triggerCountdownDescription(); 
-            else startVisionMode();
-          }
-          tapCountRef.current = 0;
-        }, 300);
-      }
-    }
+    gestureRecognizer.up(e);
+    if (gestureRecognizer.fingers() > 0) return;
+    if (isMicHeldRef.current) { setIsMicHeld(false); setMicLevel(0); playHaptic('light'); }
+    else if (photoQuestionRef.current) { photoQuestionRef.current.abort(); playHaptic('light'); }
     pointsRef.current = []; setGestureTrail([]);
   };
 
+  const stopSpeaking = () => {
+    window.speechSynthesis.cancel();
+    stopAllAudio(); nextStartTimeRef.current = 0;
+    setIsSpeaking(false);
+    playHaptic('light');
+  };
+
+  const globalGestureActions: Record<Exclude<GestureAction, `mode_${string}`>, () => void> = {
+    primary: runPrimaryAction,
+    history: openHistory,
+    hands_free: toggleHandsFree,
+    reading: openReading,
+    captions: toggleCaptions,
+    settings: openSettings,
+    stop_speech: stopSpeaking,
+    stop_mode: () => { if (activeModeRef.current) stopActiveMode(); else playHaptic('heavy'); },
+    turn_off: turnOff,
+    places: openPlaces,
+    save_place: savePlaceFlow,
+    place_directions: placeDirectionsFlow,
+    sos: startSos
+  };
+
+  gestureHandlerRef.current = (gesture) => {
+    const action = actionForGesture(gesture.id, gestureBindings);
+    if (isBlank && action !== 'sos') { wakeFromBlank(); return; }
+    // A lone tap is how the screen gets explored, so only other unbound gestures are flagged.
+    if (!action) { if (gesture.id !== 'TAP_1') playHaptic('heavy'); return; }
+    const mode = modeForAction(action);
+    if (!mode) { globalGestureActions[action as keyof typeof globalGestureActions](); return; }
+    if (activeModeRef.current === mode) MODES[mode].onRepeatGesture?.(modeActions);
+    else modeMachine.activate(mode);
+  };
+
+  unrecognizedHandlerRef.current = () => {
+    if (isBlank) wakeFromBlank();
+    else playHaptic('heavy');
+  };
+
+  /** The first gesture bound to an action, for the on-screen hints. */
+  const gestureHint = (action: GestureAction) => {
+    const [gesture] = gesturesForAction(action, gestureBindings);
+    return gesture ? describeGesture(gesture, t) : t('gesture_unbound');
+  };
+
   const requestOrientationAndSetLang = async (lang: AppLanguage) => {
     if (typeof (DeviceOrientationEvent as any).requestPermission === 'function') {
       try { await (DeviceOrientationEvent as any).requestPermission(); } catch (e) {}
     }
+    // Shake-to-SOS reads motion, which iOS gates separately.
+    if (typeof (DeviceMotionEvent as any).requestPermission === 'function') {
+      try { await (DeviceMotionEvent as any).requestPermission(); } catch (e) {}
+    }
     setSelectedLanguage(lang);
-    localStorage.setItem('vision_voice_lang', lang.code);
+    updateSettings({ languageCode: lang.code });
     setAppState('CALIBRATION'); setCalibrationStep(0); playHaptic('medium');
   };
 
@@ -512,16 +1322,16 @@ STYLE: Clear, descriptive, and reassuring. Use relative directions.`;
            <div className="absolute inset-0 bg-blue-100 scale-150 blur-3xl rounded-full opacity-50 animate-pulse"></div>
            <Sparkles size={80} className="text-[#4285F4] relative z-10" />
         </div>
-        <h1 className="text-4xl font-bold text-[#1F1F1F] mb-4 tracking-tight font-['Google_Sans']">Google Vision Voice</h1>
-        <p className="text-gray-500 text-xl mb-12 max-w-xs mx-auto">Assistive technology for independent living.</p>
-        <button className="w-full max-w-xs py-5 bg-[#4285F4] text-white rounded-full font-medium text-xl shadow-lg active:scale-95 transition-all">Get Started</button>
+        <h1 className="text-4xl font-bold text-[#1F1F1F] mb-4 tracking-tight font-['Google_Sans']">{t('welcome_title')}</h1>
+        <p className="text-gray-500 text-xl mb-12 max-w-xs mx-auto">{t('welcome_subtitle')}</p>
+        <button className="w-full max-w-xs py-5 bg-[#4285F4] text-white rounded-full font-medium text-xl shadow-lg active:scale-95 transition-all">{t('get_started')}</button>
       </div>
     );
   }
 
   if (appState === 'INIT') {
-    const saved = localStorage.getItem('vision_voice_lang');
-    if (saved) { setSelectedLanguage(SUPPORTED_LANGUAGES.find(l => l.code === saved)!); setAppState('READY'); }
+    const saved = SUPPORTED_LANGUAGES.find(l => l.code === getSettings().languageCode);
+    if (saved) { setSelectedLanguage(saved); setAppState('READY'); }
     else setAppState('LANGUAGE_PICKER');
     return null;
   }
@@ -531,7 +1341,7 @@ STYLE: Clear, descriptive, and reassuring. Use relative directions.`;
       <div className="h-[100svh] w-full bg-[#F8F9FA] flex flex-col p-6 pt-12">
         <header className="mb-12 flex items-center gap-4">
            <div className="p-3 bg-white rounded-2xl google-shadow"><Languages className="text-[#4285F4]" /></div>
-           <h2 className="text-2xl font-bold text-[#1F1F1F]">Select Language</h2>
+           <h2 className="text-2xl font-bold text-[#1F1F1F]">{t('select_language')}</h2>
         </header>
         <div className="flex-1 space-y-4 overflow-y-auto pb-12">
           {SUPPORTED_LANGUAGES.map(lang => (
@@ -556,17 +1366,17 @@ STYLE: Clear, descriptive, and reassuring. Use relative directions.`;
              {calibrationStep >= 5 ? <CheckCircle2 size={64} className="text-[#34A853]" /> : <RefreshCw size={64} className="text-[#4285F4] animate-spin" />}
           </div>
         </div>
-        <h2 className="text-3xl font-bold text-[#1F1F1F] mb-6 tracking-tight">Calibration</h2>
+        <h2 className="text-3xl font-bold text-[#1F1F1F] mb-6 tracking-tight">{t('calibration_title')}</h2>
         <div className="w-full max-w-xs bg-[#F1F3F4] h-2 rounded-full mb-12 overflow-hidden">
           <div className="h-full bg-[#4285F4] transition-all duration-500" style={{ width: `${(calibrationStep / 5) * 100}%` }}></div>
         </div>
         <div className="bg-[#F8F9FA] p-10 rounded-[2rem] google-shadow w-full max-w-sm mb-12">
           <p className="text-[#1F1F1F] text-2xl font-bold leading-tight">
-            {UI_STRINGS[selectedLanguage?.code || 'en-US'][['calibration_start', 'calibration_right', 'calibration_left', 'calibration_up', 'calibration_down', 'calibration_done'][calibrationStep]]}
+            {t(['calibration_start', 'calibration_right', 'calibration_left', 'calibration_up', 'calibration_down', 'calibration_done'][calibrationStep])}
           </p>
         </div>
         <button 
-          onClick={() => { setAppState('READY'); playHaptic('success'); speakText("Calibration skipped."); }}
+          onClick={() => { setAppState('READY'); playHaptic('success'); speakText(t('calibration_skipped')); }}
           className="text-sm font-bold text-gray-400 uppercase tracking-widest py-3 px-8 rounded-full hover:bg-gray-50 transition-colors"
         >
           {t('skip_calibration')}
@@ -575,60 +1385,120 @@ STYLE: Clear, descriptive, and reassuring. Use relative directions.`;
     );
   }
 
+  if (appState === 'HISTORY') {
+    return <HistoryView language={selectedLanguage} t={t} speakText={speakText} onClose={() => setAppState('READY')} onOpenTranscripts={() => setAppState('TRANSCRIPTS')} />;
+  }
+
+  if (appState === 'READING') {
+    return <ReadingView language={selectedLanguage} t={t} speakText={speakText} onClose={closeReading} />;
+  }
+
+  if (appState === 'TRANSCRIPTS') {
+    return <TranscriptView language={selectedLanguage} t={t} speakText={speakText} onClose={() => setAppState('HISTORY')} />;
+  }
+
+  if (appState === 'CUES') {
+    return <CuePractice t={t} speakText={speakText} onClose={() => setAppState('SETTINGS')} />;
+  }
+
+  if (appState === 'SETTINGS') {
+    return <SettingsView language={selectedLanguage} t={t} speakText={speakText} onClose={() => setAppState('READY')} onOpenCues={() => setAppState('CUES')} onOpenGestures={() => setAppState('GESTURES')} onOpenSosContacts={() => setAppState('SOS_CONTACTS')} />;
+  }
+
+  if (appState === 'GESTURES') {
+    return <GestureBindingsView t={t} speakText={speakText} onClose={() => setAppState('SETTINGS')} />;
+  }
+
+  if (appState === 'SOS_CONTACTS') {
+    return <SosContactsView language={selectedLanguage} t={t} speakText={speakText} onClose={() => setAppState('SETTINGS')} />;
+  }
+
+  if (appState === 'PLACES') {
+    return <PlacesView language={selectedLanguage} t={t} speakText={speakText} onClose={() => setAppState('READY')} />;
+  }
+
+  const isListening = isMicHeld || isVoiceDetected;
+
   if (isBlank) {
+    if (isScreenReaderMode) {
+      return <button onClick={() => { setIsBlank(false); playHaptic('medium'); speakText(t('ready')); }} className="h-[100svh] w-full bg-black text-white/10 text-xl font-bold">{t('sr_wake')}</button>;
+    }
     return (
       <div 
-        onPointerDown={handlePointerDown}
-        className="h-[100svh] w-full bg-black flex items-center justify-center cursor-pointer"
+        onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} onPointerCancel={handlePointerUp}
+        className="h-[100svh] w-full bg-black flex items-center justify-center cursor-pointer touch-none"
       />
     );
   }
 
+  const activeMode = modeState.mode;
+  const activeDefinition = activeMode ? MODES[activeMode] : null;
+  const ActiveIcon = activeDefinition?.icon;
+  // In screen-reader mode the gesture surface is dropped so the reader's own touch exploration works.
+  const gestureHandlers = isScreenReaderMode ? {} : { onPointerDown: handlePointerDown, onPointerMove: handlePointerMove, onPointerUp: handlePointerUp, onPointerCancel: handlePointerUp };
+
   return (
-    <div onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} className="h-[100svh] w-full bg-[#F8F9FA] flex flex-col overflow-hidden relative touch-none select-none">
+    <div {...gestureHandlers} className={`h-[100svh] w-full bg-[#F8F9FA] flex flex-col overflow-hidden relative ${isScreenReaderMode ? '' : 'touch-none select-none'}`}>
       
       {/* Background Visuals */}
-      <div className={`absolute inset-0 transition-opacity duration-700 ${visionActive ? 'opacity-100' : 'opacity-0'}`}>
+      <div aria-hidden="true" className={`absolute inset-0 transition-opacity duration-700 ${isCameraOn ? 'opacity-100' : 'opacity-0'}`}>
         <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover grayscale-[0.1]" />
         <div className="absolute inset-0 bg-white/30 backdrop-blur-[2px]"></div>
       </div>
 
-      {isMapsMode && (
-        <div className="absolute inset-0 z-0 bg-[#FFFBE6] animate-in flex items-center justify-center">
-           <div className="absolute inset-0 opacity-15" style={{ backgroundImage: 'radial-gradient(#FBBC04 1px, transparent 0)', backgroundSize: '32px 32px' }}></div>
-        </div>
-      )}
-
-      {isNavMode && (
-        <div className="absolute inset-0 z-0 bg-[#E8F0FE] animate-in flex items-center justify-center">
-           <div className="absolute inset-0 opacity-15" style={{ backgroundImage: 'radial-gradient(#4285F4 1px, transparent 0)', backgroundSize: '32px 32px' }}></div>
+      {activeDefinition?.backgroundColor && (
+        <div key={activeDefinition.id} aria-hidden="true" className="absolute inset-0 z-0 animate-in flex items-center justify-center" style={{ backgroundColor: activeDefinition.backgroundColor }}>
+           <div className="absolute inset-0 opacity-15" style={{ backgroundImage: `radial-gradient(${activeDefinition.color} 1px, transparent 0)`, backgroundSize: '32px 32px' }}></div>
         </div>
       )}
 
       <header className="p-6 flex items-center justify-between z-40 relative">
-          <button className="bg-white google-shadow px-6 py-3 rounded-full flex items-center gap-3 active:scale-95 transition-all" onClick={() => setAppState('LANGUAGE_PICKER')}>
-              <div className={`w-3 h-3 rounded-full ${isMicHeld ? 'bg-[#34A853] animate-pulse' : (isSpeaking ? 'bg-[#4285F4]' : 'bg-gray-300')}`} />
-              <span className="text-sm font-bold text-[#1F1F1F] tracking-tight uppercase">{selectedLanguage?.name}</span>
-          </button>
+          <div className="flex items-center gap-3">
+            <button aria-label={`${t('select_language')}: ${selectedLanguage?.name}`} className="bg-white google-shadow px-6 py-3 rounded-full flex items-center gap-3 active:scale-95 transition-all" onClick={() => setAppState('LANGUAGE_PICKER')}>
+                <div aria-hidden="true" className={`w-3 h-3 rounded-full ${voiceStatus === 'error' ? 'bg-[#EA4335]' : voiceStatus === 'connecting' ? 'bg-[#FBBC04] animate-pulse' : isListening ? 'bg-[#34A853] animate-pulse' : (isSpeaking ? 'bg-[#4285F4]' : 'bg-gray-300')}`} />
+                <span className="text-sm font-bold text-[#1F1F1F] tracking-tight uppercase">{selectedLanguage?.name}</span>
+            </button>
+            {isOffline && (
+              <div role="status" aria-label={t('offline_badge')} className="bg-[#FBBC04] google-shadow p-4 rounded-full text-[#1F1F1F]">
+                <WifiOff size={20} aria-hidden="true" />
+              </div>
+            )}
+          </div>
           
-          {(isNavMode || visionActive || isMapsMode) && (
-            <button onClick={(e) => { e.stopPropagation(); if (isNavMode) setIsNavMode(false); if (visionActive) stopCameraStream(); if (isMapsMode) setIsMapsMode(false); closeSession(); playHaptic('light'); }} className="bg-white google-shadow p-4 rounded-full text-[#EA4335] active:scale-95 transition-all">
-              <X size={24} />
+          <div className="flex items-center gap-3">
+            <button onClick={(e) => { e.stopPropagation(); toggleScreenReaderMode(); }} aria-label={t('sr_mode')} aria-pressed={isScreenReaderMode} className={`google-shadow p-4 rounded-full active:scale-95 transition-all ${isScreenReaderMode ? 'bg-[#4285F4] text-white' : 'bg-white text-gray-400'}`}>
+              <Accessibility size={24} />
             </button>
-          )}
+            <button onClick={(e) => { e.stopPropagation(); openSettings(); }} aria-label={t('settings_title')} className="bg-white google-shadow p-4 rounded-full text-gray-400 active:scale-95 transition-all">
+              <SettingsIcon size={24} />
+            </button>
+            {isHandsFree && (
+              <button onClick={(e) => { e.stopPropagation(); cycleVadSensitivity(); }} aria-label={`${t('sensitivity')}: ${t(`sensitivity_${vadSensitivity}`)}`} className="bg-white google-shadow px-4 py-3 rounded-full text-[11px] font-bold text-gray-500 uppercase tracking-widest active:scale-95 transition-all">
+                {t(`sensitivity_${vadSensitivity}`)}
+              </button>
+            )}
+            <button onClick={(e) => { e.stopPropagation(); toggleHandsFree(); }} aria-label={t('hands_free')} aria-pressed={isHandsFree} className={`google-shadow p-4 rounded-full active:scale-95 transition-all ${isHandsFree ? 'bg-[#34A853] text-white' : 'bg-white text-gray-400'}`}>
+              {isHandsFree ? <Ear size={24} /> : <MicOff size={24} />}
+            </button>
+            {activeMode && (
+              <button onClick={(e) => { e.stopPropagation(); stopActiveMode(); }} aria-label={t('sr_stop_mode')} className="bg-white google-shadow p-4 rounded-full text-[#EA4335] active:scale-95 transition-all">
+                <X size={24} />
+              </button>
+            )}
+          </div>
       </header>
 
       {countdown !== null && (
-        <div className="absolute inset-0 flex items-center justify-center z-[100] bg-white/60 backdrop-blur-md">
+        <div aria-hidden="true" className="absolute inset-0 flex items-center justify-center z-[100] bg-white/60 backdrop-blur-md">
             <span className="text-[12rem] font-bold text-[#4285F4] animate-ping">{countdown}</span>
         </div>
       )}
 
       <main className="flex-1 flex flex-col items-center justify-center relative z-20 pointer-events-none px-8 mt-[-40px]">
-          <div className="relative">
-              <div className={`absolute inset-0 blur-[100px] transition-all duration-1000 rounded-full opacity-30 ${isSpeaking ? 'bg-[#4285F4] scale-150' : (isMicHeld ? 'bg-[#34A853] scale-125' : (isMapsMode ? 'bg-[#FBBC04]' : 'bg-[#FBBC04]'))}`} />
+          <div className="relative" aria-hidden="true">
+              <div className={`absolute inset-0 blur-[100px] transition-all duration-1000 rounded-full opacity-30 ${isSpeaking ? 'bg-[#4285F4] scale-150' : (isListening ? 'bg-[#34A853] scale-125' : 'bg-[#FBBC04]')}`} />
               
-              <div className={`w-64 h-64 rounded-full material-card flex items-center justify-center relative overflow-hidden transition-all duration-700 ${isMicHeld || isSpeaking ? 'scale-110' : 'scale-100'} ${isNavMode ? 'border-[6px] border-[#4285F4]' : isMapsMode ? 'border-[6px] border-[#FBBC04]' : ''}`}>
+              <div className={`w-64 h-64 rounded-full material-card flex items-center justify-center relative overflow-hidden transition-all duration-700 ${isListening || isSpeaking ? 'scale-110' : 'scale-100'}`} style={activeDefinition && !activeDefinition.needsCamera ? { border: `6px solid ${activeDefinition.color}` } : undefined}>
                   {isAnalyzing ? (
                       <div className="animate-spin text-[#FBBC04]"><Search size={80} /></div>
                   ) : isSpeaking ? (
@@ -637,73 +1507,101 @@ STYLE: Clear, descriptive, and reassuring. Use relative directions.`;
                           <div key={i} className="w-2.5 bg-[#4285F4] rounded-full animate-wave" style={{ animationDelay: `${i * 0.15}s`, height: '100%' }} />
                         ))}
                       </div>
-                  ) : (isMicHeld ? <Mic size={72} className="text-[#34A853]" /> : 
-                       (isNavMode ? <MapPin size={72} className="text-[#4285F4]" /> : 
-                       (isMapsMode ? <MapIcon size={72} className="text-[#FBBC04]" /> :
-                       (visionActive ? <Camera size={72} className="text-gray-700" /> : <Sparkles size={72} className="text-[#FBBC04]" />))))}
+                  ) : (isListening ? <Mic size={72} className="text-[#34A853] transition-transform duration-100" style={{ transform: `scale(${1 + Math.min(micLevel * 4, 0.5)})` }} /> : 
+                       (ActiveIcon ? <ActiveIcon size={72} style={{ color: activeDefinition?.color }} /> : <Sparkles size={72} className="text-[#FBBC04]" />))}
               </div>
           </div>
 
           <div className="mt-12 text-center w-full max-w-xs">
               <h2 className="text-4xl font-bold text-[#1F1F1F] tracking-tight mb-4">
-                {isAnalyzing ? "Analyzing..." : isSpeaking ? t('speaking') : (isMicHeld ? t('listening') : (isNavMode ? "Navigator" : isMapsMode ? "Maps Explorer" : (visionActive ? "Vision" : t('ready'))))}
+                {voiceStatus === 'error' ? t('session_offline') : isAnalyzing ? t('analyzing') : isSpeaking ? t('speaking') : (isListening ? t('listening') : (activeDefinition ? t(activeDefinition.labelKey) : t('ready')))}
               </h2>
               
-              <div className="flex items-center justify-center gap-2 mb-10">
+              <div aria-hidden="true" className="flex items-center justify-center gap-2 mb-10">
                  <div className="w-1.5 h-1.5 rounded-full bg-[#4285F4]"></div>
                  <div className="w-1.5 h-1.5 rounded-full bg-[#EA4335]"></div>
                  <div className="w-1.5 h-1.5 rounded-full bg-[#FBBC04]"></div>
                  <div className="w-1.5 h-1.5 rounded-full bg-[#34A853]"></div>
               </div>
 
-              {!visionActive && !isNavMode && !isMapsMode && (
+              {!activeMode && !isScreenReaderMode && (
                 <div className="grid grid-cols-2 gap-3 w-full">
-                    <div className="bg-white google-shadow px-4 py-3 rounded-2xl flex flex-col items-center gap-1 border-b-4 border-[#4285F4]">
-                      <Camera size={18} className="text-[#4285F4]" />
-                      <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Left: Vision</span>
-                    </div>
-                    <div className="bg-white google-shadow px-4 py-3 rounded-2xl flex flex-col items-center gap-1 border-b-4 border-[#34A853]">
-                      <Navigation size={18} className="text-[#34A853]" />
-                      <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Right: Nav</span>
-                    </div>
-                    <div className="bg-white google-shadow px-4 py-3 rounded-2xl flex flex-col items-center gap-1 border-b-4 border-[#FBBC04]">
-                      <MapIcon size={18} className="text-[#FBBC04]" />
-                      <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Down: Maps</span>
-                    </div>
+                    {MODE_ORDER.map(id => {
+                      const { icon: Icon, color, shortLabelKey } = MODES[id];
+                      return (
+                        <div key={id} className="bg-white google-shadow px-4 py-3 rounded-2xl flex flex-col items-center gap-1 border-b-4" style={{ borderColor: color }}>
+                          <Icon size={18} style={{ color }} />
+                          <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{gestureHint(`mode_${id}`)}: {t(shortLabelKey)}</span>
+                        </div>
+                      );
+                    })}
                     <div className="bg-white google-shadow px-4 py-3 rounded-2xl flex flex-col items-center gap-1 border-b-4 border-gray-400">
                       <Power size={18} className="text-gray-400" />
-                      <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Up: Off</span>
+                      <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{gestureHint('turn_off')}: {t('swipe_up_hint')}</span>
                     </div>
                 </div>
               )}
 
-              {visionActive && !isAnalyzing && (
-                <div className="bg-white google-shadow px-6 py-4 rounded-3xl border-2 border-[#4285F4] animate-pulse inline-block">
-                  <span className="text-sm font-bold text-[#4285F4] uppercase tracking-tighter">Double Tap to Describe</span>
-                </div>
+              {activeMode === 'HELPER' && helperCall && (
+                <p role="status" className="mb-6 text-lg font-bold text-[#1F1F1F]">{t(`helper_state_${helperCall.state}`, { name: helperCall.name })}</p>
               )}
 
-              {isMapsMode && !isAnalyzing && (
-                <div className="bg-white google-shadow px-6 py-4 rounded-3xl border-2 border-[#FBBC04] animate-pulse inline-block">
-                  <span className="text-sm font-bold text-[#FBBC04] uppercase tracking-tighter">Double Tap for Nearby</span>
+              {activeDefinition?.doubleTapHintKey && !isAnalyzing && !isScreenReaderMode && (
+                <div className="bg-white google-shadow px-6 py-4 rounded-3xl border-2 animate-pulse inline-block" style={{ borderColor: activeDefinition.color }}>
+                  <span className="text-sm font-bold uppercase tracking-tighter" style={{ color: activeDefinition.color }}>{t(activeDefinition.doubleTapHintKey)}</span>
                 </div>
               )}
 
-              {isNavMode && isGuidanceActive && (
-                <div className="bg-[#E8F0FE] border border-[#4285F4]/30 px-6 py-4 rounded-3xl flex items-center justify-center gap-3">
-                  <Footprints size={20} className="text-[#4285F4]" />
-                  <span className="text-[#4285F4] font-bold text-sm">Guidance Active</span>
+              {activeMode && activeDefinition?.repeatGestureHintKey && !isAnalyzing && !isScreenReaderMode && (
+                <p className="mt-4 text-[11px] font-bold text-gray-500 uppercase tracking-widest">{gestureHint(`mode_${activeMode}`)}: {t(activeDefinition.repeatGestureHintKey)}</p>
+              )}
+
+              {isCameraOn && frameStats && (
+                <p className="mt-4 text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+                  {t('frame_stats', { frames: frameStats.framesSent, kilobytes: Math.round(frameStats.bytesSent / 1024), width: frameStats.width })}
+                </p>
+              )}
+
+              {isGuidanceActive && (
+                <div className={`border px-6 py-4 rounded-3xl flex flex-col items-center justify-center gap-1 ${guidanceProgress?.offRoute ? 'bg-red-50 border-[#EA4335]/30' : 'bg-[#E8F0FE] border-[#4285F4]/30'}`}>
+                  <div className="flex items-center gap-3">
+                    <Footprints size={20} className={guidanceProgress?.offRoute ? 'text-[#EA4335]' : 'text-[#4285F4]'} />
+                    <span className={`font-bold text-sm ${guidanceProgress?.offRoute ? 'text-[#EA4335]' : 'text-[#4285F4]'}`}>{t('guidance_active')}</span>
+                  </div>
+                  {guidanceProgress && (
+                    <span className="text-[#1F1F1F] font-bold text-lg">{roundDistance(guidanceProgress.distance)} m · {describeManeuver(guidanceProgress.step)}</span>
+                  )}
+                  {routeAttribution && <span className="text-[10px] text-gray-400">{routeAttribution}</span>}
                 </div>
               )}
           </div>
       </main>
 
       <footer className="p-8 pb-12 flex flex-col items-center gap-2 z-40 relative mt-auto">
-        <div className="w-10 h-1 bg-gray-200 rounded-full mb-3"></div>
-        <p className="text-[11px] font-bold text-gray-400 uppercase tracking-[0.3em]">{t('hold_to_talk')}</p>
+        {isScreenReaderMode ? (
+          <AccessibleControls
+            t={t}
+            activeMode={activeMode}
+            isTalking={isMicHeld}
+            isHandsFree={isHandsFree}
+            isBusy={isAnalyzing || countdown !== null}
+            isGuidanceActive={isGuidanceActive}
+            onSelectMode={(mode) => modeMachine.activate(mode)}
+            onDescribe={runPrimaryAction}
+            onRead={openReading}
+            onTalk={toggleTalk}
+            onSos={startSos}
+            onOff={turnOff}
+          />
+        ) : (
+          <>
+            <div className="w-10 h-1 bg-gray-200 rounded-full mb-3"></div>
+            <p className="text-[11px] font-bold text-gray-400 uppercase tracking-[0.3em]">{isHandsFree ? t('hands_free') : t('hold_to_talk')}</p>
+          </>
+        )}
       </footer>
 
-      <svg className="absolute inset-0 w-full h-full pointer-events-none z-50">
+      <svg aria-hidden="true" className="absolute inset-0 w-full h-full pointer-events-none z-50">
         {gestureTrail.length > 1 && (
           <path 
             d={`M ${gestureTrail[0].x} ${gestureTrail[0].y} ${gestureTrail.slice(1).map(p => `L ${p.x} ${p.y}`).join(' ')}`} 
@@ -716,6 +1614,18 @@ STYLE: Clear, descriptive, and reassuring. Use relative directions.`;
         )}
       </svg>
 
+      {photoChat && activeMode === 'VISION' && (
+        <ChatView t={t} chat={photoChat} isBusy={isAnalyzing} isListening={isAskingPhoto} onAsk={askAboutPhoto} onDismiss={dismissPhoto} />
+      )}
+
+      {sos && (
+        <SosOverlay t={t} sos={sos} onCancel={cancelSos} onShare={shareSosFromTap} onDismiss={() => updateSos(null)} />
+      )}
+
+      {activeMode && (
+        <CaptionOverlay t={t} enabled={captionsEnabled} sizeIndex={captionSizeIndex} userText={captionUser} modelText={captionModel} onToggle={toggleCaptions} onResize={resizeCaptions} />
+      )}
+
       <canvas ref={canvasRef} className="hidden" />
       <style>{`
         .animate-in { animation: fadeIn 0.4s cubic-bezier(0, 0, 0.2, 1); }
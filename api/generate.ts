@@ -0,0 +1,5 @@
+
+import { getKeyProxy } from '../server/keyProxy';
+
+/** Vercel function for `/api/generate`; see `server/keyProxy.ts`. */
+export const POST = (request: Request) => getKeyProxy().handleGenerate(request);
@@ -0,0 +1,5 @@
+
+import { getKeyProxy } from '../server/keyProxy';
+
+/** Vercel function for `/api/token`; see `server/keyProxy.ts`. */
+export const POST = (request: Request) => getKeyProxy().handleToken(request);
@@ -0,0 +1,58 @@
+
+import React from 'react';
+import { Sparkles, Mic, MicOff, Power, BookOpen, Siren } from 'lucide-react';
+import { SessionMode } from '../types';
+import { Translator } from '../i18n';
+import { MODES, MODE_ORDER } from '../services/modes';
+
+interface AccessibleControlsProps {
+  t: Translator;
+  activeMode: SessionMode | null;
+  isTalking: boolean;
+  isHandsFree: boolean;
+  isBusy: boolean;
+  isGuidanceActive: boolean;
+  onSelectMode: (mode: SessionMode) => void;
+  onDescribe: () => void;
+  onRead: () => void;
+  onTalk: () => void;
+  /** Starts the same cancellable countdown as the SOS gesture. */
+  onSos: () => void;
+  onOff: () => void;
+}
+
+const BUTTON = 'bg-white google-shadow p-5 rounded-3xl flex flex-col items-center gap-2 text-[#1F1F1F] font-bold text-base active:scale-95 transition-all disabled:opacity-40 focus-visible:outline focus-visible:outline-4 focus-visible:outline-[#4285F4]';
+
+/** Every READY-screen action as a labelled button, replacing the gesture surface in screen-reader mode. */
+export const AccessibleControls: React.FC<AccessibleControlsProps> = ({ t, activeMode, isTalking, isHandsFree, isBusy, isGuidanceActive, onSelectMode, onDescribe, onRead, onTalk, onSos, onOff }) => {
+  const describeLabel = isGuidanceActive ? t('sr_stop_guidance') : t(activeMode ? MODES[activeMode].actionLabelKey : 'sr_describe_scene');
+
+  return (
+    <nav aria-label={t('sr_controls')} className="grid grid-cols-2 gap-3 w-full max-w-sm">
+      {MODE_ORDER.map(id => {
+        const { icon: Icon, color, labelKey } = MODES[id];
+        return (
+          <button key={id} onClick={() => { if (activeMode !== id) onSelectMode(id); }} aria-pressed={activeMode === id} className={BUTTON}>
+            <Icon size={24} style={{ color }} aria-hidden="true" />{t(labelKey)}
+          </button>
+        );
+      })}
+      <button onClick={onDescribe} disabled={!activeMode || isBusy} className={BUTTON}>
+        <Sparkles size={24} className="text-[#4285F4]" aria-hidden="true" />{describeLabel}
+      </button>
+      <button onClick={onRead} className={BUTTON}>
+        <BookOpen size={24} className="text-[#34A853]" aria-hidden="true" />{t('reading_title')}
+      </button>
+      <button onClick={onTalk} disabled={!activeMode || isHandsFree} aria-pressed={isTalking} className={BUTTON}>
+        {isTalking ? <Mic size={24} className="text-[#34A853]" aria-hidden="true" /> : <MicOff size={24} className="text-gray-400" aria-hidden="true" />}
+        {t(isHandsFree ? 'hands_free' : 'sr_talk')}
+      </button>
+      <button onClick={onSos} className={BUTTON}>
+        <Siren size={24} className="text-[#EA4335]" aria-hidden="true" />{t('sr_sos')}
+      </button>
+      <button onClick={onOff} className={BUTTON}>
+        <Power size={24} className="text-[#EA4335]" aria-hidden="true" />{t('sr_off')}
+      </button>
+    </nav>
+  );
+};
@@ -0,0 +1,43 @@
+
+import React from 'react';
+import { Minus, Plus, Captions, CaptionsOff } from 'lucide-react';
+import { Translator } from '../i18n';
+
+export const CAPTION_SIZES = [24, 32, 44, 56];
+
+interface CaptionOverlayProps {
+  t: Translator;
+  enabled: boolean;
+  sizeIndex: number;
+  userText: string;
+  modelText: string;
+  onToggle: () => void;
+  onResize: (sizeIndex: number) => void;
+}
+
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+export const CaptionOverlay: React.FC<CaptionOverlayProps> = ({ t, enabled, sizeIndex, userText, modelText, onToggle, onResize }) => {
+  const fontSize = CAPTION_SIZES[sizeIndex] ?? CAPTION_SIZES[1];
+  return (
+    <div className="absolute left-0 right-0 bottom-28 z-[60] px-4 flex flex-col items-stretch gap-3 pointer-events-none">
+      {enabled && (userText || modelText) && (
+        <div role="log" aria-live="polite" className="bg-black/90 rounded-3xl px-6 py-5 max-h-[45svh] overflow-y-auto" style={{ fontSize, lineHeight: 1.25 }}>
+          {userText && <p className="text-[#8AB4F8] font-bold mb-2"><span className="sr-only">{t('caption_you')}: </span>{userText}</p>}
+          {modelText && <p className="text-[#FDD663] font-bold">{modelText}</p>}
+        </div>
+      )}
+      <div className="flex justify-end gap-2 pointer-events-auto" onPointerDown={stop} onPointerUp={stop}>
+        {enabled && (
+          <>
+            <button onClick={() => onResize(Math.max(0, sizeIndex - 1))} aria-label={t('caption_smaller')} className="bg-black/80 text-white p-3 rounded-full active:scale-95 transition-all"><Minus size={20} /></button>
+            <button onClick={() => onResize(Math.min(CAPTION_SIZES.length - 1, sizeIndex + 1))} aria-label={t('caption_larger')} className="bg-black/80 text-white p-3 rounded-full active:scale-95 transition-all"><Plus size={20} /></button>
+          </>
+        )}
+        <button onClick={onToggle} aria-label={t('captions')} aria-pressed={enabled} className="bg-black/80 text-white p-3 rounded-full active:scale-95 transition-all">
+          {enabled ? <Captions size={20} /> : <CaptionsOff size={20} />}
+        </button>
+      </div>
+    </div>
+  );
+};
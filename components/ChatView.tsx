@@ -1 +1,45 @@
-export const ChatView = () => null;
\ No newline at end of file
+import React, { useEffect, useRef } from 'react';
+import { MessageCircleQuestion, X } from 'lucide-react';
+import { PhotoConversation } from '../types';
+import { Translator } from '../i18n';
+
+interface ChatViewProps {
+  t: Translator;
+  chat: PhotoConversation;
+  isBusy: boolean;
+  isListening: boolean;
+  onAsk: () => void;
+  onDismiss: () => void;
+}
+
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+/** The captured photo and the questions asked about it; the READY screen's hold gesture asks the next one. */
+export const ChatView: React.FC<ChatViewProps> = ({ t, chat, isBusy, isListening, onAsk, onDismiss }) => {
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => { endRef.current?.scrollIntoView({ block: 'end', behavior: 'smooth' }); }, [chat.turns.length]);
+
+  return (
+    <section aria-label={t('photo_title')} className="absolute left-4 right-4 top-28 z-[55] bg-white/95 google-shadow rounded-3xl p-4 flex flex-col gap-3 max-h-[40svh]" onPointerDown={stop} onPointerUp={stop}>
+      <div className="flex items-center gap-3">
+        <img src={`data:image/jpeg;base64,${chat.image}`} alt={t('photo_title')} className="w-16 h-12 object-cover rounded-xl" />
+        <p className="flex-1 text-[11px] font-bold text-gray-500 uppercase tracking-widest">{isListening ? t('listening') : t('photo_hint')}</p>
+        <button onClick={onDismiss} aria-label={t('photo_dismiss')} className="bg-[#F1F3F4] p-3 rounded-full text-[#EA4335] active:scale-95 transition-all">
+          <X size={18} />
+        </button>
+      </div>
+      <div role="log" className="overflow-y-auto space-y-2">
+        {chat.turns.map((turn, i) => (
+          <p key={i} className={`text-base leading-snug ${turn.role === 'user' ? 'text-[#1967D2] font-bold' : 'text-[#1F1F1F]'}`}>
+            <span className="sr-only">{turn.role === 'user' ? t('caption_you') : t('caption_assistant')}: </span>{turn.text}
+          </p>
+        ))}
+        <div ref={endRef} />
+      </div>
+      <button onClick={onAsk} disabled={isBusy || isListening} className="bg-[#4285F4] text-white py-3 rounded-2xl flex items-center justify-center gap-2 font-bold disabled:opacity-40 active:scale-95 transition-all">
+        <MessageCircleQuestion size={18} aria-hidden="true" />{t('photo_ask')}
+      </button>
+    </section>
+  );
+};
@@ -0,0 +1,154 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { GraduationCap, HelpCircle, Play, X } from 'lucide-react';
+import { playHaptic } from '../utils/haptics';
+import { analyzeGesture } from '../utils/gestures';
+import { Translator } from '../i18n';
+import { CUES, CUE_ORDER, CueId, CueGroup, FEEDBACK_STYLES, FeedbackStyle, getFeedbackStyle, setFeedbackStyle, playCue, cueDurationMs } from '../services/cues';
+
+interface CuePracticeProps {
+  t: Translator;
+  speakText: (text: string, callback?: () => void) => void;
+  onClose: () => void;
+}
+
+const GROUP_COLORS: Record<CueGroup, string> = {
+  mode: '#4285F4',
+  direction: '#34A853',
+  distance: '#FBBC04',
+  status: '#EA4335'
+};
+
+/** Lets the user hear and feel every cue by name, then quiz themselves on them. */
+export const CuePractice: React.FC<CuePracticeProps> = ({ t, speakText, onClose }) => {
+  const [index, setIndex] = useState(0);
+  const [style, setStyle] = useState<FeedbackStyle>(() => getFeedbackStyle());
+  const [quizCue, setQuizCue] = useState<CueId | null>(null);
+
+  const pointsRef = useRef<{x: number, y: number}[]>([]);
+  const tapCountRef = useRef<number>(0);
+  const tapTimerRef = useRef<number | null>(null);
+  const itemRefs = useRef<(HTMLLIElement | null)[]>([]);
+
+  const label = (id: CueId) => t(CUES[id].labelKey);
+
+  const announce = (i: number) => speakText(`${i + 1} / ${CUE_ORDER.length}. ${label(CUE_ORDER[i])}. ${t(`cue_group_${CUES[CUE_ORDER[i]].group}`)}`);
+
+  useEffect(() => {
+    speakText(t('cues_open'), () => announce(0));
+  }, []);
+
+  useEffect(() => { itemRefs.current[index]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' }); }, [index]);
+
+  const move = (step: number) => {
+    const next = index + step;
+    if (next < 0 || next >= CUE_ORDER.length) { playHaptic('heavy'); return; }
+    setIndex(next);
+    playHaptic('light');
+    announce(next);
+  };
+
+  /** Plays the cue, then names it once the sound has finished. */
+  const demonstrate = (id: CueId) => {
+    window.speechSynthesis.cancel();
+    playCue(id);
+    setTimeout(() => speakText(label(id)), cueDurationMs(id) + 150);
+  };
+
+  const startQuiz = () => {
+    const id = CUE_ORDER[Math.floor(Math.random() * CUE_ORDER.length)];
+    setQuizCue(id);
+    speakText(t('cue_quiz_prompt'), () => playCue(id));
+  };
+
+  const choose = (id: CueId) => {
+    if (!quizCue) { demonstrate(id); return; }
+    setQuizCue(null);
+    if (id === quizCue) { playCue('success', { sound: false }); speakText(t('cue_correct', { cue: label(id) })); }
+    else { playHaptic('heavy'); speakText(t('cue_wrong', { cue: label(quizCue) })); }
+  };
+
+  const selectStyle = (next: FeedbackStyle) => {
+    setFeedbackStyle(next);
+    setStyle(next);
+    playHaptic('light');
+    speakText(`${t('feedback_style')}: ${t(`feedback_${next}`)}`);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    pointsRef.current = [{x: e.clientX, y: e.clientY}];
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (pointsRef.current.length === 0) return;
+    pointsRef.current.push({x: e.clientX, y: e.clientY});
+  };
+
+  const handlePointerUp = () => {
+    if (pointsRef.current.length === 0) return;
+    const gesture = analyzeGesture(pointsRef.current);
+    pointsRef.current = [];
+    if (gesture === 'SWIPE_LEFT') move(1);
+    else if (gesture === 'SWIPE_RIGHT') move(-1);
+    else if (gesture === 'SWIPE_UP') { playHaptic('heavy'); onClose(); }
+    else if (gesture === 'SWIPE_DOWN') startQuiz();
+    else if (!gesture) {
+      tapCountRef.current++;
+      if (tapTimerRef.current) clearTimeout(tapTimerRef.current);
+      tapTimerRef.current = window.setTimeout(() => {
+        if (tapCountRef.current === 2) choose(CUE_ORDER[index]);
+        else if (tapCountRef.current === 3) selectStyle(FEEDBACK_STYLES[(FEEDBACK_STYLES.indexOf(style) + 1) % FEEDBACK_STYLES.length]);
+        tapCountRef.current = 0;
+      }, 300);
+    }
+  };
+
+  return (
+    <div onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} className="h-[100svh] w-full bg-[#F8F9FA] flex flex-col overflow-hidden touch-none select-none">
+      <header className="p-6 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-white rounded-2xl google-shadow"><GraduationCap className="text-[#4285F4]" /></div>
+          <h2 className="text-2xl font-bold text-[#1F1F1F]">{t('cues_title')}</h2>
+        </div>
+        <button onPointerDown={e => e.stopPropagation()} onPointerUp={e => e.stopPropagation()} onClick={onClose} aria-label={t('close')} className="bg-white google-shadow p-4 rounded-full text-[#EA4335] active:scale-95 transition-all">
+          <X size={24} />
+        </button>
+      </header>
+
+      <ul className="flex-1 overflow-y-auto px-6 space-y-3 pb-6">
+        {CUE_ORDER.map((id, i) => (
+          <li key={id} ref={el => { itemRefs.current[i] = el; }}>
+            <button
+              onPointerDown={e => e.stopPropagation()}
+              onPointerUp={e => e.stopPropagation()}
+              onClick={() => { setIndex(i); choose(id); }}
+              className={`w-full bg-white google-shadow p-5 rounded-3xl flex items-center gap-4 text-left transition-all ${i === index ? 'border-4 border-[#4285F4]' : 'border-4 border-transparent'}`}
+            >
+              <span aria-hidden="true" className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: GROUP_COLORS[CUES[id].group] }} />
+              <span className="flex-1">
+                <span className="block text-lg font-bold text-[#1F1F1F]">{label(id)}</span>
+                <span className="block text-[11px] font-bold text-gray-400 uppercase tracking-widest">{t(`cue_group_${CUES[id].group}`)}</span>
+              </span>
+              <Play size={18} className="text-gray-400" aria-hidden="true" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <footer className="p-6 pb-10 space-y-4 bg-white google-shadow rounded-t-[2rem]" onPointerDown={e => e.stopPropagation()} onPointerUp={e => e.stopPropagation()}>
+        <div role="group" aria-label={t('feedback_style')} className="grid grid-cols-3 gap-3">
+          {FEEDBACK_STYLES.map(option => (
+            <button key={option} onClick={() => selectStyle(option)} aria-pressed={style === option} className={`py-3 rounded-2xl text-[11px] font-bold uppercase tracking-widest transition-all ${style === option ? 'bg-[#4285F4] text-white' : 'bg-[#F1F3F4] text-gray-500'}`}>
+              {t(`feedback_${option}`)}
+            </button>
+          ))}
+        </div>
+        <button onClick={startQuiz} className="w-full bg-[#F1F3F4] py-3 rounded-2xl flex items-center justify-center gap-2">
+          <HelpCircle size={18} className="text-[#34A853]" />
+          <span className="text-[11px] font-bold text-gray-500 uppercase tracking-widest">{quizCue ? t('cue_quiz_active') : t('cue_quiz')}</span>
+        </button>
+        <p className="text-[11px] font-bold text-gray-400 uppercase tracking-[0.2em] text-center">{t('cues_hint')}</p>
+      </footer>
+    </div>
+  );
+};
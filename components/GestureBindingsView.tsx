@@ -0,0 +1,161 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Hand, Pencil, Eraser, RotateCcw, X } from 'lucide-react';
+import { playHaptic } from '../utils/haptics';
+import { createGestureRecognizer, RecognizedGesture } from '../utils/gestures';
+import { Translator } from '../i18n';
+import { subscribeSettings } from '../services/settings';
+import {
+  GestureAction, GestureBindings, GESTURE_ACTIONS, BINDABLE_GESTURES, getGestureBindings, gesturesForAction,
+  bindGesture, clearAction, resetAction, resetAllBindings, actionLabel, describeGesture
+} from '../services/gestureBindings';
+
+interface GestureBindingsViewProps {
+  t: Translator;
+  speakText: (text: string, callback?: () => void) => void;
+  onClose: () => void;
+}
+
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+/** Remaps the READY-screen gestures: pick an action, then perform the gesture that should trigger it. */
+export const GestureBindingsView: React.FC<GestureBindingsViewProps> = ({ t, speakText, onClose }) => {
+  const [bindings, setBindings] = useState<GestureBindings>(() => getGestureBindings());
+  const [index, setIndex] = useState(0);
+  const [capturing, setCapturing] = useState<GestureAction | null>(null);
+
+  const capturingRef = useRef<GestureAction | null>(null);
+  const itemRefs = useRef<(HTMLLIElement | null)[]>([]);
+  const gestureHandlerRef = useRef<(gesture: RecognizedGesture) => void>(() => {});
+  const [recognizer] = useState(() => createGestureRecognizer({
+    onGesture: (gesture) => gestureHandlerRef.current(gesture),
+    onUnrecognized: () => playHaptic('heavy')
+  }));
+
+  const gestureNames = (action: GestureAction, from: GestureBindings) => {
+    const gestures = gesturesForAction(action, from);
+    return gestures.length ? gestures.map(gesture => describeGesture(gesture, t)).join(', ') : t('gesture_unbound');
+  };
+
+  /** Read from the store rather than state, so it is current straight after a change. */
+  const describe = (action: GestureAction) => `${actionLabel(action, t)}: ${gestureNames(action, getGestureBindings())}`;
+
+  useEffect(() => subscribeSettings(() => setBindings(getGestureBindings())), []);
+
+  useEffect(() => {
+    speakText(t('gestures_open'), () => speakText(describe(GESTURE_ACTIONS[0])));
+  }, []);
+
+  useEffect(() => { itemRefs.current[index]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' }); }, [index]);
+
+  const move = (step: number) => {
+    const next = index + step;
+    if (next < 0 || next >= GESTURE_ACTIONS.length) { playHaptic('heavy'); return; }
+    setIndex(next);
+    playHaptic('light');
+    speakText(describe(GESTURE_ACTIONS[next]));
+  };
+
+  const setCapture = (action: GestureAction | null) => {
+    capturingRef.current = action;
+    setCapturing(action);
+  };
+
+  const startCapture = (action: GestureAction) => {
+    setCapture(action);
+    playHaptic('double');
+    speakText(t('gesture_capture', { action: actionLabel(action, t) }));
+  };
+
+  const capture = (action: GestureAction, gesture: RecognizedGesture) => {
+    setCapture(null);
+    if (gesture.id === 'TAP_1') { playHaptic('light'); speakText(t('gesture_capture_cancelled')); return; }
+    const name = describeGesture(gesture.id, t);
+    if (!BINDABLE_GESTURES.includes(gesture.id)) { playHaptic('heavy'); speakText(t('gesture_not_bindable', { gesture: name })); return; }
+    const displaced = bindGesture(action, gesture.id);
+    playHaptic('success');
+    const bound = t('gesture_bound', { gesture: name, action: actionLabel(action, t) });
+    // Only worth saying when the other action was left with no gesture at all.
+    const orphaned = displaced && gesturesForAction(displaced).length === 0;
+    speakText(orphaned ? `${bound} ${t('gesture_cleared', { action: actionLabel(displaced, t) })}` : bound);
+  };
+
+  const clear = (action: GestureAction) => {
+    clearAction(action);
+    playHaptic('light');
+    speakText(t('gesture_cleared', { action: actionLabel(action, t) }));
+  };
+
+  const reset = (action: GestureAction) => {
+    resetAction(action);
+    playHaptic('double');
+    speakText(`${t('setting_reset')} ${describe(action)}`);
+  };
+
+  const resetAll = () => {
+    resetAllBindings();
+    playHaptic('double');
+    speakText(t('gestures_reset_all_done'));
+  };
+
+  gestureHandlerRef.current = (gesture) => {
+    const pending = capturingRef.current;
+    if (pending) { capture(pending, gesture); return; }
+    const action = GESTURE_ACTIONS[index];
+    if (gesture.id === 'SWIPE_LEFT') move(1);
+    else if (gesture.id === 'SWIPE_RIGHT') move(-1);
+    else if (gesture.id === 'SWIPE_UP') { playHaptic('heavy'); onClose(); }
+    else if (gesture.id === 'SWIPE_DOWN') reset(action);
+    else if (gesture.id === 'TAP_1') speakText(describe(action));
+    else if (gesture.id === 'TAP_2') startCapture(action);
+    else if (gesture.id === 'TAP_3') clear(action);
+    else playHaptic('heavy');
+  };
+
+  return (
+    <div onPointerDown={recognizer.down} onPointerMove={recognizer.move} onPointerUp={recognizer.up} onPointerCancel={recognizer.up} className="h-[100svh] w-full bg-[#F8F9FA] flex flex-col overflow-hidden touch-none select-none relative">
+      <header className="p-6 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-white rounded-2xl google-shadow"><Hand className="text-[#4285F4]" /></div>
+          <h2 className="text-2xl font-bold text-[#1F1F1F]">{t('gestures_title')}</h2>
+        </div>
+        <button onPointerDown={stop} onPointerUp={stop} onClick={onClose} aria-label={t('close')} className="bg-white google-shadow p-4 rounded-full text-[#EA4335] active:scale-95 transition-all">
+          <X size={24} />
+        </button>
+      </header>
+
+      <ul className="flex-1 overflow-y-auto px-6 space-y-3 pb-6">
+        {GESTURE_ACTIONS.map((action, i) => (
+          <li key={action} ref={el => { itemRefs.current[i] = el; }} className={`bg-white google-shadow p-4 rounded-3xl flex items-center gap-3 transition-all ${i === index ? 'border-4 border-[#4285F4]' : 'border-4 border-transparent'}`}>
+            <button onPointerDown={stop} onPointerUp={stop} onClick={() => { setIndex(i); speakText(describe(action)); }} className="flex-1 text-left min-w-0">
+              <span className="block text-[11px] font-bold text-gray-400 uppercase tracking-widest">{actionLabel(action, t)}</span>
+              <span className="block text-lg font-bold text-[#1F1F1F] truncate">{gestureNames(action, bindings)}</span>
+            </button>
+            <button onPointerDown={stop} onPointerUp={stop} onClick={() => { setIndex(i); startCapture(action); }} aria-label={`${actionLabel(action, t)}: ${t('gesture_change')}`} className="bg-[#F1F3F4] p-3 rounded-full active:scale-95 transition-all">
+              <Pencil size={18} className="text-[#4285F4]" />
+            </button>
+            <button onPointerDown={stop} onPointerUp={stop} onClick={() => { setIndex(i); clear(action); }} aria-label={`${actionLabel(action, t)}: ${t('gesture_clear')}`} className="bg-[#F1F3F4] p-3 rounded-full active:scale-95 transition-all">
+              <Eraser size={18} className="text-gray-500" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <footer className="p-6 pb-10 space-y-4 bg-white google-shadow rounded-t-[2rem]" onPointerDown={stop} onPointerUp={stop}>
+        <button onClick={resetAll} className="w-full bg-[#F1F3F4] py-3 rounded-2xl flex items-center justify-center gap-2">
+          <RotateCcw size={18} className="text-[#EA4335]" />
+          <span className="text-[11px] font-bold text-gray-500 uppercase tracking-widest">{t('gestures_reset_all')}</span>
+        </button>
+        <p className="text-[11px] font-bold text-gray-400 uppercase tracking-[0.2em] text-center">{t('gestures_hint')}</p>
+      </footer>
+
+      {capturing && (
+        // Covers the buttons so the whole screen takes the new gesture.
+        <div role="status" className="absolute inset-0 z-50 bg-[#4285F4]/95 flex flex-col items-center justify-center gap-6 p-10 text-center text-white">
+          <Hand size={64} aria-hidden="true" />
+          <p className="text-2xl font-bold">{t('gesture_capture', { action: actionLabel(capturing, t) })}</p>
+        </div>
+      )}
+    </div>
+  );
+};
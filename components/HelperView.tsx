@@ -0,0 +1,118 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { PhoneCall, PhoneOff, Eye } from 'lucide-react';
+import { createTranslator } from '../i18n';
+import { joinHelperCall, parseRoom, HelperJoin, HelperCallState, HelperCallEnd, HelperCue } from '../services/helperCall';
+import { getSignalingTransport } from '../services/signaling';
+
+interface HelperViewProps {
+  /** From the `?helper=` link; may be empty when the link is pasted in. */
+  initialRoom: string;
+}
+
+/** Where a click landed on the picture, 0..1, allowing for the bars `object-contain` adds; `null` when it missed. */
+const framePoint = (video: HTMLVideoElement, clientX: number, clientY: number): HelperCue | null => {
+  if (!video.videoWidth) return null;
+  const rect = video.getBoundingClientRect();
+  const scale = Math.min(rect.width / video.videoWidth, rect.height / video.videoHeight);
+  const width = video.videoWidth * scale;
+  const height = video.videoHeight * scale;
+  const x = (clientX - rect.left - (rect.width - width) / 2) / width;
+  const y = (clientY - rect.top - (rect.height - height) / 2) / height;
+  return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null;
+};
+
+/** The sighted helper's page: watches the user's camera, talks to them and taps the picture to point. */
+export const HelperView: React.FC<HelperViewProps> = ({ initialRoom }) => {
+  const [t] = useState(() => createTranslator(navigator.language));
+  const [room, setRoom] = useState(initialRoom);
+  const [name, setName] = useState('');
+  const [invalid, setInvalid] = useState(false);
+  const [state, setState] = useState<HelperCallState | null>(null);
+  const [ended, setEnded] = useState<HelperCallEnd | null>(null);
+  const [marker, setMarker] = useState<{ left: number, top: number, id: number } | null>(null);
+
+  const joinRef = useRef<HelperJoin | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => () => joinRef.current?.end(), []);
+
+  useEffect(() => {
+    if (!marker) return;
+    const timer = setTimeout(() => setMarker(null), 600);
+    return () => clearTimeout(timer);
+  }, [marker]);
+
+  const join = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = parseRoom(room);
+    const transport = getSignalingTransport();
+    setInvalid(!code || !name.trim());
+    if (!code || !name.trim() || !transport) return;
+    joinRef.current?.end();
+    setEnded(null);
+    joinRef.current = joinHelperCall({
+      transport,
+      room: code,
+      name,
+      onState: setState,
+      onStream: (stream) => { if (videoRef.current) videoRef.current.srcObject = stream; },
+      onEnd: (reason) => { joinRef.current = null; setState(null); setEnded(reason); }
+    });
+  };
+
+  const hangUp = () => {
+    joinRef.current?.end();
+    joinRef.current = null;
+    setState(null);
+    setEnded('hangup');
+  };
+
+  const point = (e: React.MouseEvent<HTMLVideoElement>) => {
+    const cue = state === 'connected' && framePoint(e.currentTarget, e.clientX, e.clientY);
+    if (!cue) return;
+    joinRef.current?.sendCue(cue);
+    const rect = e.currentTarget.getBoundingClientRect();
+    setMarker({ left: e.clientX - rect.left, top: e.clientY - rect.top, id: Date.now() });
+  };
+
+  const status = !getSignalingTransport() ? t('helper_view_no_relay')
+    : state ? t(`helper_view_${state}`)
+    : invalid ? t('helper_view_invalid')
+    : ended ? t(`helper_view_ended_${ended}`)
+    : t('helper_view_intro');
+
+  return (
+    <div className="min-h-[100svh] w-full bg-[#F8F9FA] flex flex-col">
+      <header className="p-6 flex items-center gap-4">
+        <div className="p-3 bg-white rounded-2xl google-shadow"><Eye className="text-[#F29900]" /></div>
+        <h1 className="text-2xl font-bold text-[#1F1F1F]">{t('helper_view_title')}</h1>
+      </header>
+
+      <div className="relative flex-1 mx-6 rounded-3xl overflow-hidden bg-black min-h-[50svh]">
+        <video ref={videoRef} autoPlay playsInline onClick={point} aria-label={t('helper_view_tap_hint')} className={`w-full h-full object-contain ${state === 'connected' ? 'cursor-crosshair' : 'opacity-0'}`} />
+        {marker && <span key={marker.id} aria-hidden="true" className="absolute w-12 h-12 -ml-6 -mt-6 rounded-full border-4 border-[#F29900] animate-ping pointer-events-none" style={{ left: marker.left, top: marker.top }} />}
+        {state !== 'connected' && <p className="absolute inset-0 flex items-center justify-center p-8 text-center text-white font-bold">{status}</p>}
+      </div>
+
+      <footer className="p-6 pb-10 space-y-4">
+        <p role="status" className="text-[11px] font-bold text-gray-500 uppercase tracking-[0.2em] text-center">
+          {state === 'connected' ? t('helper_view_tap_hint') : status}
+        </p>
+        {state ? (
+          <button onClick={hangUp} className="w-full bg-[#EA4335] text-white py-4 rounded-2xl flex items-center justify-center gap-2 font-bold active:scale-95 transition-all">
+            <PhoneOff size={20} /> {t('helper_view_hang_up')}
+          </button>
+        ) : (
+          <form onSubmit={join} className="grid grid-cols-[1fr_auto] gap-2">
+            <input value={name} onChange={e => setName(e.target.value)} autoComplete="name" aria-label={t('helper_view_name')} placeholder={t('helper_view_name')} className="col-span-2 bg-white google-shadow rounded-2xl px-4 py-3 text-lg min-w-0" />
+            <input value={room} onChange={e => setRoom(e.target.value)} autoComplete="off" aria-label={t('helper_view_code')} placeholder={t('helper_view_code')} className="bg-white google-shadow rounded-2xl px-4 py-3 min-w-0" />
+            <button type="submit" className="bg-[#34A853] text-white px-6 rounded-2xl flex items-center gap-2 font-bold active:scale-95 transition-all">
+              <PhoneCall size={20} /> {t('helper_view_join')}
+            </button>
+          </form>
+        )}
+      </footer>
+    </div>
+  );
+};
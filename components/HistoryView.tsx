@@ -1,2 +1,243 @@
 
-export const HistoryView = () => null;
+import React, { useState, useRef, useEffect } from 'react';
+import { AppLanguage, VisionLog, HistoryRetention } from '../types';
+import { History, Trash2, FileJson, FileText, X, MessageSquareText, Undo2 } from 'lucide-react';
+import { playHaptic } from '../utils/haptics';
+import { analyzeGesture } from '../utils/gestures';
+import { Translator } from '../i18n';
+import { MODES } from '../services/modes';
+import { getLogs, deleteLog, getRetention, setRetention, exportLogsAsJson, exportLogsAsText, downloadExport } from '../services/historyStore';
+
+interface HistoryViewProps {
+  language: AppLanguage | null;
+  t: Translator;
+  speakText: (text: string, callback?: () => void) => void;
+  onClose: () => void;
+  onOpenTranscripts: () => void;
+}
+
+const RETENTION_OPTIONS = [50, 200, 1000];
+/** A held-down delete can be undone with a double tap for this long before it is written. */
+const UNDO_MS = 5000;
+
+interface PendingDelete {
+  log: VisionLog;
+  index: number;
+  timer: number;
+}
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ language, t, speakText, onClose, onOpenTranscripts }) => {
+  const [logs, setLogs] = useState<VisionLog[]>([]);
+  const [index, setIndex] = useState(0);
+  const [retention, setRetentionState] = useState<HistoryRetention>(getRetention());
+  const [canUndo, setCanUndo] = useState(false);
+
+  const pointsRef = useRef<{x: number, y: number}[]>([]);
+  const holdTimerRef = useRef<number | null>(null);
+  const tapCountRef = useRef<number>(0);
+  const tapTimerRef = useRef<number | null>(null);
+  const itemRefs = useRef<(HTMLLIElement | null)[]>([]);
+  const pendingDeleteRef = useRef<PendingDelete | null>(null);
+
+  const formatTime = (log: VisionLog) => new Date(log.timestamp).toLocaleString(language?.code, { dateStyle: 'medium', timeStyle: 'short' });
+
+  const announce = (list: VisionLog[], i: number) => {
+    const log = list[i];
+    if (!log) { speakText(t('history_empty')); return; }
+    speakText(`${i + 1} / ${list.length}. ${formatTime(log)}. ${log.text}`);
+  };
+
+  useEffect(() => {
+    getLogs().then(list => {
+      setLogs(list);
+      if (list.length === 0) speakText(t('history_empty'));
+      else speakText(`${t('history_open')} ${list.length}`, () => announce(list, 0));
+    }).catch(() => speakText(t('history_unavailable')));
+    // Leaving the screen ends the undo window.
+    return () => { commitDelete(); };
+  }, []);
+
+  useEffect(() => { itemRefs.current[index]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' }); }, [index]);
+
+  const move = (step: number) => {
+    if (logs.length === 0) { playHaptic('heavy'); return; }
+    const next = index + step;
+    if (next < 0 || next >= logs.length) { playHaptic('heavy'); return; }
+    setIndex(next);
+    playHaptic('light');
+    announce(logs, next);
+  };
+
+  const failed = () => {
+    playHaptic('heavy');
+    speakText(t('history_save_failed'));
+  };
+
+  /** Writes the delete waiting out its undo window; a failure puts the entry back. */
+  const commitDelete = () => {
+    const pending = pendingDeleteRef.current;
+    if (!pending) return;
+    window.clearTimeout(pending.timer);
+    pendingDeleteRef.current = null;
+    setCanUndo(false);
+    deleteLog(pending.log.id).catch(() => {
+      getLogs().then(setLogs).catch(() => {});
+      failed();
+    });
+  };
+
+  /** Hides the entry at once but only deletes it once the undo window has passed. */
+  const removeCurrent = () => {
+    const log = logs[index];
+    if (!log) return;
+    commitDelete();
+    pendingDeleteRef.current = { log, index, timer: window.setTimeout(commitDelete, UNDO_MS) };
+    setCanUndo(true);
+    const remaining = logs.filter(l => l.id !== log.id);
+    const nextIndex = Math.min(index, Math.max(remaining.length - 1, 0));
+    setLogs(remaining); setIndex(nextIndex);
+    playHaptic('double');
+    speakText(t('history_deleted'), () => announce(remaining, nextIndex));
+  };
+
+  const undoDelete = () => {
+    const pending = pendingDeleteRef.current;
+    if (!pending) return false;
+    window.clearTimeout(pending.timer);
+    pendingDeleteRef.current = null;
+    setCanUndo(false);
+    const restored = [...logs.slice(0, pending.index), pending.log, ...logs.slice(pending.index)];
+    setLogs(restored); setIndex(pending.index);
+    playHaptic('success');
+    speakText(t('history_restored'), () => announce(restored, pending.index));
+    return true;
+  };
+
+  const changeRetention = async (maxEntries: number) => {
+    const previous = retention;
+    const updated = { ...retention, maxEntries };
+    commitDelete();
+    setRetentionState(updated);
+    try {
+      await setRetention(updated);
+      setLogs(await getLogs());
+      setIndex(0);
+    } catch (e) {
+      setRetentionState(previous);
+      failed();
+    }
+  };
+
+  const exportAs = (format: 'json' | 'text') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'json') downloadExport(exportLogsAsJson(logs), `vision-voice-history-${stamp}.json`, 'application/json');
+    else downloadExport(exportLogsAsText(logs), `vision-voice-history-${stamp}.txt`, 'text/plain');
+    playHaptic('success');
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    pointsRef.current = [{x: e.clientX, y: e.clientY}];
+    holdTimerRef.current = window.setTimeout(() => {
+      holdTimerRef.current = null;
+      pointsRef.current = [];
+      removeCurrent();
+    }, 800);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (pointsRef.current.length === 0) return;
+    pointsRef.current.push({x: e.clientX, y: e.clientY});
+    if (Math.hypot(e.clientX - pointsRef.current[0].x, e.clientY - pointsRef.current[0].y) > 30) {
+      if (holdTimerRef.current) { window.clearTimeout(holdTimerRef.current); holdTimerRef.current = null; }
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (holdTimerRef.current) { window.clearTimeout(holdTimerRef.current); holdTimerRef.current = null; }
+    if (pointsRef.current.length === 0) return;
+    const gesture = analyzeGesture(pointsRef.current);
+    pointsRef.current = [];
+    if (gesture === 'SWIPE_LEFT') move(1);
+    else if (gesture === 'SWIPE_RIGHT') move(-1);
+    else if (gesture === 'SWIPE_UP') { playHaptic('heavy'); onClose(); }
+    else if (gesture === 'SWIPE_DOWN') { playHaptic('medium'); onOpenTranscripts(); }
+    else if (!gesture) {
+      tapCountRef.current++;
+      if (tapTimerRef.current) clearTimeout(tapTimerRef.current);
+      tapTimerRef.current = window.setTimeout(() => {
+        if (tapCountRef.current === 2 && !undoDelete()) { playHaptic('medium'); announce(logs, index); }
+        tapCountRef.current = 0;
+      }, 300);
+    }
+  };
+
+  return (
+    <div onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} className="h-[100svh] w-full bg-[#F8F9FA] flex flex-col overflow-hidden touch-none select-none">
+      <header className="p-6 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-white rounded-2xl google-shadow"><History className="text-[#4285F4]" /></div>
+          <h2 className="text-2xl font-bold text-[#1F1F1F]">{t('history_title')}</h2>
+        </div>
+        <div className="flex items-center gap-3" onPointerDown={e => e.stopPropagation()} onPointerUp={e => e.stopPropagation()}>
+          <button onClick={onOpenTranscripts} aria-label={t('transcripts_title')} className="bg-white google-shadow p-4 rounded-full text-[#4285F4] active:scale-95 transition-all">
+            <MessageSquareText size={24} />
+          </button>
+          <button onClick={onClose} aria-label={t('close')} className="bg-white google-shadow p-4 rounded-full text-[#EA4335] active:scale-95 transition-all">
+            <X size={24} />
+          </button>
+        </div>
+      </header>
+
+      <ul className="flex-1 overflow-y-auto px-6 space-y-4 pb-6">
+        {logs.length === 0 && <li className="text-center text-gray-400 text-xl font-bold pt-24">{t('history_empty')}</li>}
+        {logs.map((log, i) => {
+          const ModeIcon = MODES[log.mode].icon;
+          return (
+            <li key={log.id} ref={el => { itemRefs.current[i] = el; }} className={`bg-white google-shadow p-5 rounded-3xl flex gap-4 transition-all ${i === index ? 'border-4 border-[#4285F4]' : 'border-4 border-transparent'}`}>
+              {log.thumbnail
+                ? <img src={log.thumbnail} alt="" className="w-20 h-16 rounded-xl object-cover flex-shrink-0" />
+                : <div className="w-20 h-16 rounded-xl bg-[#F1F3F4] flex items-center justify-center flex-shrink-0"><ModeIcon size={24} className="text-gray-400" /></div>}
+              <div className="min-w-0">
+                <div className="text-[11px] font-bold text-gray-400 uppercase tracking-widest mb-1">{formatTime(log)}</div>
+                <p className="text-lg text-[#1F1F1F] leading-snug line-clamp-3">{log.text}</p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <footer className="p-6 pb-10 space-y-4 bg-white google-shadow rounded-t-[2rem]" onPointerDown={e => e.stopPropagation()} onPointerUp={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-[11px] font-bold text-gray-400 uppercase tracking-widest">{t('history_keep')}</span>
+          <div className="flex gap-2">
+            {RETENTION_OPTIONS.map(n => (
+              <button key={n} onClick={() => changeRetention(n)} className={`px-4 py-2 rounded-full text-sm font-bold ${retention.maxEntries === n ? 'bg-[#4285F4] text-white' : 'bg-[#F1F3F4] text-gray-500'}`}>{n}</button>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+          <button onClick={() => exportAs('json')} disabled={logs.length === 0} className="bg-[#F1F3F4] py-3 rounded-2xl flex flex-col items-center gap-1 disabled:opacity-40">
+            <FileJson size={18} className="text-[#4285F4]" />
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">JSON</span>
+          </button>
+          <button onClick={() => exportAs('text')} disabled={logs.length === 0} className="bg-[#F1F3F4] py-3 rounded-2xl flex flex-col items-center gap-1 disabled:opacity-40">
+            <FileText size={18} className="text-[#34A853]" />
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{t('history_text')}</span>
+          </button>
+          {canUndo ? (
+            <button onClick={undoDelete} className="bg-[#F1F3F4] py-3 rounded-2xl flex flex-col items-center gap-1">
+              <Undo2 size={18} className="text-[#4285F4]" />
+              <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{t('history_undo')}</span>
+            </button>
+          ) : (
+            <button onClick={removeCurrent} disabled={logs.length === 0} className="bg-[#F1F3F4] py-3 rounded-2xl flex flex-col items-center gap-1 disabled:opacity-40">
+              <Trash2 size={18} className="text-[#EA4335]" />
+              <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{t('history_delete')}</span>
+            </button>
+          )}
+        </div>
+        <p className="text-[11px] font-bold text-gray-400 uppercase tracking-[0.2em] text-center">{t('history_hint')}</p>
+      </footer>
+    </div>
+  );
+};
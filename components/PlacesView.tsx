@@ -0,0 +1,186 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { AppLanguage, Coordinates, SavedPlace } from '../types';
+import { Bookmark, MapPinPlus, StickyNote, Trash2, X } from 'lucide-react';
+import { playHaptic } from '../utils/haptics';
+import { playListeningCue } from '../utils/earcons';
+import { getCurrentCoordinates } from '../utils/geo';
+import { createGestureRecognizer, RecognizedGesture } from '../utils/gestures';
+import { Translator } from '../i18n';
+import { listenOnce, isSpeechInputSupported } from '../services/speechInput';
+import { getPlaces, subscribePlaces, savePlace, updatePlaceNotes, deletePlace, placeDirections, describeDirections, formatPlaceDistance } from '../services/places';
+
+interface PlacesViewProps {
+  language: AppLanguage | null;
+  t: Translator;
+  speakText: (text: string, callback?: () => void) => void;
+  onClose: () => void;
+}
+
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+/** Saved places with live distance and direction; also where a place is saved, annotated or removed. */
+export const PlacesView: React.FC<PlacesViewProps> = ({ language, t, speakText, onClose }) => {
+  const [places, setPlaces] = useState<SavedPlace[]>(getPlaces);
+  const [index, setIndex] = useState(0);
+  const [here, setHere] = useState<Coordinates | null>(null);
+  const [isListening, setIsListening] = useState(false);
+
+  const hereRef = useRef<Coordinates | null>(null);
+  const itemRefs = useRef<(HTMLLIElement | null)[]>([]);
+  const gestureHandlerRef = useRef<(gesture: RecognizedGesture) => void>(() => {});
+  const [recognizer] = useState(() => createGestureRecognizer({
+    onGesture: (gesture) => gestureHandlerRef.current(gesture),
+    onUnrecognized: () => playHaptic('heavy')
+  }));
+
+  const announce = (list: SavedPlace[], i: number) => {
+    const place = list[i];
+    if (!place) { speakText(t('places_empty')); return; }
+    const position = `${i + 1} / ${list.length}.`;
+    speakText(hereRef.current ? `${position} ${describeDirections(placeDirections(place, hereRef.current), t)}` : `${position} ${place.name}.`);
+  };
+
+  useEffect(() => subscribePlaces(setPlaces), []);
+
+  useEffect(() => {
+    const list = getPlaces();
+    if (list.length === 0) speakText(t('places_empty'));
+    else speakText(t('places_open', { count: list.length }), () => announce(list, 0));
+    const watch = navigator.geolocation.watchPosition(
+      pos => {
+        hereRef.current = { latitude: pos.coords.latitude, longitude: pos.coords.longitude };
+        setHere(hereRef.current);
+      },
+      () => {},
+      { enableHighAccuracy: true }
+    );
+    return () => navigator.geolocation.clearWatch(watch);
+  }, []);
+
+  useEffect(() => { itemRefs.current[index]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' }); }, [index]);
+
+  const move = (step: number) => {
+    const next = index + step;
+    if (next < 0 || next >= places.length) { playHaptic('heavy'); return; }
+    setIndex(next);
+    playHaptic('light');
+    announce(places, next);
+  };
+
+  /** Reads the place with a fresh fix rather than the last watched one. */
+  const readDirections = async (place: SavedPlace | undefined) => {
+    if (!place) { speakText(t('places_empty')); return; }
+    playHaptic('light');
+    try {
+      const position = await getCurrentCoordinates();
+      hereRef.current = position;
+      setHere(position);
+      speakText(`${describeDirections(placeDirections(place, position), t)}${place.notes ? ` ${place.notes}` : ''}`);
+    } catch (e) {
+      playHaptic('heavy');
+      speakText(t('place_location_unavailable'));
+    }
+  };
+
+  const dictate = async (prompt: string) => {
+    if (isListening) return '';
+    if (!isSpeechInputSupported()) { playHaptic('heavy'); speakText(t('speech_input_unsupported')); return ''; }
+    setIsListening(true);
+    await new Promise<void>(resolve => speakText(prompt, resolve));
+    playListeningCue('start');
+    const text = await listenOnce(language?.code || 'en-US').catch(() => '');
+    playListeningCue('stop');
+    setIsListening(false);
+    return text;
+  };
+
+  const saveHere = async () => {
+    const name = await dictate(t('place_ask_name'));
+    if (!name) { playHaptic('heavy'); speakText(t('place_no_name')); return; }
+    try {
+      const saved = savePlace(name, await getCurrentCoordinates());
+      setIndex(getPlaces().findIndex(place => place.id === saved.id));
+      playHaptic('success');
+      speakText(t('place_saved', { name: saved.name }));
+    } catch (e) {
+      playHaptic('heavy');
+      speakText(t('place_location_unavailable'));
+    }
+  };
+
+  const addNote = async (place: SavedPlace | undefined) => {
+    if (!place) return;
+    const notes = await dictate(t('place_ask_note', { name: place.name }));
+    if (!notes) { playHaptic('heavy'); speakText(t('place_no_note')); return; }
+    updatePlaceNotes(place.id, notes);
+    playHaptic('success');
+    speakText(t('place_note_saved'));
+  };
+
+  const remove = (place: SavedPlace | undefined) => {
+    if (!place) return;
+    deletePlace(place.id);
+    const remaining = getPlaces();
+    const nextIndex = Math.min(index, Math.max(remaining.length - 1, 0));
+    setIndex(nextIndex);
+    playHaptic('double');
+    speakText(t('place_deleted', { name: place.name }), () => announce(remaining, nextIndex));
+  };
+
+  gestureHandlerRef.current = (gesture) => {
+    if (isListening) return;
+    const place = places[index];
+    if (gesture.id === 'SWIPE_LEFT') move(1);
+    else if (gesture.id === 'SWIPE_RIGHT') move(-1);
+    else if (gesture.id === 'SWIPE_UP') { playHaptic('heavy'); onClose(); }
+    else if (gesture.id === 'SWIPE_DOWN') saveHere();
+    else if (gesture.id === 'TAP_1') readDirections(place);
+    else if (gesture.id === 'TAP_2') addNote(place);
+    else if (gesture.id === 'TAP_3') remove(place);
+    else playHaptic('heavy');
+  };
+
+  return (
+    <div onPointerDown={recognizer.down} onPointerMove={recognizer.move} onPointerUp={recognizer.up} onPointerCancel={recognizer.up} className="h-[100svh] w-full bg-[#F8F9FA] flex flex-col overflow-hidden touch-none select-none">
+      <header className="p-6 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-white rounded-2xl google-shadow"><Bookmark className="text-[#4285F4]" /></div>
+          <h2 className="text-2xl font-bold text-[#1F1F1F]">{t('places_title')}</h2>
+        </div>
+        <button onPointerDown={stop} onPointerUp={stop} onClick={onClose} aria-label={t('close')} className="bg-white google-shadow p-4 rounded-full text-[#EA4335] active:scale-95 transition-all">
+          <X size={24} />
+        </button>
+      </header>
+
+      <ul className="flex-1 overflow-y-auto px-6 space-y-3 pb-6">
+        {places.length === 0 && <li className="text-center text-gray-400 font-bold pt-12">{t('places_empty')}</li>}
+        {places.map((place, i) => (
+          <li key={place.id} ref={el => { itemRefs.current[i] = el; }} className={`bg-white google-shadow p-4 rounded-3xl flex items-center gap-3 transition-all ${i === index ? 'border-4 border-[#4285F4]' : 'border-4 border-transparent'}`}>
+            <button onPointerDown={stop} onPointerUp={stop} onClick={() => { setIndex(i); readDirections(place); }} className="flex-1 text-left min-w-0">
+              <span className="block text-lg font-bold text-[#1F1F1F] truncate">{place.name}</span>
+              <span className="block text-[11px] font-bold text-gray-400 uppercase tracking-widest">
+                {here ? formatPlaceDistance(placeDirections(place, here).meters, t) : `${place.coordinates.latitude.toFixed(5)}, ${place.coordinates.longitude.toFixed(5)}`}
+              </span>
+              {place.notes && <span className="block text-sm text-gray-500 truncate">{place.notes}</span>}
+            </button>
+            <button onPointerDown={stop} onPointerUp={stop} onClick={() => { setIndex(i); addNote(place); }} aria-label={`${place.name}: ${t('place_note')}`} className="bg-[#F1F3F4] p-3 rounded-full active:scale-95 transition-all">
+              <StickyNote size={18} className="text-[#4285F4]" />
+            </button>
+            <button onPointerDown={stop} onPointerUp={stop} onClick={() => { setIndex(i); remove(place); }} aria-label={`${place.name}: ${t('history_delete')}`} className="bg-[#F1F3F4] p-3 rounded-full active:scale-95 transition-all">
+              <Trash2 size={18} className="text-[#EA4335]" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <footer className="p-6 pb-10 space-y-4 bg-white google-shadow rounded-t-[2rem]" onPointerDown={stop} onPointerUp={stop}>
+        <button onClick={saveHere} disabled={isListening} className="w-full bg-[#4285F4] text-white py-4 rounded-2xl flex items-center justify-center gap-2 active:scale-95 transition-all disabled:opacity-50">
+          <MapPinPlus size={20} />
+          <span className="font-bold">{t('place_save_here')}</span>
+        </button>
+        <p className="text-[11px] font-bold text-gray-400 uppercase tracking-[0.2em] text-center">{t('places_hint')}</p>
+      </footer>
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { AppLanguage } from '../types';
+import { BookOpen, ChevronLeft, ChevronRight, Repeat, ScanText, X } from 'lucide-react';
+import { playHaptic } from '../utils/haptics';
+import { analyzeGesture } from '../utils/gestures';
+import { Translator } from '../i18n';
+import { getVisionProvider, classifyLiveError } from '../services/visionProvider';
+import { reportNetworkFailure } from '../services/connectivity';
+import { READING_PROMPT, parseReadingResult, captureStill, Framing } from '../services/documentReader';
+
+interface ReadingViewProps {
+  language: AppLanguage | null;
+  t: Translator;
+  speakText: (text: string, callback?: () => void) => void;
+  onClose: () => void;
+}
+
+export const ReadingView: React.FC<ReadingViewProps> = ({ t, speakText, onClose }) => {
+  const [paragraphs, setParagraphs] = useState<string[]>([]);
+  const [index, setIndex] = useState(0);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [framing, setFraming] = useState<Framing | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const paragraphsRef = useRef<string[]>([]);
+  const indexRef = useRef(0);
+  const isPausedRef = useRef(false);
+  const isCapturingRef = useRef(false);
+  /** Bumped whenever reading is redirected, so the end callback of a superseded utterance is ignored. */
+  const readTokenRef = useRef(0);
+
+  const pointsRef = useRef<{x: number, y: number}[]>([]);
+  const tapCountRef = useRef<number>(0);
+  const tapTimerRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1440 } } })
+      .then(s => {
+        if (cancelled) { s.getTracks().forEach(track => track.stop()); return; }
+        stream = s;
+        if (videoRef.current) videoRef.current.srcObject = s;
+        speakText(t('reading_intro'));
+      })
+      .catch(() => { playHaptic('heavy'); speakText(t('camera_denied')); });
+    return () => {
+      cancelled = true;
+      readTokenRef.current++;
+      window.speechSynthesis.cancel();
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  /** Reads from paragraph `i` onwards; `withPosition` prefixes "paragraph i of n" after a manual jump. */
+  const readFrom = (i: number, withPosition = false) => {
+    const list = paragraphsRef.current;
+    const token = ++readTokenRef.current;
+    indexRef.current = i; setIndex(i);
+    isPausedRef.current = false; setIsPaused(false);
+    if (i >= list.length) { speakText(t('reading_end')); return; }
+    const text = withPosition ? `${t('reading_position', { index: i + 1, count: list.length })} ${list[i]}` : list[i];
+    speakText(text, () => {
+      if (token !== readTokenRef.current || isPausedRef.current) return;
+      readFrom(i + 1);
+    });
+  };
+
+  const capture = async () => {
+    if (isCapturingRef.current || !videoRef.current || !canvasRef.current || videoRef.current.readyState !== 4) return;
+    isCapturingRef.current = true; setIsCapturing(true);
+    readTokenRef.current++;
+    playHaptic('success');
+    speakText(t('reading_capturing'));
+    const base64 = captureStill(videoRef.current, canvasRef.current);
+    try {
+      if (!base64) throw new Error('Capture failed');
+      const result = parseReadingResult(await getVisionProvider().readText(base64, READING_PROMPT));
+      setFraming(result.framing);
+      paragraphsRef.current = result.paragraphs;
+      setParagraphs(result.paragraphs);
+      if (result.paragraphs.length === 0) {
+        playHaptic('warning');
+        speakText(t(`reading_framing_${result.framing}`));
+        return;
+      }
+      const intro = t('reading_found', { count: result.paragraphs.length });
+      if (result.framing !== 'ok') playHaptic('warning');
+      speakText(result.framing === 'ok' ? intro : `${t(`reading_framing_${result.framing}`)} ${intro}`, () => readFrom(0));
+    } catch (e) {
+      playHaptic('heavy');
+      const offline = classifyLiveError(e) === 'network';
+      if (offline) reportNetworkFailure();
+      speakText(t(offline ? 'offline_unavailable' : 'analysis_failed'));
+    } finally {
+      isCapturingRef.current = false; setIsCapturing(false);
+    }
+  };
+
+  const step = (delta: number) => {
+    const next = indexRef.current + delta;
+    if (paragraphsRef.current.length === 0 || next < 0 || next >= paragraphsRef.current.length) { playHaptic('heavy'); return; }
+    playHaptic('light');
+    readFrom(next, true);
+  };
+
+  const repeat = () => {
+    if (paragraphsRef.current.length === 0) { playHaptic('heavy'); return; }
+    playHaptic('medium');
+    readFrom(Math.min(indexRef.current, paragraphsRef.current.length - 1));
+  };
+
+  const togglePause = () => {
+    if (paragraphsRef.current.length === 0) return;
+    if (isPausedRef.current) { playHaptic('light'); readFrom(indexRef.current); return; }
+    readTokenRef.current++;
+    isPausedRef.current = true; setIsPaused(true);
+    window.speechSynthesis.cancel();
+    playHaptic('light');
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    pointsRef.current = [{x: e.clientX, y: e.clientY}];
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (pointsRef.current.length === 0) return;
+    pointsRef.current.push({x: e.clientX, y: e.clientY});
+  };
+
+  const handlePointerUp = () => {
+    if (pointsRef.current.length === 0) return;
+    const gesture = analyzeGesture(pointsRef.current);
+    pointsRef.current = [];
+    if (gesture === 'SWIPE_LEFT') step(1);
+    else if (gesture === 'SWIPE_RIGHT') step(-1);
+    else if (gesture === 'SWIPE_DOWN') repeat();
+    else if (gesture === 'SWIPE_UP') { playHaptic('heavy'); onClose(); }
+    else if (!gesture) {
+      tapCountRef.current++;
+      if (tapTimerRef.current) clearTimeout(tapTimerRef.current);
+      tapTimerRef.current = window.setTimeout(() => {
+        if (tapCountRef.current === 1) togglePause();
+        else if (tapCountRef.current === 2) capture();
+        tapCountRef.current = 0;
+      }, 300);
+    }
+  };
+
+  const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+  return (
+    <div onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} className="h-[100svh] w-full bg-black flex flex-col overflow-hidden relative touch-none select-none">
+      <video ref={videoRef} autoPlay playsInline muted aria-hidden="true" className="absolute inset-0 w-full h-full object-cover opacity-60" />
+
+      <header className="p-6 flex items-center justify-between z-10 relative">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-white rounded-2xl google-shadow"><BookOpen className="text-[#4285F4]" /></div>
+          <h2 className="text-2xl font-bold text-white">{t('reading_title')}</h2>
+        </div>
+        <button onPointerDown={stop} onPointerUp={stop} onClick={onClose} aria-label={t('close')} className="bg-white google-shadow p-4 rounded-full text-[#EA4335] active:scale-95 transition-all">
+          <X size={24} />
+        </button>
+      </header>
+
+      <main className="flex-1 z-10 relative px-6 flex flex-col justify-end pb-6">
+        {isCapturing && <p className="text-center text-white text-3xl font-bold animate-pulse">{t('analyzing')}</p>}
+        {!isCapturing && paragraphs.length > 0 && (
+          <div className="bg-black/85 rounded-3xl p-6 max-h-[50svh] overflow-y-auto">
+            <div className="text-[11px] font-bold text-gray-400 uppercase tracking-widest mb-3">
+              {t('reading_position', { index: Math.min(index + 1, paragraphs.length), count: paragraphs.length })}{isPaused ? ` · ${t('reading_paused')}` : ''}
+            </div>
+            <p className="text-white text-2xl leading-snug font-bold">{paragraphs[Math.min(index, paragraphs.length - 1)]}</p>
+          </div>
+        )}
+        {!isCapturing && framing && framing !== 'ok' && (
+          <p className="mt-4 text-center text-[#FDD663] text-lg font-bold">{t(`reading_framing_${framing}`)}</p>
+        )}
+      </main>
+
+      <footer className="p-6 pb-10 space-y-4 bg-white google-shadow rounded-t-[2rem] z-10 relative" onPointerDown={stop} onPointerUp={stop}>
+        <div className="grid grid-cols-4 gap-3">
+          <button onClick={() => step(-1)} disabled={paragraphs.length === 0} className="bg-[#F1F3F4] py-3 rounded-2xl flex flex-col items-center gap-1 disabled:opacity-40">
+            <ChevronLeft size={18} className="text-[#4285F4]" />
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{t('reading_previous')}</span>
+          </button>
+          <button onClick={repeat} disabled={paragraphs.length === 0} className="bg-[#F1F3F4] py-3 rounded-2xl flex flex-col items-center gap-1 disabled:opacity-40">
+            <Repeat size={18} className="text-[#FBBC04]" />
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{t('reading_repeat')}</span>
+          </button>
+          <button onClick={() => step(1)} disabled={paragraphs.length === 0} className="bg-[#F1F3F4] py-3 rounded-2xl flex flex-col items-center gap-1 disabled:opacity-40">
+            <ChevronRight size={18} className="text-[#4285F4]" />
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{t('reading_next')}</span>
+          </button>
+          <button onClick={capture} disabled={isCapturing} className="bg-[#F1F3F4] py-3 rounded-2xl flex flex-col items-center gap-1 disabled:opacity-40">
+            <ScanText size={18} className="text-[#34A853]" />
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{t('reading_capture')}</span>
+          </button>
+        </div>
+        <p className="text-[11px] font-bold text-gray-400 uppercase tracking-[0.2em] text-center">{t('reading_hint')}</p>
+      </footer>
+
+      <canvas ref={canvasRef} className="hidden" />
+    </div>
+  );
+};
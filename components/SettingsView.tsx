@@ -0,0 +1,206 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { AppLanguage } from '../types';
+import { Settings as SettingsIcon, Minus, Plus, Mic, RotateCcw, GraduationCap, Hand, Siren, X } from 'lucide-react';
+import { playHaptic } from '../utils/haptics';
+import { analyzeGesture } from '../utils/gestures';
+import { playListeningCue } from '../utils/earcons';
+import { Translator } from '../i18n';
+import { listenOnce, isSpeechInputSupported } from '../services/speechInput';
+import { Settings, SettingField, SETTING_FIELDS, getSettings, updateSettings, subscribeSettings, resetSetting, stepSetting, snapSetting } from '../services/settings';
+
+interface SettingsViewProps {
+  language: AppLanguage | null;
+  t: Translator;
+  speakText: (text: string, callback?: () => void) => void;
+  onClose: () => void;
+  onOpenCues: () => void;
+  onOpenGestures: () => void;
+  onOpenSosContacts: () => void;
+}
+
+/** Lower-cased and padded with spaces so phrases can be matched as whole words. */
+const normalize = (text: string) => ` ${text.toLowerCase().replace(/[,!?]|\.(\s|$)/g, ' ').replace(/\s+/g, ' ').trim()} `;
+
+/** Every setting on one list: swipe between them, tap to change, or hold and say the new value. */
+export const SettingsView: React.FC<SettingsViewProps> = ({ language, t, speakText, onClose, onOpenCues, onOpenGestures, onOpenSosContacts }) => {
+  const [settings, setSettings] = useState<Settings>(() => getSettings());
+  const [index, setIndex] = useState(0);
+  const [isListening, setIsListening] = useState(false);
+
+  const pointsRef = useRef<{x: number, y: number}[]>([]);
+  const holdTimerRef = useRef<number | null>(null);
+  const tapCountRef = useRef<number>(0);
+  const tapTimerRef = useRef<number | null>(null);
+  const itemRefs = useRef<(HTMLLIElement | null)[]>([]);
+
+  const valueLabel = (field: SettingField, value: unknown) => {
+    if (field.kind === 'toggle') return t(value ? 'setting_on' : 'setting_off');
+    if (field.kind === 'number') return t(field.unitKey, { value: value as number });
+    const key = field.optionKey?.(value as string | number);
+    return key ? t(key) : String(value);
+  };
+
+  const describe = (field: SettingField, from = settings) => `${t(field.labelKey)}: ${valueLabel(field, from[field.key])}`;
+
+  useEffect(() => subscribeSettings(setSettings), []);
+
+  useEffect(() => {
+    speakText(t('settings_open'), () => speakText(describe(SETTING_FIELDS[0])));
+  }, []);
+
+  useEffect(() => { itemRefs.current[index]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' }); }, [index]);
+
+  const move = (step: number) => {
+    const next = index + step;
+    if (next < 0 || next >= SETTING_FIELDS.length) { playHaptic('heavy'); return; }
+    setIndex(next);
+    playHaptic('light');
+    speakText(describe(SETTING_FIELDS[next]));
+  };
+
+  const change = (field: SettingField, step: 1 | -1) => {
+    const next = updateSettings({ [field.key]: stepSetting(field, settings[field.key], step) });
+    playHaptic('light');
+    speakText(valueLabel(field, next[field.key]));
+  };
+
+  const reset = (field: SettingField) => {
+    const next = resetSetting(field.key);
+    playHaptic('double');
+    speakText(`${t('setting_reset')} ${describe(field, next)}`);
+  };
+
+  /** Matches e.g. "verbosity brief", "1.5" or "on"; a named setting wins over the selected one. */
+  const applySpoken = (text: string) => {
+    const spoken = normalize(text);
+    const mentions = (phrase: string) => spoken.includes(normalize(phrase));
+    const named = SETTING_FIELDS.findIndex(field => mentions(t(field.labelKey)));
+    const field = SETTING_FIELDS[named >= 0 ? named : index];
+    let value: unknown = null;
+    if (field.kind === 'toggle') value = mentions(t('setting_on')) ? true : mentions(t('setting_off')) ? false : null;
+    else if (field.kind === 'number') {
+      const number = spoken.match(/\d+(?:[.,]\d+)?/)?.[0];
+      value = number ? snapSetting(field, Number(number.replace(',', '.'))) : null;
+    } else {
+      // Longest label first, so "Extra large" isn't matched as "Large".
+      value = [...field.options].sort((a, b) => valueLabel(field, b).length - valueLabel(field, a).length).find(option => mentions(valueLabel(field, option))) ?? null;
+    }
+    if (named >= 0) setIndex(named);
+    if (value === null) { playHaptic('heavy'); speakText(t('setting_not_understood', { heard: text })); return; }
+    const next = updateSettings({ [field.key]: value });
+    playHaptic('success');
+    speakText(describe(field, next));
+  };
+
+  const listen = async () => {
+    if (isListening) return;
+    if (!isSpeechInputSupported()) { playHaptic('heavy'); speakText(t('speech_input_unsupported')); return; }
+    setIsListening(true);
+    playListeningCue('start');
+    const text = await listenOnce(language?.code || 'en-US').catch(() => '');
+    playListeningCue('stop');
+    setIsListening(false);
+    if (text) applySpoken(text);
+    else { playHaptic('heavy'); speakText(t('setting_not_understood', { heard: '' })); }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    pointsRef.current = [{x: e.clientX, y: e.clientY}];
+    holdTimerRef.current = window.setTimeout(() => {
+      holdTimerRef.current = null;
+      pointsRef.current = [];
+      playHaptic('double');
+      listen();
+    }, 600);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (pointsRef.current.length === 0) return;
+    pointsRef.current.push({x: e.clientX, y: e.clientY});
+    if (Math.hypot(e.clientX - pointsRef.current[0].x, e.clientY - pointsRef.current[0].y) > 30) {
+      if (holdTimerRef.current) { window.clearTimeout(holdTimerRef.current); holdTimerRef.current = null; }
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (holdTimerRef.current) { window.clearTimeout(holdTimerRef.current); holdTimerRef.current = null; }
+    if (pointsRef.current.length === 0) return;
+    const gesture = analyzeGesture(pointsRef.current);
+    pointsRef.current = [];
+    const field = SETTING_FIELDS[index];
+    if (gesture === 'SWIPE_LEFT') move(1);
+    else if (gesture === 'SWIPE_RIGHT') move(-1);
+    else if (gesture === 'SWIPE_UP') { playHaptic('heavy'); onClose(); }
+    else if (gesture === 'SWIPE_DOWN') reset(field);
+    else if (!gesture) {
+      tapCountRef.current++;
+      if (tapTimerRef.current) clearTimeout(tapTimerRef.current);
+      tapTimerRef.current = window.setTimeout(() => {
+        if (tapCountRef.current === 1) speakText(describe(field));
+        else if (tapCountRef.current === 2) change(field, 1);
+        else if (tapCountRef.current === 3) change(field, -1);
+        tapCountRef.current = 0;
+      }, 300);
+    }
+  };
+
+  const current = SETTING_FIELDS[index];
+
+  return (
+    <div onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} className="h-[100svh] w-full bg-[#F8F9FA] flex flex-col overflow-hidden touch-none select-none">
+      <header className="p-6 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-white rounded-2xl google-shadow"><SettingsIcon className="text-[#4285F4]" /></div>
+          <h2 className="text-2xl font-bold text-[#1F1F1F]">{t('settings_title')}</h2>
+        </div>
+        <button onPointerDown={e => e.stopPropagation()} onPointerUp={e => e.stopPropagation()} onClick={onClose} aria-label={t('close')} className="bg-white google-shadow p-4 rounded-full text-[#EA4335] active:scale-95 transition-all">
+          <X size={24} />
+        </button>
+      </header>
+
+      <ul className="flex-1 overflow-y-auto px-6 space-y-3 pb-6">
+        {SETTING_FIELDS.map((field, i) => (
+          <li key={field.key} ref={el => { itemRefs.current[i] = el; }} className={`bg-white google-shadow p-4 rounded-3xl flex items-center gap-3 transition-all ${i === index ? 'border-4 border-[#4285F4]' : 'border-4 border-transparent'}`}>
+            <button onPointerDown={e => e.stopPropagation()} onPointerUp={e => e.stopPropagation()} onClick={() => { setIndex(i); speakText(describe(field)); }} className="flex-1 text-left min-w-0">
+              <span className="block text-[11px] font-bold text-gray-400 uppercase tracking-widest">{t(field.labelKey)}</span>
+              <span className="block text-lg font-bold text-[#1F1F1F] truncate">{valueLabel(field, settings[field.key])}</span>
+            </button>
+            <button onPointerDown={e => e.stopPropagation()} onPointerUp={e => e.stopPropagation()} onClick={() => { setIndex(i); change(field, -1); }} aria-label={`${t(field.labelKey)}: ${t('setting_previous')}`} className="bg-[#F1F3F4] p-3 rounded-full active:scale-95 transition-all">
+              <Minus size={18} className="text-gray-500" />
+            </button>
+            <button onPointerDown={e => e.stopPropagation()} onPointerUp={e => e.stopPropagation()} onClick={() => { setIndex(i); change(field, 1); }} aria-label={`${t(field.labelKey)}: ${t('setting_next')}`} className="bg-[#F1F3F4] p-3 rounded-full active:scale-95 transition-all">
+              <Plus size={18} className="text-gray-500" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <footer className="p-6 pb-10 space-y-4 bg-white google-shadow rounded-t-[2rem]" onPointerDown={e => e.stopPropagation()} onPointerUp={e => e.stopPropagation()}>
+        <div className="grid grid-cols-5 gap-3">
+          <button onClick={listen} disabled={isListening} className="bg-[#F1F3F4] py-3 rounded-2xl flex flex-col items-center gap-1 disabled:opacity-40">
+            <Mic size={18} className={isListening ? 'text-[#34A853] animate-pulse' : 'text-[#4285F4]'} />
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{t('setting_say')}</span>
+          </button>
+          <button onClick={() => reset(current)} className="bg-[#F1F3F4] py-3 rounded-2xl flex flex-col items-center gap-1">
+            <RotateCcw size={18} className="text-[#EA4335]" />
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{t('setting_reset')}</span>
+          </button>
+          <button onClick={onOpenCues} className="bg-[#F1F3F4] py-3 rounded-2xl flex flex-col items-center gap-1">
+            <GraduationCap size={18} className="text-[#34A853]" />
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{t('cues_title')}</span>
+          </button>
+          <button onClick={onOpenGestures} className="bg-[#F1F3F4] py-3 rounded-2xl flex flex-col items-center gap-1">
+            <Hand size={18} className="text-[#FBBC04]" />
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{t('gestures_title')}</span>
+          </button>
+          <button onClick={onOpenSosContacts} className="bg-[#F1F3F4] py-3 rounded-2xl flex flex-col items-center gap-1">
+            <Siren size={18} className="text-[#EA4335]" />
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{t('sos_title')}</span>
+          </button>
+        </div>
+        <p className="text-[11px] font-bold text-gray-400 uppercase tracking-[0.2em] text-center">{t('settings_hint')}</p>
+      </footer>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { AppLanguage, TrustedContact } from '../types';
+import { Siren, UserPlus, Mic, Trash2, X } from 'lucide-react';
+import { playHaptic } from '../utils/haptics';
+import { playListeningCue } from '../utils/earcons';
+import { createGestureRecognizer, RecognizedGesture } from '../utils/gestures';
+import { Translator } from '../i18n';
+import { listenOnce, isSpeechInputSupported } from '../services/speechInput';
+import { getSettings, subscribeSettings } from '../services/settings';
+import { normalizePhone, addTrustedContact, removeTrustedContact, setSosWebhookUrl } from '../services/sos';
+
+interface SosContactsViewProps {
+  language: AppLanguage | null;
+  t: Translator;
+  speakText: (text: string, callback?: () => void) => void;
+  onClose: () => void;
+}
+
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+/** The people an SOS is texted to and the optional webhook that sends it without anyone confirming. */
+export const SosContactsView: React.FC<SosContactsViewProps> = ({ language, t, speakText, onClose }) => {
+  const [contacts, setContacts] = useState<TrustedContact[]>(() => getSettings().sosContacts);
+  const [index, setIndex] = useState(0);
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [webhook, setWebhook] = useState(() => getSettings().sosWebhookUrl);
+  const [isListening, setIsListening] = useState(false);
+
+  const itemRefs = useRef<(HTMLLIElement | null)[]>([]);
+  const gestureHandlerRef = useRef<(gesture: RecognizedGesture) => void>(() => {});
+  const [recognizer] = useState(() => createGestureRecognizer({
+    onGesture: (gesture) => gestureHandlerRef.current(gesture),
+    onUnrecognized: () => playHaptic('heavy')
+  }));
+
+  const describe = (contact: TrustedContact | undefined) => contact ? `${contact.name}: ${contact.phone.split('').join(' ')}` : t('sos_contacts_empty');
+
+  useEffect(() => subscribeSettings(settings => setContacts(settings.sosContacts)), []);
+
+  useEffect(() => {
+    const list = getSettings().sosContacts;
+    speakText(t('sos_contacts_open', { count: list.length }), () => { if (list.length) speakText(describe(list[0])); });
+  }, []);
+
+  useEffect(() => { itemRefs.current[index]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' }); }, [index]);
+
+  const move = (step: number) => {
+    const next = index + step;
+    if (next < 0 || next >= contacts.length) { playHaptic('heavy'); return; }
+    setIndex(next);
+    playHaptic('light');
+    speakText(`${next + 1} / ${contacts.length}. ${describe(contacts[next])}`);
+  };
+
+  const add = (contactName: string, number: string) => {
+    const normalized = normalizePhone(number);
+    if (!contactName.trim() || !normalized) { playHaptic('heavy'); speakText(t('sos_contact_invalid')); return false; }
+    const contact = addTrustedContact(contactName, normalized);
+    setIndex(getSettings().sosContacts.length - 1);
+    playHaptic('success');
+    speakText(t('sos_contact_added', { name: contact.name }));
+    return true;
+  };
+
+  const dictate = async (prompt: string) => {
+    await new Promise<void>(resolve => speakText(prompt, resolve));
+    playListeningCue('start');
+    const text = await listenOnce(language?.code || 'en-US').catch(() => '');
+    playListeningCue('stop');
+    return text;
+  };
+
+  const addByVoice = async () => {
+    if (isListening) return;
+    if (!isSpeechInputSupported()) { playHaptic('heavy'); speakText(t('speech_input_unsupported')); return; }
+    setIsListening(true);
+    const spokenName = await dictate(t('sos_contact_ask_name'));
+    const spokenNumber = spokenName ? await dictate(t('sos_contact_ask_number', { name: spokenName })) : '';
+    setIsListening(false);
+    add(spokenName, spokenNumber);
+  };
+
+  const addTyped = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (add(name, phone)) { setName(''); setPhone(''); }
+  };
+
+  const remove = (contact: TrustedContact | undefined) => {
+    if (!contact) return;
+    removeTrustedContact(contact.id);
+    setIndex(Math.min(index, Math.max(getSettings().sosContacts.length - 1, 0)));
+    playHaptic('double');
+    speakText(t('sos_contact_removed', { name: contact.name }));
+  };
+
+  const saveWebhook = () => {
+    if (webhook.trim() === getSettings().sosWebhookUrl) return;
+    const saved = setSosWebhookUrl(webhook);
+    setWebhook(saved);
+    playHaptic(saved || !webhook.trim() ? 'success' : 'heavy');
+    speakText(t(saved ? 'sos_webhook_saved' : webhook.trim() ? 'sos_webhook_invalid' : 'sos_webhook_cleared'));
+  };
+
+  gestureHandlerRef.current = (gesture) => {
+    if (isListening) return;
+    const contact = contacts[index];
+    if (gesture.id === 'SWIPE_LEFT') move(1);
+    else if (gesture.id === 'SWIPE_RIGHT') move(-1);
+    else if (gesture.id === 'SWIPE_UP') { playHaptic('heavy'); onClose(); }
+    else if (gesture.id === 'TAP_1') speakText(describe(contact));
+    else if (gesture.id === 'TAP_2') addByVoice();
+    else if (gesture.id === 'TAP_3') remove(contact);
+    else playHaptic('heavy');
+  };
+
+  return (
+    <div onPointerDown={recognizer.down} onPointerMove={recognizer.move} onPointerUp={recognizer.up} onPointerCancel={recognizer.up} className="h-[100svh] w-full bg-[#F8F9FA] flex flex-col overflow-hidden touch-none select-none">
+      <header className="p-6 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-white rounded-2xl google-shadow"><Siren className="text-[#EA4335]" /></div>
+          <h2 className="text-2xl font-bold text-[#1F1F1F]">{t('sos_contacts_title')}</h2>
+        </div>
+        <button onPointerDown={stop} onPointerUp={stop} onClick={onClose} aria-label={t('close')} className="bg-white google-shadow p-4 rounded-full text-[#EA4335] active:scale-95 transition-all">
+          <X size={24} />
+        </button>
+      </header>
+
+      <ul className="flex-1 overflow-y-auto px-6 space-y-3 pb-6">
+        {contacts.length === 0 && <li className="text-center text-gray-400 font-bold pt-12">{t('sos_contacts_empty')}</li>}
+        {contacts.map((contact, i) => (
+          <li key={contact.id} ref={el => { itemRefs.current[i] = el; }} className={`bg-white google-shadow p-4 rounded-3xl flex items-center gap-3 transition-all ${i === index ? 'border-4 border-[#4285F4]' : 'border-4 border-transparent'}`}>
+            <button onPointerDown={stop} onPointerUp={stop} onClick={() => { setIndex(i); speakText(describe(contact)); }} className="flex-1 text-left min-w-0">
+              <span className="block text-lg font-bold text-[#1F1F1F] truncate">{contact.name}</span>
+              <span className="block text-[11px] font-bold text-gray-400 uppercase tracking-widest">{contact.phone}</span>
+            </button>
+            <button onPointerDown={stop} onPointerUp={stop} onClick={() => { setIndex(i); remove(contact); }} aria-label={`${contact.name}: ${t('history_delete')}`} className="bg-[#F1F3F4] p-3 rounded-full active:scale-95 transition-all">
+              <Trash2 size={18} className="text-[#EA4335]" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <footer className="p-6 pb-10 space-y-4 bg-white google-shadow rounded-t-[2rem] select-text" onPointerDown={stop} onPointerUp={stop}>
+        <form onSubmit={addTyped} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+          <input value={name} onChange={e => setName(e.target.value)} aria-label={t('sos_contact_name')} placeholder={t('sos_contact_name')} className="bg-[#F1F3F4] rounded-2xl px-4 py-3 min-w-0" />
+          <input value={phone} onChange={e => setPhone(e.target.value)} type="tel" aria-label={t('sos_contact_phone')} placeholder={t('sos_contact_phone')} className="bg-[#F1F3F4] rounded-2xl px-4 py-3 min-w-0" />
+          <button type="submit" aria-label={t('sos_contact_add')} className="bg-[#4285F4] text-white p-3 rounded-2xl active:scale-95 transition-all">
+            <UserPlus size={20} />
+          </button>
+        </form>
+        <input value={webhook} onChange={e => setWebhook(e.target.value)} onBlur={saveWebhook} type="url" aria-label={t('sos_webhook')} placeholder={t('sos_webhook')} className="w-full bg-[#F1F3F4] rounded-2xl px-4 py-3" />
+        <button onClick={addByVoice} disabled={isListening} className="w-full bg-[#F1F3F4] py-3 rounded-2xl flex items-center justify-center gap-2 disabled:opacity-40">
+          <Mic size={18} className={isListening ? 'text-[#34A853] animate-pulse' : 'text-[#4285F4]'} />
+          <span className="text-[11px] font-bold text-gray-500 uppercase tracking-widest">{t('sos_contact_add_voice')}</span>
+        </button>
+        <p className="text-[11px] font-bold text-gray-400 uppercase tracking-[0.2em] text-center">{t('sos_contacts_hint')}</p>
+      </footer>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Siren, Share2, Check, Send } from 'lucide-react';
+import { SosState } from '../services/sos';
+import { Translator } from '../i18n';
+
+interface SosOverlayProps {
+  t: Translator;
+  sos: SosState;
+  onCancel: () => void;
+  onShare: () => void;
+  onDismiss: () => void;
+}
+
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+/** Covers the READY screen while an SOS counts down or goes out, so one tap anywhere cancels, shares or dismisses it. */
+export const SosOverlay: React.FC<SosOverlayProps> = ({ t, sos, onCancel, onShare, onDismiss }) => {
+  const done = sos.phase === 'sent' || sos.phase === 'opened';
+  const action = sos.phase === 'countdown' ? onCancel : sos.phase === 'share' ? onShare : done ? onDismiss : undefined;
+  const label = sos.phase === 'countdown' ? t('sos_cancel')
+    : sos.phase === 'share' ? t('sos_tap_to_share')
+    : sos.phase === 'opened' ? (sos.channel === 'sms_opened' ? t('sos_ready_sms') : t('sos_ready_share'))
+    : sos.phase === 'sent' ? t('close') : t('sos_sending');
+
+  return (
+    <button
+      onPointerDown={stop} onPointerMove={stop} onPointerUp={stop}
+      onClick={action}
+      disabled={!action}
+      aria-label={label}
+      className={`absolute inset-0 z-[200] flex flex-col items-center justify-center gap-6 p-10 text-center text-white ${sos.phase === 'sent' ? 'bg-[#34A853]' : 'bg-[#EA4335]'}`}
+    >
+      {sos.phase === 'sent' ? <Check size={72} aria-hidden="true" />
+        : sos.phase === 'opened' ? <Send size={72} aria-hidden="true" />
+        : sos.phase === 'share' ? <Share2 size={72} aria-hidden="true" /> : <Siren size={72} aria-hidden="true" className="animate-pulse" />}
+      <span className="text-3xl font-bold">{t('sos_title')}</span>
+      {sos.phase === 'countdown' && <span role="timer" className="text-[8rem] font-bold leading-none">{sos.seconds}</span>}
+      {(sos.phase === 'share' || done) && <span className="text-lg break-words max-w-sm">{sos.message}</span>}
+      <span role="status" className="text-[11px] font-bold uppercase tracking-[0.2em]">{label}</span>
+    </button>
+  );
+};
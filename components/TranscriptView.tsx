@@ -0,0 +1,171 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { AppLanguage, SessionTranscript } from '../types';
+import { MessageSquareText, Copy, Play, Trash2, X } from 'lucide-react';
+import { playHaptic } from '../utils/haptics';
+import { analyzeGesture } from '../utils/gestures';
+import { Translator } from '../i18n';
+import { getTranscripts, deleteTranscript, formatTranscript } from '../services/historyStore';
+
+interface TranscriptViewProps {
+  language: AppLanguage | null;
+  t: Translator;
+  speakText: (text: string, callback?: () => void) => void;
+  onClose: () => void;
+}
+
+export const TranscriptView: React.FC<TranscriptViewProps> = ({ language, t, speakText, onClose }) => {
+  const [transcripts, setTranscripts] = useState<SessionTranscript[]>([]);
+  const [index, setIndex] = useState(0);
+
+  const pointsRef = useRef<{x: number, y: number}[]>([]);
+  const holdTimerRef = useRef<number | null>(null);
+  const tapCountRef = useRef<number>(0);
+  const tapTimerRef = useRef<number | null>(null);
+  const itemRefs = useRef<(HTMLLIElement | null)[]>([]);
+
+  const labels = { user: t('caption_you'), model: t('caption_assistant') };
+  const formatTime = (transcript: SessionTranscript) => new Date(transcript.startedAt).toLocaleString(language?.code, { dateStyle: 'medium', timeStyle: 'short' });
+
+  const announce = (list: SessionTranscript[], i: number) => {
+    const transcript = list[i];
+    if (!transcript) { speakText(t('transcripts_empty')); return; }
+    speakText(`${i + 1} / ${list.length}. ${formatTime(transcript)}. ${t('transcript_turns', { count: transcript.entries.length })}`);
+  };
+
+  /** Reads the whole session back, one utterance per entry so each speaker label is heard. */
+  const replay = (transcript: SessionTranscript | undefined) => {
+    if (!transcript) return;
+    playHaptic('medium');
+    const entries = transcript.entries;
+    const speakFrom = (i: number) => {
+      if (i >= entries.length) return;
+      speakText(`${entries[i].speaker === 'user' ? labels.user : labels.model}: ${entries[i].text}`, () => speakFrom(i + 1));
+    };
+    speakFrom(0);
+  };
+
+  const copy = async (transcript: SessionTranscript | undefined) => {
+    if (!transcript) return;
+    try {
+      await navigator.clipboard.writeText(formatTranscript(transcript, labels));
+      playHaptic('success');
+      speakText(t('transcript_copied'));
+    } catch (e) { playHaptic('heavy'); }
+  };
+
+  useEffect(() => {
+    getTranscripts().then(list => {
+      setTranscripts(list);
+      if (list.length === 0) speakText(t('transcripts_empty'));
+      else speakText(`${t('transcripts_open')} ${list.length}`, () => announce(list, 0));
+    }).catch(() => speakText(t('history_unavailable')));
+  }, []);
+
+  useEffect(() => { itemRefs.current[index]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' }); }, [index]);
+
+  const move = (step: number) => {
+    const next = index + step;
+    if (next < 0 || next >= transcripts.length) { playHaptic('heavy'); return; }
+    setIndex(next);
+    playHaptic('light');
+    announce(transcripts, next);
+  };
+
+  const removeCurrent = async () => {
+    const transcript = transcripts[index];
+    if (!transcript) return;
+    await deleteTranscript(transcript.id);
+    const remaining = transcripts.filter(tr => tr.id !== transcript.id);
+    const nextIndex = Math.min(index, Math.max(remaining.length - 1, 0));
+    setTranscripts(remaining); setIndex(nextIndex);
+    playHaptic('double');
+    speakText(t('history_deleted'), () => announce(remaining, nextIndex));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    pointsRef.current = [{x: e.clientX, y: e.clientY}];
+    holdTimerRef.current = window.setTimeout(() => {
+      holdTimerRef.current = null;
+      pointsRef.current = [];
+      removeCurrent();
+    }, 800);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (pointsRef.current.length === 0) return;
+    pointsRef.current.push({x: e.clientX, y: e.clientY});
+    if (Math.hypot(e.clientX - pointsRef.current[0].x, e.clientY - pointsRef.current[0].y) > 30) {
+      if (holdTimerRef.current) { window.clearTimeout(holdTimerRef.current); holdTimerRef.current = null; }
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (holdTimerRef.current) { window.clearTimeout(holdTimerRef.current); holdTimerRef.current = null; }
+    if (pointsRef.current.length === 0) return;
+    const gesture = analyzeGesture(pointsRef.current);
+    pointsRef.current = [];
+    if (gesture === 'SWIPE_LEFT') move(1);
+    else if (gesture === 'SWIPE_RIGHT') move(-1);
+    else if (gesture === 'SWIPE_UP') { playHaptic('heavy'); onClose(); }
+    else if (gesture === 'SWIPE_DOWN') copy(transcripts[index]);
+    else if (!gesture) {
+      tapCountRef.current++;
+      if (tapTimerRef.current) clearTimeout(tapTimerRef.current);
+      tapTimerRef.current = window.setTimeout(() => {
+        if (tapCountRef.current === 2) replay(transcripts[index]);
+        tapCountRef.current = 0;
+      }, 300);
+    }
+  };
+
+  const current = transcripts[index];
+
+  return (
+    <div onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} className="h-[100svh] w-full bg-[#F8F9FA] flex flex-col overflow-hidden touch-none select-none">
+      <header className="p-6 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-white rounded-2xl google-shadow"><MessageSquareText className="text-[#4285F4]" /></div>
+          <h2 className="text-2xl font-bold text-[#1F1F1F]">{t('transcripts_title')}</h2>
+        </div>
+        <button onPointerDown={e => e.stopPropagation()} onPointerUp={e => e.stopPropagation()} onClick={onClose} aria-label={t('close')} className="bg-white google-shadow p-4 rounded-full text-[#EA4335] active:scale-95 transition-all">
+          <X size={24} />
+        </button>
+      </header>
+
+      <ul className="flex-1 overflow-y-auto px-6 space-y-4 pb-6">
+        {transcripts.length === 0 && <li className="text-center text-gray-400 text-xl font-bold pt-24">{t('transcripts_empty')}</li>}
+        {transcripts.map((transcript, i) => (
+          <li key={transcript.id} ref={el => { itemRefs.current[i] = el; }} className={`bg-white google-shadow p-5 rounded-3xl transition-all ${i === index ? 'border-4 border-[#4285F4]' : 'border-4 border-transparent'}`}>
+            <div className="text-[11px] font-bold text-gray-400 uppercase tracking-widest mb-2">{formatTime(transcript)}</div>
+            <div className="space-y-1">
+              {(i === index ? transcript.entries : transcript.entries.slice(0, 2)).map((entry, j) => (
+                <p key={j} className={`text-lg leading-snug ${entry.speaker === 'user' ? 'text-[#1967D2]' : 'text-[#1F1F1F]'}`}>
+                  <span className="font-bold">{entry.speaker === 'user' ? labels.user : labels.model}: </span>{entry.text}
+                </p>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <footer className="p-6 pb-10 space-y-4 bg-white google-shadow rounded-t-[2rem]" onPointerDown={e => e.stopPropagation()} onPointerUp={e => e.stopPropagation()}>
+        <div className="grid grid-cols-3 gap-3">
+          <button onClick={() => replay(current)} disabled={!current} className="bg-[#F1F3F4] py-3 rounded-2xl flex flex-col items-center gap-1 disabled:opacity-40">
+            <Play size={18} className="text-[#4285F4]" />
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{t('transcript_replay')}</span>
+          </button>
+          <button onClick={() => copy(current)} disabled={!current} className="bg-[#F1F3F4] py-3 rounded-2xl flex flex-col items-center gap-1 disabled:opacity-40">
+            <Copy size={18} className="text-[#34A853]" />
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{t('transcript_copy')}</span>
+          </button>
+          <button onClick={removeCurrent} disabled={!current} className="bg-[#F1F3F4] py-3 rounded-2xl flex flex-col items-center gap-1 disabled:opacity-40">
+            <Trash2 size={18} className="text-[#EA4335]" />
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{t('history_delete')}</span>
+          </button>
+        </div>
+        <p className="text-[11px] font-bold text-gray-400 uppercase tracking-[0.2em] text-center">{t('transcripts_hint')}</p>
+      </footer>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+
+import { AppLanguage } from '../types';
+import enUS from './locales/en-US.json';
+import hiIN from './locales/hi-IN.json';
+import teIN from './locales/te-IN.json';
+import esES from './locales/es-ES.json';
+
+export type Catalog = Record<string, string>;
+export type TranslateParams = Record<string, string | number>;
+export type Translator = (key: string, params?: TranslateParams) => string;
+
+export const DEFAULT_LOCALE = 'en-US';
+
+export const CATALOGS: Record<string, Catalog> = {
+  'en-US': enUS,
+  'hi-IN': hiIN,
+  'te-IN': teIN,
+  'es-ES': esES
+};
+
+/** Exact locale, then any catalog with the same base language (`es-MX` → `es-ES`), then English. */
+export const fallbackChain = (code?: string | null): string[] => {
+  if (!code) return [DEFAULT_LOCALE];
+  const base = code.split('-')[0];
+  const sameBase = Object.keys(CATALOGS).filter(locale => locale !== code && locale.split('-')[0] === base);
+  return [...new Set([code, ...sameBase, DEFAULT_LOCALE])].filter(locale => CATALOGS[locale]);
+};
+
+const reported = new Set<string>();
+
+export const translate = (code: string | null | undefined, key: string, params?: TranslateParams) => {
+  const locale = fallbackChain(code).find(l => CATALOGS[l][key] !== undefined);
+  if (!locale) {
+    if (import.meta.env.DEV && !reported.has(key)) { reported.add(key); console.warn(`Missing translation key: ${key}`); }
+    return key;
+  }
+  const template = CATALOGS[locale][key];
+  return params ? template.replace(/\{(\w+)\}/g, (_, name) => String(params[name] ?? '')) : template;
+};
+
+export const createTranslator = (code?: string | null): Translator => (key, params) => translate(code, key, params);
+
+/** Instruction appended to every model prompt so replies come back in the user's language. */
+export const languageInstruction = (language: AppLanguage | null) => {
+  const { name, code } = language || { name: 'English', code: DEFAULT_LOCALE };
+  return `LANGUAGE: Always reply in ${name} (${code}), whatever language the user or any tool result uses. Keep street and business names as they appear locally.`;
+};
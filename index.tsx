@@ -2,15 +2,22 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { HelperView } from './components/HelperView';
+import { registerServiceWorker } from './services/serviceWorker';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// A `?helper=` link opens the sighted helper's side of a call instead of the app.
+const helperRoom = new URLSearchParams(window.location.search).get('helper');
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {helperRoom === null ? <App /> : <HelperView initialRoom={helperRoom} />}
   </React.StrictMode>
 );
+
+registerServiceWorker();
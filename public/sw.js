@@ -0,0 +1,60 @@
+// Keeps the app shell cached so the app installs and opens without signal. Model calls under
+// /api always go to the network; the app queues or explains what can't be done offline.
+const VERSION = 'v1';
+const SHELL_CACHE = `vision-voice-shell-${VERSION}`;
+const RUNTIME_CACHE = `vision-voice-runtime-${VERSION}`;
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg', '/worklets/mic-capture-processor.js', '/worklets/resampler.js'];
+/** Styles, fonts and scripts index.html loads from other origins at startup. */
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+const isCacheable = (url) =>
+  url.origin === self.location.origin ? !url.pathname.startsWith('/api/') : CDN_HOSTS.includes(url.hostname);
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(caches.keys()
+    .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE && key !== RUNTIME_CACHE).map(key => caches.delete(key))))
+    .then(() => self.clients.claim()));
+});
+
+// The page posts what it loaded before this worker took control, so the first visit is enough.
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'cache-urls') return;
+  const urls = event.data.urls.filter(url => isCacheable(new URL(url)));
+  event.waitUntil(caches.open(RUNTIME_CACHE).then(cache => Promise.all(urls.map(url =>
+    cache.match(url).then(hit => hit || fetch(url, { mode: new URL(url).origin === self.location.origin ? 'same-origin' : 'no-cors' }).then(response => cache.put(url, response)))
+      .catch(() => {})))));
+});
+
+/** Serves the cached copy straight away and refreshes it in the background. */
+const staleWhileRevalidate = async (event) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await caches.match(event.request);
+  const network = fetch(event.request).then(response => {
+    if (response.ok || response.type === 'opaque') cache.put(event.request, response.clone());
+    return response;
+  });
+  if (cached) { event.waitUntil(network.catch(() => {})); return cached; }
+  return network;
+};
+
+/** Pages come from the network when possible so a new deploy is picked up, else from the shell. */
+const networkFirstPage = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) (await caches.open(SHELL_CACHE)).put('/', response.clone());
+    return response;
+  } catch (e) {
+    return (await caches.match('/')) || Response.error();
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  if (request.mode === 'navigate') { event.respondWith(networkFirstPage(request)); return; }
+  if (isCacheable(new URL(request.url))) event.respondWith(staleWhileRevalidate(event));
+});
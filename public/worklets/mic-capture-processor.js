@@ -0,0 +1,41 @@
+// Runs on the audio rendering thread. Resamples mono mic input from the context rate
+// to `targetRate`, clamps to 16-bit PCM and posts fixed-size chunks with their level.
+import { createResampler } from './resampler.js';
+
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate = 16000, chunkSize = 2048 } = options.processorOptions || {};
+    this.resampler = createResampler(sampleRate, targetRate);
+    this.emit = (sample) => this.push(sample);
+    this.chunk = new Int16Array(chunkSize);
+    this.filled = 0;
+    this.sumSquares = 0;
+    this.peak = 0;
+    this.active = true;
+    this.port.onmessage = (e) => { if (e.data === 'stop') this.active = false; };
+  }
+
+  push(sample) {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    this.chunk[this.filled++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    this.sumSquares += clamped * clamped;
+    this.peak = Math.max(this.peak, Math.abs(clamped));
+    if (this.filled === this.chunk.length) {
+      const pcm = this.chunk.slice().buffer;
+      this.port.postMessage({ pcm, rms: Math.sqrt(this.sumSquares / this.filled), peak: this.peak }, [pcm]);
+      this.filled = 0;
+      this.sumSquares = 0;
+      this.peak = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return this.active;
+    this.resampler.process(input, this.emit);
+    return this.active;
+  }
+}
+
+registerProcessor('mic-capture-processor', MicCaptureProcessor);
@@ -0,0 +1,5 @@
+export interface Resampler {
+  process: (input: Float32Array, emit: (sample: number) => void) => void;
+}
+
+export declare const createResampler: (inputRate: number, outputRate: number) => Resampler;
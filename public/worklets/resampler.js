@@ -0,0 +1,69 @@
+// Band-limited resampler for the mic worklet. Each output sample is a windowed-sinc
+// interpolation of the input at that instant, with the cut-off below the lower of the two
+// Nyquist rates, so content above 8 kHz is removed rather than folded back into speech.
+// Works for any ratio, including non-integer ones such as 44.1 kHz to 16 kHz.
+
+/** Sinc zero crossings kept on each side; more gives a steeper cut-off for more work. */
+const ZERO_CROSSINGS = 16;
+/** Cut-off as a share of the lower Nyquist rate, leaving the window room to roll off. */
+const ROLLOFF = 0.9;
+/** Kernel table entries per input sample; taps between entries are linearly interpolated. */
+const TABLE_RESOLUTION = 64;
+
+const blackman = (x) => 0.42 + 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x);
+
+export const createResampler = (inputRate, outputRate) => {
+  const step = inputRate / outputRate;
+  const cutoff = Math.min(1, 1 / step) * ROLLOFF;
+  const halfWidth = Math.ceil(ZERO_CROSSINGS / cutoff);
+  // One side of the symmetric kernel, indexed by distance in input samples times the resolution.
+  const kernel = new Float32Array(halfWidth * TABLE_RESOLUTION + 2);
+  for (let i = 0; i < kernel.length; i++) {
+    const distance = i / TABLE_RESOLUTION;
+    if (distance >= halfWidth) continue;
+    const x = Math.PI * cutoff * distance;
+    kernel[i] = cutoff * (x === 0 ? 1 : Math.sin(x) / x) * blackman(distance / halfWidth);
+  }
+  const tap = (distance) => {
+    const position = Math.abs(distance) * TABLE_RESOLUTION;
+    const index = Math.floor(position);
+    return kernel[index] + (kernel[index + 1] - kernel[index]) * (position - index);
+  };
+
+  // Input history starts with a window of silence so the first outputs have left-hand taps.
+  let buffer = new Float32Array(halfWidth * 4 + 256);
+  let start = -halfWidth;
+  let length = halfWidth;
+  let time = 0;
+
+  const append = (input) => {
+    if (length + input.length > buffer.length) {
+      // Drop what no future output can reach, and grow only if the block still doesn't fit.
+      const drop = Math.max(0, Math.floor(time) - halfWidth + 1 - start);
+      buffer.copyWithin(0, drop, length);
+      start += drop;
+      length -= drop;
+      if (length + input.length > buffer.length) {
+        const grown = new Float32Array((length + input.length) * 2);
+        grown.set(buffer.subarray(0, length));
+        buffer = grown;
+      }
+    }
+    buffer.set(input, length);
+    length += input.length;
+  };
+
+  return {
+    /** Feeds one block of input and calls `emit` for every output sample it completes. */
+    process: (input, emit) => {
+      append(input);
+      while (Math.floor(time) + halfWidth < start + length) {
+        const first = Math.floor(time) - halfWidth + 1;
+        let sum = 0;
+        for (let k = first; k < first + halfWidth * 2; k++) sum += buffer[k - start] * tap(time - k);
+        emit(sum);
+        time += step;
+      }
+    }
+  };
+};
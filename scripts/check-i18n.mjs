@@ -0,0 +1,120 @@
+// Validates the translation catalogs: every locale has exactly the English keys with the
+// same {placeholders}, every letter is in the locale's script, no value is left in English,
+// and every key the source uses exists: literal t('key') calls, `...Key: 'key'` fields and
+// each member of the t(`prefix_${...}`) families below. Exits non-zero on any problem; run
+// with `npm test`.
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import { join, extname } from 'node:path';
+
+const ROOT = new URL('..', import.meta.url).pathname;
+const LOCALES_DIR = join(ROOT, 'i18n/locales');
+const REFERENCE = 'en-US';
+const SCRIPTS = {
+  'en-US': 'Latin',
+  'es-ES': 'Latin',
+  'hi-IN': 'Devanagari',
+  'te-IN': 'Telugu'
+};
+
+/** Values that may match English: the product name and words spelled the same in both. */
+const SAME_AS_REFERENCE = {
+  'es-ES': ['welcome_title', 'cue_error', 'sos_title']
+};
+
+/**
+ * Every value each t(`prefix_${...}`) template can produce, mirroring the union types it is
+ * built from. A template with a prefix missing here fails the check, so new families must be
+ * listed.
+ */
+const TEMPLATE_FAMILIES = {
+  // Maneuver in services/routing.ts
+  maneuver_: ['depart', 'straight', 'left', 'right', 'slight_left', 'slight_right', 'uturn', 'arrive'],
+  // ColorName and the shades in services/colorDetector.ts
+  color_: ['black', 'grey', 'white', 'red', 'orange', 'brown', 'yellow', 'green', 'turquoise', 'blue', 'purple', 'pink'],
+  color_shade_: ['light', 'dark'],
+  // CueGroup and FeedbackStyle in services/cues.ts
+  cue_group_: ['mode', 'direction', 'distance', 'status'],
+  feedback_: ['speech', 'earcon', 'haptic'],
+  // HelperCallState and HelperCallEnd in services/helperCall.ts
+  helper_state_: ['waiting', 'request', 'connecting', 'connected'],
+  helper_view_: ['waiting', 'request', 'connecting', 'connected'],
+  helper_view_ended_: ['hangup', 'declined', 'failed', 'microphone', 'unreachable'],
+  helper_call_: ['hangup', 'declined', 'failed', 'microphone', 'unreachable'],
+  // FRAMING_ISSUES in services/documentReader.ts
+  reading_framing_: ['cut_off_left', 'cut_off_right', 'cut_off_top', 'cut_off_bottom', 'too_far', 'too_close', 'blurry', 'too_dark', 'no_text'],
+  // LiveErrorKind in services/visionProvider.ts
+  session_error_: ['microphone', 'auth', 'network', 'server'],
+  // VadSensitivity in services/voiceActivity.ts
+  sensitivity_: ['low', 'medium', 'high'],
+  // Global actions, SwipeDirection and circles in services/gestureBindings.ts and utils/gestures.ts
+  gesture_action_: ['primary', 'history', 'hands_free', 'reading', 'captions', 'settings', 'stop_speech', 'stop_mode', 'turn_off', 'places', 'save_place', 'place_directions', 'sos'],
+  dir_: ['left', 'right', 'up', 'down'],
+  gesture_: ['circle_cw', 'circle_ccw'],
+  // toCardinal in services/places.ts
+  cardinal_: ['north', 'north_east', 'east', 'south_east', 'south', 'south_west', 'west', 'north_west']
+};
+
+const problems = [];
+const placeholders = (value) => [...value.matchAll(/\{(\w+)\}/g)].map(m => m[1]).sort().join(',');
+
+const catalogs = Object.fromEntries(readdirSync(LOCALES_DIR)
+  .filter(file => file.endsWith('.json'))
+  .map(file => [file.replace('.json', ''), JSON.parse(readFileSync(join(LOCALES_DIR, file), 'utf8'))]));
+
+const reference = catalogs[REFERENCE];
+if (!reference) problems.push(`missing reference catalog ${REFERENCE}`);
+
+for (const [locale, catalog] of Object.entries(catalogs)) {
+  const script = SCRIPTS[locale];
+  if (!script) { problems.push(`${locale}: no expected script configured in scripts/check-i18n.mjs`); continue; }
+  const letter = new RegExp(`\\p{L}`, 'u');
+  const inScript = new RegExp(`\\p{Script=${script}}`, 'u');
+
+  for (const key of Object.keys(reference || {})) {
+    if (catalog[key] === undefined) problems.push(`${locale}: missing key "${key}"`);
+  }
+  for (const [key, value] of Object.entries(catalog)) {
+    if (reference && reference[key] === undefined) problems.push(`${locale}: unknown key "${key}"`);
+    if (typeof value !== 'string' || !value.trim()) { problems.push(`${locale}: empty value for "${key}"`); continue; }
+    if (reference?.[key] !== undefined && placeholders(value) !== placeholders(reference[key])) {
+      problems.push(`${locale}: placeholders of "${key}" differ from ${REFERENCE}`);
+    }
+    const foreign = [...value.replace(/\{\w+\}/g, '')].filter(ch => letter.test(ch) && !inScript.test(ch));
+    if (foreign.length) problems.push(`${locale}: "${key}" contains letters outside ${script} script: ${[...new Set(foreign)].join('')}`);
+    const untranslated = locale !== REFERENCE && value === reference?.[key] && letter.test(value.replace(/\{\w+\}/g, ''));
+    if (untranslated && !SAME_AS_REFERENCE[locale]?.includes(key)) problems.push(`${locale}: "${key}" is the same as ${REFERENCE}`);
+  }
+}
+
+for (const [prefix, members] of Object.entries(TEMPLATE_FAMILIES)) {
+  for (const member of members) {
+    if (reference && reference[prefix + member] === undefined) problems.push(`template family ${prefix}: "${prefix + member}" has no ${REFERENCE} entry`);
+  }
+}
+
+const sourceFiles = (dir) => readdirSync(dir).flatMap(name => {
+  if (['node_modules', 'dist', '.git', 'public'].includes(name)) return [];
+  const path = join(dir, name);
+  if (statSync(path).isDirectory()) return sourceFiles(path);
+  return ['.ts', '.tsx'].includes(extname(name)) ? [path] : [];
+});
+
+for (const file of sourceFiles(ROOT)) {
+  const source = readFileSync(file, 'utf8');
+  for (const [, key] of source.matchAll(/\bt\('([a-z0-9_]+)'/g)) {
+    if (reference && reference[key] === undefined) problems.push(`${file.replace(ROOT, '')}: t('${key}') has no ${REFERENCE} entry`);
+  }
+  for (const [, key] of source.matchAll(/\b[a-z]\w*Key: '([a-z0-9_]+)'/g)) {
+    if (reference && reference[key] === undefined) problems.push(`${file.replace(ROOT, '')}: key '${key}' has no ${REFERENCE} entry`);
+  }
+  for (const [, prefix] of source.matchAll(/\bt\(`([a-z0-9_]*)\$\{/g)) {
+    if (!TEMPLATE_FAMILIES[prefix]) problems.push(`${file.replace(ROOT, '')}: t(\`${prefix}\${...}\`) is not listed in TEMPLATE_FAMILIES`);
+  }
+}
+
+if (problems.length) {
+  console.error(`i18n check failed with ${problems.length} problem(s):`);
+  problems.forEach(problem => console.error(`  - ${problem}`));
+  process.exit(1);
+}
+console.log(`i18n check passed: ${Object.keys(catalogs).length} locales, ${Object.keys(reference).length} keys.`);
@@ -0,0 +1,32 @@
+
+import type { Connect, Plugin } from 'vite';
+import { createKeyProxy, KeyProxy } from './keyProxy';
+import { createSignalingServer, SignalingServer } from './signaling';
+import { toRequest, send } from './nodeHttp';
+
+const mount = (middlewares: Connect.Server, proxy: KeyProxy, signaling: SignalingServer) => {
+  const routes: Record<string, (request: Request) => Promise<Response>> = {
+    '/api/token': proxy.handleToken,
+    '/api/generate': proxy.handleGenerate,
+    '/api/signal': signaling.handleSignal
+  };
+  middlewares.use((req, res, next) => {
+    const handler = routes[(req.url || '').split('?')[0]];
+    if (!handler) { next(); return; }
+    toRequest(req).then(handler).then(response => send(res, response)).catch(next);
+  });
+};
+
+/**
+ * Serves the same `/api` routes as the Vercel functions from `vite` and `vite preview`, plus the
+ * local `/api/signal` relay for helper calls.
+ */
+export const keyProxyPlugin = (apiKey: string, buildModel?: string, buildLiveModel?: string): Plugin => {
+  const proxy = createKeyProxy({ apiKey, buildModel, buildLiveModel });
+  const signaling = createSignalingServer();
+  return {
+    name: 'vision-voice-key-proxy',
+    configureServer: (server) => mount(server.middlewares, proxy, signaling),
+    configurePreviewServer: (server) => mount(server.middlewares, proxy, signaling)
+  };
+};
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { createToken, generateContent } = vi.hoisted(() => ({
+  createToken: vi.fn(async () => ({ name: 'auth_tokens/1' })),
+  generateContent: vi.fn(async () => ({ text: 'A kitchen.' }))
+}));
+
+vi.mock('@google/genai', async importOriginal => ({
+  ...await importOriginal<typeof import('@google/genai')>(),
+  GoogleGenAI: class {
+    authTokens = { create: createToken };
+    models = { generateContent };
+  }
+}));
+
+import { createKeyProxy, LIVE_MODELS } from './keyProxy';
+
+const API_KEY = 'test-key';
+
+const post = (path: string, body: BodyInit) =>
+  new Request(`http://localhost${path}`, { method: 'POST', headers: { 'content-type': 'application/json' }, body, duplex: 'half' } as RequestInit);
+
+/** A body sent in chunks with no content-length, as a chunked upload arrives. */
+const streamed = (chunks: number, chunkBytes: number) => {
+  let sent = 0;
+  return new ReadableStream<Uint8Array>({
+    pull: controller => {
+      if (sent++ === chunks) controller.close();
+      else controller.enqueue(new Uint8Array(chunkBytes).fill(32));
+    }
+  });
+};
+
+describe('createKeyProxy', () => {
+  beforeEach(() => { createToken.mockClear(); generateContent.mockClear(); });
+
+  it('locks each token to the requested live model and the shared setup', async () => {
+    const { handleToken } = createKeyProxy({ apiKey: API_KEY });
+    const response = await handleToken(post('/api/token', JSON.stringify({ model: LIVE_MODELS[0] })));
+    expect(await response.json()).toMatchObject({ token: 'auth_tokens/1' });
+    expect(createToken).toHaveBeenCalledWith({
+      config: expect.objectContaining({
+        uses: 1,
+        liveConnectConstraints: { model: LIVE_MODELS[0], config: expect.objectContaining({ responseModalities: ['AUDIO'] }) },
+        lockAdditionalFields: []
+      })
+    });
+  });
+
+  it('refuses tokens for other live models', async () => {
+    const { handleToken } = createKeyProxy({ apiKey: API_KEY });
+    expect((await handleToken(post('/api/token', JSON.stringify({ model: 'gemini-2.5-pro' })))).status).toBe(400);
+    expect((await handleToken(post('/api/token', '{}'))).status).toBe(400);
+    expect(createToken).not.toHaveBeenCalled();
+  });
+
+  it('cuts off a streamed body past the limit without a content-length', async () => {
+    const { handleGenerate } = createKeyProxy({ apiKey: API_KEY });
+    const response = await handleGenerate(post('/api/generate', streamed(9, 1024 * 1024)));
+    expect(response.status).toBe(413);
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('forwards a streamed body within the limit', async () => {
+    const { handleGenerate } = createKeyProxy({ apiKey: API_KEY });
+    const body = JSON.stringify({ model: 'gemini-2.5-flash', contents: [{ parts: [{ text: 'What is this?' }] }] });
+    const response = await handleGenerate(post('/api/generate', new Blob([body]).stream()));
+    expect(await response.json()).toEqual({ text: 'A kitchen.' });
+  });
+});
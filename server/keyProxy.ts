@@ -0,0 +1,187 @@
+
+import { GoogleGenAI, ApiError, Content, Part, Modality, LiveConnectConfig } from '@google/genai';
+import { createRateLimiter, RateLimit } from './rateLimit';
+
+/** Ephemeral tokens are only issued on the v1alpha API. */
+const TOKEN_API_VERSION = 'v1alpha';
+/** How long an open live session may keep using its token. */
+const TOKEN_LIFETIME_MS = 30 * 60 * 1000;
+/** How long the client has to open the session after minting. */
+const TOKEN_START_WINDOW_MS = 60 * 1000;
+const MAX_BODY_BYTES = 8 * 1024 * 1024;
+/** The photo models offered in settings (`SETTING_FIELDS`); nothing else may spend the key. */
+export const ONE_SHOT_MODELS = ['gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'];
+/** The live models offered in settings; a token only opens a session on the one it was minted for. */
+export const LIVE_MODELS = ['gemini-2.5-flash-native-audio-preview-12-2025', 'gemini-live-2.5-flash-preview'];
+/**
+ * The parts of the live setup every session shares, locked into the token so it can't open a text
+ * session or drop the transcripts. The prompt, voice and tools change per mode and stay with the client.
+ */
+const LIVE_SETUP: LiveConnectConfig = {
+  responseModalities: [Modality.AUDIO],
+  inputAudioTranscription: {},
+  outputAudioTranscription: {}
+};
+/** Config fields the client's one-shot calls use; anything else is dropped before forwarding. */
+const FORWARDED_CONFIG = ['responseMimeType', 'responseSchema', 'tools', 'toolConfig'];
+/** Only Maps grounding is used, by `describeLocation`. */
+const ALLOWED_TOOLS = ['googleMaps'];
+const ALLOWED_TOOL_CONFIG = ['retrievalConfig'];
+const IMAGE_MIME_TYPES = ['image/jpeg'];
+
+export interface KeyProxyOptions {
+  apiKey: string;
+  /** Token mints per client; each live connection or reconnect takes one. */
+  tokenLimit?: RateLimit;
+  /** One-shot generateContent calls per client. */
+  generateLimit?: RateLimit;
+  /** The build's `VITE_GEMINI_MODEL`, allowed alongside `ONE_SHOT_MODELS`. */
+  buildModel?: string;
+  /** The build's `VITE_GEMINI_LIVE_MODEL`, allowed alongside `LIVE_MODELS`. */
+  buildLiveModel?: string;
+}
+
+export interface KeyProxy {
+  /** `POST { model }` → `{ token, expireTime }`, a single-use token for one live connection. */
+  handleToken: (request: Request) => Promise<Response>;
+  /** `POST { model, contents, config }` → `{ text }`. */
+  handleGenerate: (request: Request) => Promise<Response>;
+}
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', 'cache-control': 'no-store', ...headers } });
+
+/** The first hop in `x-forwarded-for` is the browser; hosts like Vercel overwrite the header, so it can't be spoofed there. */
+const clientIdOf = (request: Request) =>
+  request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'local';
+
+/** Status carried by an upstream SDK error, so the client can tell a bad key from an outage. */
+const upstreamStatus = (error: unknown) =>
+  error instanceof ApiError && error.status >= 400 && error.status < 600 ? error.status : 502;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses a JSON object body, counting bytes as they arrive and cancelling the stream once it passes
+ * `MAX_BODY_BYTES`, since a chunked upload carries no content-length to check up front.
+ */
+const readBody = async (request: Request): Promise<Record<string, unknown> | Response> => {
+  if (Number(request.headers.get('content-length')) > MAX_BODY_BYTES) return json(413, { error: 'Request too large' });
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = request.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_BODY_BYTES) {
+      await reader.cancel();
+      return json(413, { error: 'Request too large' });
+    }
+    chunks.push(value);
+  }
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    return isRecord(body) ? body : json(400, { error: 'Invalid JSON' });
+  } catch (e) { return json(400, { error: 'Invalid JSON' }); }
+};
+
+/** Text or an inline JPEG, the only parts the app sends. */
+const isPart = (value: unknown): value is Part => {
+  if (!isRecord(value) || Object.keys(value).length !== 1) return false;
+  if (typeof value.text === 'string') return true;
+  const inline = value.inlineData;
+  return isRecord(inline) && typeof inline.data === 'string' && typeof inline.mimeType === 'string' && IMAGE_MIME_TYPES.includes(inline.mimeType);
+};
+
+const isContents = (value: unknown): value is Content[] => Array.isArray(value) && value.length > 0 && value.every(content =>
+  isRecord(content)
+  && (content.role === undefined || content.role === 'user' || content.role === 'model')
+  && Array.isArray(content.parts) && content.parts.length > 0 && content.parts.every(isPart));
+
+/** Every tool and tool setting must be one the app uses. */
+const hasAllowedTools = (config: Record<string, unknown>) => {
+  const { tools, toolConfig } = config;
+  if (tools !== undefined && !(Array.isArray(tools) && tools.every(tool => isRecord(tool) && Object.keys(tool).every(key => ALLOWED_TOOLS.includes(key))))) return false;
+  return toolConfig === undefined || (isRecord(toolConfig) && Object.keys(toolConfig).every(key => ALLOWED_TOOL_CONFIG.includes(key)));
+};
+
+/** Holds the real API key server-side: mints short-lived live tokens and forwards one-shot calls. */
+export const createKeyProxy = ({ apiKey, tokenLimit = { limit: 20, windowMs: 60000 }, generateLimit = { limit: 30, windowMs: 60000 }, buildModel, buildLiveModel }: KeyProxyOptions): KeyProxy => {
+  const models = buildModel ? [...ONE_SHOT_MODELS, buildModel] : ONE_SHOT_MODELS;
+  const liveModels = buildLiveModel ? [...LIVE_MODELS, buildLiveModel] : LIVE_MODELS;
+  const ai = new GoogleGenAI({ apiKey });
+  const tokenAi = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: TOKEN_API_VERSION } });
+  const tokenLimiter = createRateLimiter(tokenLimit);
+  const generateLimiter = createRateLimiter(generateLimit);
+
+  /** Shared gatekeeping; resolves to an error response, or null when the request may proceed. */
+  const reject = (request: Request, limiter: ReturnType<typeof createRateLimiter>) => {
+    if (request.method !== 'POST') return json(405, { error: 'Method not allowed' }, { allow: 'POST' });
+    if (!apiKey) return json(500, { error: 'GEMINI_API_KEY is not set on the server' });
+    const waitMs = limiter.take(clientIdOf(request));
+    if (waitMs > 0) return json(429, { error: 'Too many requests' }, { 'retry-after': String(Math.ceil(waitMs / 1000)) });
+    return null;
+  };
+
+  return {
+    handleToken: async (request) => {
+      const rejected = reject(request, tokenLimiter);
+      if (rejected) return rejected;
+      const body = await readBody(request);
+      if (body instanceof Response) return body;
+      const { model } = body;
+      if (typeof model !== 'string' || !liveModels.includes(model)) return json(400, { error: 'Model not allowed' });
+      const now = Date.now();
+      const expireTime = new Date(now + TOKEN_LIFETIME_MS).toISOString();
+      try {
+        const token = await tokenAi.authTokens.create({
+          config: {
+            uses: 1,
+            expireTime,
+            newSessionExpireTime: new Date(now + TOKEN_START_WINDOW_MS).toISOString(),
+            liveConnectConstraints: { model, config: LIVE_SETUP },
+            // Empty locks exactly the fields set in the constraints.
+            lockAdditionalFields: [],
+            httpOptions: { apiVersion: TOKEN_API_VERSION }
+          }
+        });
+        return json(200, { token: token.name, expireTime });
+      } catch (error) {
+        return json(upstreamStatus(error), { error: (error as Error)?.message || 'Token request failed' });
+      }
+    },
+
+    handleGenerate: async (request) => {
+      const rejected = reject(request, generateLimiter);
+      if (rejected) return rejected;
+      const body = await readBody(request);
+      if (body instanceof Response) return body;
+      const { model, contents } = body;
+      if (typeof model !== 'string' || !models.includes(model)) return json(400, { error: 'Model not allowed' });
+      if (!isContents(contents)) return json(400, { error: 'Expected text and JPEG contents' });
+      const config = Object.fromEntries(Object.entries(isRecord(body.config) ? body.config : {}).filter(([key]) => FORWARDED_CONFIG.includes(key)));
+      if (!hasAllowedTools(config)) return json(400, { error: 'Tool not allowed' });
+      try {
+        const response = await ai.models.generateContent({ model, contents, config });
+        return json(200, { text: response.text || '' });
+      } catch (error) {
+        return json(upstreamStatus(error), { error: (error as Error)?.message || 'Generation failed' });
+      }
+    }
+  };
+};
+
+let shared: KeyProxy | null = null;
+
+/**
+ * One proxy per process, keyed from `GEMINI_API_KEY`, so rate-limit state survives between
+ * requests. `VITE_GEMINI_MODEL` and `VITE_GEMINI_LIVE_MODEL` are read from the same environment the build used.
+ */
+export const getKeyProxy = () => {
+  if (!shared) {
+    shared = createKeyProxy({ apiKey: process.env.GEMINI_API_KEY || '', buildModel: process.env.VITE_GEMINI_MODEL, buildLiveModel: process.env.VITE_GEMINI_LIVE_MODEL });
+  }
+  return shared;
+};
@@ -0,0 +1,37 @@
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+/** Larger than any route accepts; past this the upload is cut off before it is all in memory. */
+const MAX_BODY_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Buffers a Node request into a fetch `Request`. The socket is the client unless `trustProxy` says a
+ * reverse proxy in front sets `x-forwarded-for`; otherwise a client-sent value would dodge the rate limits.
+ */
+export const toRequest = async (req: IncomingMessage, trustProxy = false) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) { req.destroy(); throw new Error('Request too large'); }
+    chunks.push(chunk as Buffer);
+  }
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+  });
+  if (!trustProxy) {
+    headers.delete('x-forwarded-for');
+    headers.delete('x-real-ip');
+    if (req.socket.remoteAddress) headers.set('x-forwarded-for', req.socket.remoteAddress);
+  }
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  return new Request(`http://${req.headers.host || 'localhost'}${req.url}`, { method: req.method, headers, body: hasBody ? new Uint8Array(Buffer.concat(chunks)) : undefined });
+};
+
+/** Writes a fetch `Response` back through Node. */
+export const send = async (res: ServerResponse, response: Response) => {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+  res.end(Buffer.from(await response.arrayBuffer()));
+};
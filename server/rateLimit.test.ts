@@ -0,0 +1,30 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+describe('createRateLimiter', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('allows the limit per window, then says how long to wait', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000 });
+    expect(limiter.take('a')).toBe(0);
+    expect(limiter.take('a')).toBe(0);
+    vi.advanceTimersByTime(400);
+    expect(limiter.take('a')).toBe(600);
+  });
+
+  it('counts each client on its own', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 });
+    expect(limiter.take('a')).toBe(0);
+    expect(limiter.take('b')).toBe(0);
+    expect(limiter.take('a')).toBeGreaterThan(0);
+  });
+
+  it('starts a fresh window once the last one has passed', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 });
+    limiter.take('a');
+    vi.advanceTimersByTime(1000);
+    expect(limiter.take('a')).toBe(0);
+    expect(limiter.take('a')).toBe(1000);
+  });
+});
@@ -0,0 +1,38 @@
+
+export interface RateLimit {
+  /** Requests allowed per client in each window. */
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimiter {
+  /** Counts one request; resolves to the milliseconds to wait, or 0 when it may go ahead. */
+  take: (clientId: string) => number;
+}
+
+/**
+ * Fixed-window counter per client. State lives in this process only, so on a serverless host
+ * each warm instance limits on its own; that still caps a single client hammering one instance.
+ */
+export const createRateLimiter = ({ limit, windowMs }: RateLimit): RateLimiter => {
+  const windows = new Map<string, { start: number, count: number }>();
+
+  const sweep = (now: number) => {
+    windows.forEach((window, clientId) => { if (now - window.start >= windowMs) windows.delete(clientId); });
+  };
+
+  return {
+    take: (clientId) => {
+      const now = Date.now();
+      if (windows.size > 10000) sweep(now);
+      const window = windows.get(clientId);
+      if (!window || now - window.start >= windowMs) {
+        windows.set(clientId, { start: now, count: 1 });
+        return 0;
+      }
+      if (window.count >= limit) return window.start + windowMs - now;
+      window.count++;
+      return 0;
+    }
+  };
+};
@@ -0,0 +1,41 @@
+
+import { createServer } from 'node:http';
+import { createSignalingServer } from './signaling';
+import { toRequest, send } from './nodeHttp';
+
+/**
+ * Standalone helper-call relay: serves `/api/signal` from `server/signaling.ts` for builds whose
+ * host can't keep rooms in memory (serverless). Point `VITE_SIGNALING_URL` at it. Settings come
+ * from the environment:
+ * - `PORT` (default 8787)
+ * - `RELAY_ALLOWED_ORIGIN`, the app's origin for CORS (default `*`; rooms are unguessable)
+ * - `RELAY_TRUST_PROXY=1` when a reverse proxy in front sets `x-forwarded-for`
+ */
+const port = Number(process.env.PORT) || 8787;
+const allowedOrigin = process.env.RELAY_ALLOWED_ORIGIN || '*';
+const trustProxy = process.env.RELAY_TRUST_PROXY === '1';
+const signaling = createSignalingServer();
+
+const CORS_HEADERS = {
+  'access-control-allow-origin': allowedOrigin,
+  'access-control-allow-methods': 'GET, POST, OPTIONS',
+  'access-control-allow-headers': 'content-type',
+  'access-control-max-age': '86400',
+  vary: 'origin'
+};
+
+const withCors = (response: Response) => {
+  Object.entries(CORS_HEADERS).forEach(([name, value]) => response.headers.set(name, value));
+  return response;
+};
+
+createServer((req, res) => {
+  const respond = (response: Response) => send(res, withCors(response));
+  if ((req.url || '').split('?')[0] !== '/api/signal') { respond(new Response(null, { status: 404 })); return; }
+  // The app posts JSON, so a cross-origin relay is always preflighted.
+  if (req.method === 'OPTIONS') { respond(new Response(null, { status: 204 })); return; }
+  toRequest(req, trustProxy)
+    .then(signaling.handleSignal)
+    .catch(() => new Response(null, { status: 400 }))
+    .then(respond);
+}).listen(port, () => console.log(`Signaling relay listening on port ${port}`));
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { createSignalingServer } from './signaling';
+
+const ROOM = '0123456789abcdef0123456789abcdef';
+const BASE = 'http://localhost/api/signal';
+
+const send = (role: string, message: unknown, room = ROOM) =>
+  new Request(BASE, { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ room, role, message }) });
+
+const poll = (role: string, after = 0, room = ROOM) => new Request(`${BASE}?room=${room}&role=${role}&after=${after}`);
+
+describe('createSignalingServer', () => {
+  it('relays each message to the other role only', async () => {
+    const { handleSignal } = createSignalingServer({ pollTimeoutMs: 10 });
+    const offer = { type: 'offer', sdp: 'v=0' };
+    expect((await handleSignal(send('user', offer))).status).toBe(200);
+    expect(await (await handleSignal(poll('helper'))).json()).toEqual({ messages: [offer], cursor: 1 });
+    expect(await (await handleSignal(poll('user'))).json()).toEqual({ messages: [], cursor: 0 });
+  });
+
+  it('returns only the messages after the cursor', async () => {
+    const { handleSignal } = createSignalingServer({ pollTimeoutMs: 10 });
+    await handleSignal(send('helper', { type: 'answer' }));
+    await handleSignal(send('helper', { type: 'candidate' }));
+    expect(await (await handleSignal(poll('user', 1))).json()).toEqual({ messages: [{ type: 'candidate' }], cursor: 2 });
+  });
+
+  it('holds a poll open until a message arrives', async () => {
+    const { handleSignal } = createSignalingServer({ pollTimeoutMs: 5000 });
+    const waiting = handleSignal(poll('helper'));
+    await handleSignal(send('user', { type: 'hangup' }));
+    expect(await (await waiting).json()).toEqual({ messages: [{ type: 'hangup' }], cursor: 1 });
+  });
+
+  it('refuses guessable rooms, unknown roles and messages without a type', async () => {
+    const { handleSignal } = createSignalingServer({ pollTimeoutMs: 10 });
+    expect((await handleSignal(send('user', { type: 'offer' }, 'kitchen'))).status).toBe(400);
+    expect((await handleSignal(send('admin', { type: 'offer' }))).status).toBe(400);
+    expect((await handleSignal(send('user', { sdp: 'v=0' }))).status).toBe(400);
+    expect((await handleSignal(poll('user', 0, 'kitchen'))).status).toBe(400);
+    expect((await handleSignal(new Request(BASE, { method: 'PUT' }))).status).toBe(405);
+  });
+
+  it('limits how often one client may send', async () => {
+    const { handleSignal } = createSignalingServer({ pollTimeoutMs: 10, sendLimit: { limit: 1, windowMs: 60000 } });
+    expect((await handleSignal(send('user', { type: 'offer' }))).status).toBe(200);
+    const limited = await handleSignal(send('user', { type: 'offer' }));
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('60');
+  });
+});
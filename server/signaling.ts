@@ -0,0 +1,128 @@
+
+import { createRateLimiter, RateLimit } from './rateLimit';
+
+const ROLES = ['user', 'helper'] as const;
+type Role = typeof ROLES[number];
+
+/** 128 random bits as hex, from `createRoomCode`; anything guessable is refused. */
+const ROOM_CODE = /^[0-9a-f]{32}$/;
+/** Rooms untouched this long are dropped with whatever they still hold. */
+const ROOM_TTL_MS = 15 * 60 * 1000;
+const MAX_ROOMS = 1000;
+/** Messages kept per role; a trickled call needs a few dozen at most. */
+const MAX_LOG = 200;
+const MAX_BODY_BYTES = 64 * 1024;
+
+export interface SignalingServerOptions {
+  /** How long a poll is held open when nothing is waiting. */
+  pollTimeoutMs?: number;
+  /** Posted messages per client. */
+  sendLimit?: RateLimit;
+}
+
+export interface SignalingServer {
+  /**
+   * `POST { room, role, message }` logs `message` for the other role in the room;
+   * `GET ?room=&role=&after=` → `{ messages, cursor }`, the messages logged after `cursor`, held
+   * open until one arrives or the poll times out. Every poller sees every message, so several
+   * helpers in one room each get theirs.
+   */
+  handleSignal: (request: Request) => Promise<Response>;
+}
+
+interface Mailbox {
+  log: { seq: number, message: unknown }[];
+  nextSeq: number;
+  /** Wake the polls waiting on this mailbox. */
+  waiters: Set<() => void>;
+}
+
+interface Room {
+  boxes: Record<Role, Mailbox>;
+  touched: number;
+}
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', 'cache-control': 'no-store', ...headers } });
+
+const clientIdOf = (request: Request) =>
+  request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'local';
+
+const isRole = (value: unknown): value is Role => (ROLES as readonly unknown[]).includes(value);
+
+/**
+ * Relays WebRTC signaling between the two ends of a helper call by long polling. Rooms live in
+ * this process only, so it suits the dev server and a single instance, not serverless hosts.
+ */
+export const createSignalingServer = ({ pollTimeoutMs = 25000, sendLimit = { limit: 300, windowMs: 60000 } }: SignalingServerOptions = {}): SignalingServer => {
+  const rooms = new Map<string, Room>();
+  const sendLimiter = createRateLimiter(sendLimit);
+
+  const sweep = (now: number) => {
+    rooms.forEach((room, code) => { if (now - room.touched >= ROOM_TTL_MS) rooms.delete(code); });
+  };
+
+  const roomFor = (code: string) => {
+    const now = Date.now();
+    sweep(now);
+    let room = rooms.get(code);
+    if (!room) {
+      if (rooms.size >= MAX_ROOMS) return null;
+      const mailbox = (): Mailbox => ({ log: [], nextSeq: 1, waiters: new Set() });
+      room = { boxes: { user: mailbox(), helper: mailbox() }, touched: now };
+      rooms.set(code, room);
+    }
+    room.touched = now;
+    return room;
+  };
+
+  const post = async (request: Request) => {
+    const waitMs = sendLimiter.take(clientIdOf(request));
+    if (waitMs > 0) return json(429, { error: 'Too many requests' }, { 'retry-after': String(Math.ceil(waitMs / 1000)) });
+    if (Number(request.headers.get('content-length')) > MAX_BODY_BYTES) return json(413, { error: 'Request too large' });
+    let body: { room?: unknown, role?: unknown, message?: { type?: unknown } };
+    try { body = await request.json(); } catch (e) { return json(400, { error: 'Invalid JSON' }); }
+    if (typeof body.room !== 'string' || !ROOM_CODE.test(body.room) || !isRole(body.role) || typeof body.message?.type !== 'string') {
+      return json(400, { error: 'Expected a room, a role and a message' });
+    }
+    const room = roomFor(body.room);
+    if (!room) return json(503, { error: 'Too many rooms' });
+    const box = room.boxes[body.role === 'user' ? 'helper' : 'user'];
+    box.log.push({ seq: box.nextSeq++, message: body.message });
+    if (box.log.length > MAX_LOG) box.log.shift();
+    box.waiters.forEach(wake => wake());
+    return json(200, { ok: true });
+  };
+
+  const poll = async (request: Request) => {
+    const params = new URL(request.url).searchParams;
+    const code = params.get('room') || '';
+    const role = params.get('role');
+    if (!ROOM_CODE.test(code) || !isRole(role)) return json(400, { error: 'Expected a room and a role' });
+    const room = roomFor(code);
+    if (!room) return json(503, { error: 'Too many rooms' });
+    const box = room.boxes[role];
+    const after = Number(params.get('after')) || 0;
+    if (box.nextSeq - 1 <= after) {
+      await new Promise<void>(resolve => {
+        const done = () => {
+          clearTimeout(timer);
+          box.waiters.delete(done);
+          resolve();
+        };
+        const timer = setTimeout(done, pollTimeoutMs);
+        box.waiters.add(done);
+      });
+    }
+    room.touched = Date.now();
+    return json(200, { messages: box.log.filter(({ seq }) => seq > after).map(({ message }) => message), cursor: box.nextSeq - 1 });
+  };
+
+  return {
+    handleSignal: async (request) => {
+      if (request.method === 'POST') return post(request);
+      if (request.method === 'GET') return poll(request);
+      return json(405, { error: 'Method not allowed' }, { allow: 'GET, POST' });
+    }
+  };
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createResampler } from '../public/worklets/resampler.js';
+
+const CAPTURE_SAMPLE_RATE = 16000;
+
+/** Resamples one second of a full-scale tone in render-quantum blocks, as the worklet sees it. */
+const resampleTone = (frequency: number, inputRate: number) => {
+  const resampler = createResampler(inputRate, CAPTURE_SAMPLE_RATE);
+  const output: number[] = [];
+  for (let offset = 0; offset < inputRate; offset += 128) {
+    const block = new Float32Array(Math.min(128, inputRate - offset));
+    block.forEach((_, i) => { block[i] = Math.sin(2 * Math.PI * frequency * (offset + i) / inputRate); });
+    resampler.process(block, sample => output.push(sample));
+  }
+  return output;
+};
+
+/** Skips the filter's start-up so only the steady state is measured. */
+const rms = (samples: number[]) => {
+  const steady = samples.slice(200);
+  return Math.sqrt(steady.reduce((sum, sample) => sum + sample * sample, 0) / steady.length);
+};
+
+describe('createResampler', () => {
+  it.each([48000, 44100])('keeps speech-band tones at %i Hz', inputRate => {
+    const output = resampleTone(1000, inputRate);
+    expect(Math.abs(output.length - CAPTURE_SAMPLE_RATE)).toBeLessThanOrEqual(64);
+    expect(rms(output)).toBeCloseTo(Math.SQRT1_2, 2);
+  });
+
+  it.each([48000, 44100])('removes a 10 kHz tone instead of aliasing it at %i Hz', inputRate => {
+    expect(rms(resampleTone(10000, inputRate))).toBeLessThan(0.01);
+  });
+
+  it('passes through at the target rate', () => {
+    expect(rms(resampleTone(3000, CAPTURE_SAMPLE_RATE))).toBeCloseTo(Math.SQRT1_2, 2);
+  });
+});
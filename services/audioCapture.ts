@@ -0,0 +1,65 @@
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+const WORKLET_URL = `${import.meta.env.BASE_URL}worklets/mic-capture-processor.js`;
+
+export interface MicLevel {
+  /** Root-mean-square amplitude of the chunk, 0..1. */
+  rms: number;
+  peak: number;
+}
+
+export interface MicCaptureOptions {
+  /** Called off the hot path with each 16 kHz Int16 chunk (128 ms by default). */
+  onChunk: (pcm: Int16Array, level: MicLevel) => void;
+  chunkSize?: number;
+}
+
+export interface MicCapture {
+  context: AudioContext;
+  stream: MediaStream;
+  stop: () => Promise<void>;
+}
+
+/**
+ * Opens the microphone at the device's native rate and hands resampling, clamping
+ * and batching to an AudioWorklet so the main thread only sees finished chunks.
+ */
+export const startMicCapture = async ({ onChunk, chunkSize = 2048 }: MicCaptureOptions): Promise<MicCapture> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 } });
+  const AudioCtx = (window.AudioContext || (window as any).webkitAudioContext);
+  const context: AudioContext = new AudioCtx();
+  try {
+    await context.audioWorklet.addModule(WORKLET_URL);
+  } catch (e) {
+    stream.getTracks().forEach(track => track.stop());
+    await context.close();
+    throw e;
+  }
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, 'mic-capture-processor', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, chunkSize }
+  });
+  node.port.onmessage = (e: MessageEvent<{ pcm: ArrayBuffer, rms: number, peak: number }>) => {
+    onChunk(new Int16Array(e.data.pcm), { rms: e.data.rms, peak: e.data.peak });
+  };
+  source.connect(node);
+  node.connect(context.destination);
+
+  let stopped = false;
+  return {
+    context,
+    stream,
+    stop: async () => {
+      if (stopped) return;
+      stopped = true;
+      node.port.postMessage('stop');
+      node.port.onmessage = null;
+      source.disconnect(); node.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      try { await context.close(); } catch (e) {}
+    }
+  };
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { describeColor, describeLight, nameColor, toBrightnessTone } from './colorDetector';
+import { createTranslator } from '../i18n';
+
+const t = createTranslator('en-US');
+
+describe('nameColor', () => {
+  it.each([
+    [[1, 0, 0], 'red'],
+    [[1, 0.5, 0], 'orange'],
+    [[1, 1, 0], 'yellow'],
+    [[0, 0.8, 0], 'green'],
+    [[0, 0.8, 0.8], 'turquoise'],
+    [[0, 0, 1], 'blue'],
+    [[0.5, 0, 1], 'purple'],
+    [[1, 0.2, 0.6], 'pink'],
+    [[1, 0.6, 0.6], 'pink'],
+    [[0.45, 0.25, 0.1], 'brown']
+  ] as const)('names %j %s', ([r, g, b], name) => {
+    expect(nameColor(r, g, b)).toBe(name);
+  });
+
+  it('names greys by lightness', () => {
+    expect(nameColor(0.02, 0.02, 0.02)).toBe('black');
+    expect(nameColor(0.5, 0.5, 0.5)).toBe('grey');
+    expect(nameColor(0.95, 0.95, 0.95)).toBe('white');
+    expect(nameColor(0.5, 0.52, 0.48)).toBe('grey');
+  });
+});
+
+describe('describeColor', () => {
+  it('adds the shade when there is one', () => {
+    expect(describeColor({ color: 'blue', shade: 'dark', brightness: 0.05 }, t)).toBe('Dark Blue');
+    expect(describeColor({ color: 'green', shade: null, brightness: 0.3 }, t)).toBe('Green');
+  });
+});
+
+describe('describeLight', () => {
+  it('names bands of brightness', () => {
+    expect(describeLight(0.01, t)).toBe('Dark');
+    expect(describeLight(0.5, t)).toBe('Bright light');
+  });
+});
+
+describe('toBrightnessTone', () => {
+  it('rises from 150 Hz to 1200 Hz', () => {
+    expect(toBrightnessTone(0).frequency).toBe(150);
+    expect(toBrightnessTone(1).frequency).toBe(1200);
+    expect(toBrightnessTone(2).frequency).toBe(1200);
+  });
+});
@@ -0,0 +1,137 @@
+
+import { Sonification } from './objectFinder';
+import { Translator } from '../i18n';
+
+export type ColorName = 'black' | 'grey' | 'white' | 'red' | 'orange' | 'brown' | 'yellow' | 'green' | 'turquoise' | 'blue' | 'purple' | 'pink';
+
+export interface ColorSample {
+  color: ColorName;
+  /** Only for chromatic colours that are clearly lighter or darker than usual. */
+  shade: 'light' | 'dark' | null;
+  /** Mean relative luminance of the sampled region, 0..1. */
+  brightness: number;
+}
+
+/** Small enough to read back every few frames on a phone. */
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 48;
+/** Centre share of each side that is sampled: what the camera is pointed straight at. */
+const CENTRE = 0.4;
+const SAMPLE_INTERVAL_MS = 150;
+/** A new colour must hold for this many samples before it is reported, so passing glances are not announced. */
+const STABLE_SAMPLES = 5;
+
+/** Hue bands in degrees for saturated pixels, checked in order. */
+const HUES: [number, ColorName][] = [[15, 'red'], [40, 'orange'], [70, 'yellow'], [165, 'green'], [195, 'turquoise'], [255, 'blue'], [290, 'purple'], [335, 'pink'], [360, 'red']];
+
+const toHsl = (r: number, g: number, b: number) => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return { hue: 0, saturation: 0, lightness };
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  const hue = max === r ? ((g - b) / delta + 6) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  return { hue: hue * 60, saturation, lightness };
+};
+
+/** Channels 0..1. Greys by lightness, everything else by hue, with dark oranges and reds called brown and pale reds pink. */
+export const nameColor = (r: number, g: number, b: number): ColorName => {
+  const { hue, saturation, lightness } = toHsl(r, g, b);
+  if (lightness < 0.1) return 'black';
+  if (saturation < 0.18 || lightness > 0.93) return lightness < 0.25 ? 'black' : lightness > 0.8 ? 'white' : 'grey';
+  const [, named] = HUES.find(([limit]) => hue < limit)!;
+  if ((named === 'orange' || named === 'red') && lightness < 0.35 && saturation < 0.75) return 'brown';
+  if (named === 'red' && lightness > 0.7) return 'pink';
+  return named;
+};
+
+/** sRGB channel 0..1 to linear light, for a perceptual brightness. */
+const linear = (channel: number) => channel <= 0.04045 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+
+/** The most common named colour among the centre pixels, with its shade taken from those pixels' average. */
+export const sampleCentre = (video: HTMLVideoElement, canvas: HTMLCanvasElement): ColorSample | null => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx || !video.videoWidth) return null;
+  canvas.width = SAMPLE_WIDTH; canvas.height = SAMPLE_HEIGHT;
+  ctx.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  const width = Math.round(SAMPLE_WIDTH * CENTRE);
+  const height = Math.round(SAMPLE_HEIGHT * CENTRE);
+  const { data } = ctx.getImageData((SAMPLE_WIDTH - width) / 2, (SAMPLE_HEIGHT - height) / 2, width, height);
+  const tally = new Map<ColorName, { count: number, lightness: number }>();
+  let luminance = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const [r, g, b] = [data[i] / 255, data[i + 1] / 255, data[i + 2] / 255];
+    luminance += 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+    const name = nameColor(r, g, b);
+    const entry = tally.get(name) ?? { count: 0, lightness: 0 };
+    entry.count++;
+    entry.lightness += toHsl(r, g, b).lightness;
+    tally.set(name, entry);
+  }
+  const [color, { count, lightness }] = [...tally.entries()].sort((a, b) => b[1].count - a[1].count)[0];
+  const mean = lightness / count;
+  const chromatic = !['black', 'grey', 'white'].includes(color);
+  return {
+    color,
+    shade: chromatic && mean > 0.7 ? 'light' : chromatic && mean < 0.25 ? 'dark' : null,
+    brightness: luminance / (data.length / 4)
+  };
+};
+
+/** Steady tone from about 150 Hz in darkness to 1200 Hz in bright light; pitch is heard logarithmically, so the scale is too. */
+export const toBrightnessTone = (brightness: number): Sonification => ({
+  pan: 0,
+  frequency: 150 * 2 ** (Math.sqrt(Math.min(1, Math.max(0, brightness))) * 3),
+  rate: 1,
+  centred: true
+});
+
+export const describeColor = ({ color, shade }: ColorSample, t: Translator) =>
+  shade ? t(`color_shade_${shade}`, { color: t(`color_${color}`) }) : t(`color_${color}`);
+
+/** Rough bands of relative luminance as the camera reports it; auto-exposure makes this a guide, not a meter. */
+export const describeLight = (brightness: number, t: Translator) =>
+  t(brightness < 0.03 ? 'light_dark' : brightness < 0.12 ? 'light_dim' : brightness < 0.4 ? 'light_moderate' : 'light_bright');
+
+export interface ColorDetectionOptions {
+  video: HTMLVideoElement;
+  canvas: HTMLCanvasElement;
+  /** Every sample, for the brightness tone. */
+  onSample: (sample: ColorSample) => void;
+  /** Once a different colour has held steady. */
+  onColorChange: (sample: ColorSample) => void;
+}
+
+export interface ColorDetection {
+  /** Latest sample, or `null` before the camera delivers frames. */
+  latest: () => ColorSample | null;
+  stop: () => void;
+}
+
+/** Samples the centre of the camera frame on the device; nothing is sent anywhere. */
+export const startColorDetection = ({ video, canvas, onSample, onColorChange }: ColorDetectionOptions): ColorDetection => {
+  let latest: ColorSample | null = null;
+  let reported: string | null = null;
+  let candidate: string | null = null;
+  let streak = 0;
+
+  const timer = window.setInterval(() => {
+    const sample = sampleCentre(video, canvas);
+    if (!sample) return;
+    latest = sample;
+    onSample(sample);
+    const key = `${sample.shade ?? ''}${sample.color}`;
+    streak = key === candidate ? streak + 1 : 1;
+    candidate = key;
+    if (streak === STABLE_SAMPLES && key !== reported) {
+      reported = key;
+      onColorChange(sample);
+    }
+  }, SAMPLE_INTERVAL_MS);
+
+  return {
+    latest: () => latest,
+    stop: () => window.clearInterval(timer)
+  };
+};
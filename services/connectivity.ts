@@ -0,0 +1,51 @@
+
+/** How often to check for signal again while offline. */
+const PROBE_INTERVAL_MS = 15000;
+const PROBE_TIMEOUT_MS = 5000;
+
+type ConnectivityListener = (online: boolean) => void;
+
+let online = navigator.onLine;
+let started = false;
+let probeTimer: number | null = null;
+const listeners = new Set<ConnectivityListener>();
+
+const setOnline = (next: boolean) => {
+  if (probeTimer !== null) { window.clearTimeout(probeTimer); probeTimer = null; }
+  if (!next) probeTimer = window.setTimeout(probe, PROBE_INTERVAL_MS);
+  if (next === online) return;
+  online = next;
+  listeners.forEach(listener => listener(online));
+};
+
+/**
+ * `navigator.onLine` only knows about the local link, so a weak cell signal reads as online.
+ * Any answer from the key proxy counts as signal: a HEAD on the POST-only token route is
+ * turned away before it reaches the model or the rate limit.
+ */
+const probe = async () => {
+  try {
+    await fetch(`${import.meta.env.VITE_KEY_PROXY_URL || ''}/api/token`, { method: 'HEAD', cache: 'no-store', signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+    setOnline(true);
+  } catch (e) {
+    setOnline(false);
+  }
+};
+
+export const startConnectivityMonitor = () => {
+  if (started) return;
+  started = true;
+  window.addEventListener('offline', () => setOnline(false));
+  window.addEventListener('online', probe);
+  if (!online) setOnline(false);
+};
+
+export const isOnline = () => online;
+
+/** A request failed for lack of signal; treat the app as offline until a probe gets through. */
+export const reportNetworkFailure = () => setOnline(false);
+
+export const subscribeConnectivity = (listener: ConnectivityListener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,88 @@
+
+import { getCueContext, playTones } from '../utils/earcons';
+import { vibrate } from '../utils/haptics';
+import { getSettings, updateSettings } from './settings';
+
+export type CueId =
+  | 'mode_vision' | 'mode_navigator' | 'mode_maps' | 'mode_find' | 'mode_color' | 'mode_helper' | 'mode_off'
+  | 'direction_left' | 'direction_right' | 'direction_ahead'
+  | 'distance_near' | 'distance_mid' | 'distance_far'
+  | 'success' | 'warning' | 'error';
+
+export type CueGroup = 'mode' | 'direction' | 'distance' | 'status';
+
+/**
+ * `speech` speaks confirmations (with vibration), `earcon` replaces them with the cue sound,
+ * `haptic` with vibration alone. Information the user asked for is always spoken.
+ */
+export type FeedbackStyle = 'speech' | 'earcon' | 'haptic';
+
+export interface Cue {
+  id: CueId;
+  group: CueGroup;
+  /** i18n key naming the cue on the practice screen. */
+  labelKey: string;
+  /** `[frequencyHz, durationMs]` blips. */
+  tones: [number, number][];
+  /** -1 (left) .. 1 (right); direction cues are also told apart by contour on mono speakers. */
+  pan?: number;
+  vibration: number | number[];
+}
+
+export const FEEDBACK_STYLES: FeedbackStyle[] = ['speech', 'earcon', 'haptic'];
+
+export const CUES: Record<CueId, Cue> = {
+  mode_vision: { id: 'mode_vision', group: 'mode', labelKey: 'mode_vision', tones: [[784, 70], [1047, 70], [1319, 110]], vibration: [40, 40, 40] },
+  mode_navigator: { id: 'mode_navigator', group: 'mode', labelKey: 'mode_navigator', tones: [[392, 120], [523, 160]], vibration: 120 },
+  mode_maps: { id: 'mode_maps', group: 'mode', labelKey: 'mode_maps', tones: [[659, 80], [523, 80], [659, 120]], vibration: [40, 40, 120] },
+  mode_find: { id: 'mode_find', group: 'mode', labelKey: 'mode_find', tones: [[1175, 60], [1175, 60], [1175, 60]], vibration: [20, 60, 20, 60, 150] },
+  mode_color: { id: 'mode_color', group: 'mode', labelKey: 'mode_color', tones: [[523, 60], [659, 60], [784, 60], [659, 60], [523, 100]], vibration: [30, 30, 60, 30, 30] },
+  mode_helper: { id: 'mode_helper', group: 'mode', labelKey: 'mode_helper', tones: [[440, 100], [480, 100], [440, 100], [480, 100]], vibration: [150, 80, 150] },
+  mode_off: { id: 'mode_off', group: 'mode', labelKey: 'cue_mode_off', tones: [[523, 90], [392, 90], [262, 160]], vibration: [150, 50, 30] },
+  direction_left: { id: 'direction_left', group: 'direction', labelKey: 'cue_left', tones: [[660, 80], [494, 120]], pan: -1, vibration: [60, 80, 60] },
+  direction_right: { id: 'direction_right', group: 'direction', labelKey: 'cue_right', tones: [[494, 80], [660, 120]], pan: 1, vibration: [60, 80, 60, 80, 60] },
+  direction_ahead: { id: 'direction_ahead', group: 'direction', labelKey: 'cue_ahead', tones: [[587, 80], [587, 120]], vibration: 200 },
+  distance_near: { id: 'distance_near', group: 'distance', labelKey: 'cue_near', tones: [[988, 50], [988, 50], [988, 50], [988, 50]], vibration: [30, 30, 30, 30, 30, 30, 30] },
+  distance_mid: { id: 'distance_mid', group: 'distance', labelKey: 'cue_mid', tones: [[784, 90], [784, 90]], vibration: [60, 100, 60] },
+  distance_far: { id: 'distance_far', group: 'distance', labelKey: 'cue_far', tones: [[587, 200]], vibration: 150 },
+  success: { id: 'success', group: 'status', labelKey: 'cue_success', tones: [[523, 80], [659, 80], [784, 160]], vibration: [15, 40, 15, 80] },
+  warning: { id: 'warning', group: 'status', labelKey: 'cue_warning', tones: [[740, 120], [740, 120], [740, 120]], vibration: [200, 100, 200, 100, 200] },
+  error: { id: 'error', group: 'status', labelKey: 'cue_error', tones: [[311, 150], [233, 250]], vibration: [300, 100, 300] }
+};
+
+/** Practice-screen order. */
+export const CUE_ORDER = Object.keys(CUES) as CueId[];
+
+export const getFeedbackStyle = (): FeedbackStyle => getSettings().feedback;
+
+export const setFeedbackStyle = (style: FeedbackStyle) => updateSettings({ feedback: style });
+
+export const cueDurationMs = (id: CueId) => CUES[id].tones.reduce((total, [, ms]) => total + ms, 0);
+
+/** Near is within 15 m, mid within 50 m. */
+export const distanceCue = (meters: number): CueId =>
+  meters < 15 ? 'distance_near' : meters < 50 ? 'distance_mid' : 'distance_far';
+
+export const playCue = (id: CueId, { sound = true, vibration = true } = {}) => {
+  const cue = CUES[id];
+  if (vibration) vibrate(cue.vibration);
+  if (!sound) return;
+  if (cue.pan === undefined) { playTones(cue.tones); return; }
+  try {
+    const ctx = getCueContext();
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = cue.pan;
+    panner.connect(ctx.destination);
+    playTones(cue.tones, 0.15, panner);
+    setTimeout(() => panner.disconnect(), cueDurationMs(id) + 200);
+  } catch (e) { playTones(cue.tones); }
+};
+
+/** Accompanies speech the app is about to say anyway: vibration, plus the earcon if the user prefers earcons. */
+export const signalCue = (id: CueId, style = getFeedbackStyle()) => playCue(id, { sound: style === 'earcon' });
+
+/** A confirmation that is only spoken when the user prefers speech; otherwise the cue stands in for it. */
+export const confirmCue = (id: CueId, speak: () => void, style = getFeedbackStyle()) => {
+  signalCue(id, style);
+  if (style === 'speech') speak();
+};
@@ -0,0 +1,65 @@
+
+export const FRAMING_ISSUES = ['cut_off_left', 'cut_off_right', 'cut_off_top', 'cut_off_bottom', 'too_far', 'too_close', 'blurry', 'too_dark', 'no_text'] as const;
+export type Framing = 'ok' | typeof FRAMING_ISSUES[number];
+
+export interface ReadingResult {
+  framing: Framing;
+  paragraphs: string[];
+}
+
+/** Paragraphs longer than this are split at sentence ends so one swipe never skips a whole page. */
+const MAX_PARAGRAPH_CHARS = 600;
+/** Longest side of the still sent for reading; larger frames add upload time without helping OCR. */
+const CAPTURE_MAX_SIDE = 2048;
+
+export const READING_PROMPT = `You are reading a document, label, sign or screen aloud for a BLIND person.
+TASK: Transcribe ALL visible text VERBATIM. Do not summarise, translate, correct or describe the image.
+ORDER: Follow natural reading order: headings first, then columns top to bottom, left column before right; keep list items and table rows in order, reading each table row left to right.
+FORMAT: Put a blank line between paragraphs, list items, table rows and separate blocks of text.
+FRAMING: Also report how the camera should move so the text can be read completely:
+- "cut_off_left" / "cut_off_right" / "cut_off_top" / "cut_off_bottom" when text runs past that edge of the image,
+- "too_far", "too_close", "blurry" or "too_dark" when the text is hard to read for that reason,
+- "no_text" when no text is visible, otherwise "ok".
+Reply with JSON: {"framing": one of the values above, "text": the transcription}.`;
+
+/** Splits on blank lines, then breaks over-long paragraphs at sentence boundaries. */
+export const splitParagraphs = (text: string): string[] => text
+  .split(/\n\s*\n/)
+  .map(block => block.replace(/\s*\n\s*/g, ' ').trim())
+  .filter(Boolean)
+  .flatMap(block => {
+    if (block.length <= MAX_PARAGRAPH_CHARS) return [block];
+    const pieces: string[] = [];
+    let current = '';
+    for (const sentence of block.match(/[^.!?।]+[.!?।]*\s*/g) || [block]) {
+      if (current && current.length + sentence.length > MAX_PARAGRAPH_CHARS) { pieces.push(current.trim()); current = ''; }
+      current += sentence;
+    }
+    if (current.trim()) pieces.push(current.trim());
+    return pieces;
+  });
+
+/** Tolerates models that wrap the JSON in a code fence or ignore the format and return plain text. */
+export const parseReadingResult = (raw: string): ReadingResult => {
+  const body = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '');
+  try {
+    const parsed = JSON.parse(body);
+    const framing: Framing = FRAMING_ISSUES.includes(parsed.framing) ? parsed.framing : 'ok';
+    const paragraphs = splitParagraphs(typeof parsed.text === 'string' ? parsed.text : '');
+    return { framing: paragraphs.length === 0 && framing === 'ok' ? 'no_text' : framing, paragraphs };
+  } catch (e) {
+    const paragraphs = splitParagraphs(raw);
+    return { framing: paragraphs.length ? 'ok' : 'no_text', paragraphs };
+  }
+};
+
+/** Grabs the current video frame at (near) full sensor resolution for text extraction. */
+export const captureStill = (video: HTMLVideoElement, canvas: HTMLCanvasElement) => {
+  const scale = Math.min(1, CAPTURE_MAX_SIDE / Math.max(video.videoWidth, video.videoHeight));
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.92).split(',')[1];
+};
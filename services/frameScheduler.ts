@@ -0,0 +1,143 @@
+
+import { UplinkMeter } from './uplinkMeter';
+
+const TICK_MS = 250;
+const MIN_INTERVAL_MS = 500;
+const MAX_INTERVAL_MS = 4000;
+/** Mean per-pixel change (0..1) below which the scene counts as static, and above which as fully moving. */
+const STATIC_CHANGE = 0.02;
+const MOVING_CHANGE = 0.1;
+/** A jump this large is sent straight away (subject to MIN_INTERVAL_MS), e.g. something entering the frame. */
+const SPIKE_CHANGE = 0.18;
+/** Sends in a row that found the socket drained before the frame size steps back up. */
+const CLEAR_SENDS_TO_STEP_UP = 3;
+const PROBE_WIDTH = 32;
+const PROBE_HEIGHT = 24;
+
+const QUALITY_TIERS = [
+  { width: 240, height: 180, quality: 0.3 },
+  { width: 320, height: 240, quality: 0.4 },
+  { width: 480, height: 360, quality: 0.5 },
+  { width: 640, height: 480, quality: 0.6 }
+];
+
+export interface FrameStats {
+  framesSent: number;
+  bytesSent: number;
+  framesSkipped: number;
+  /** Most recent inter-frame change, 0..1. */
+  change: number;
+  intervalMs: number;
+  width: number;
+  quality: number;
+  /** Measured uplink in kbit/s; `null` until the connection has been measured. */
+  throughputKbps: number | null;
+}
+
+export interface FrameSchedulerOptions {
+  video: HTMLVideoElement;
+  canvas: HTMLCanvasElement;
+  send: (base64Jpeg: string) => void;
+  /** Frames are withheld while this returns true, e.g. while the model is speaking. */
+  isPaused: () => boolean;
+  /** The current connection's meter; without one the frame size stays put. */
+  getUplink: () => UplinkMeter | undefined;
+  onStats?: (stats: FrameStats) => void;
+}
+
+export interface FrameScheduler {
+  stop: () => void;
+  getStats: () => FrameStats;
+}
+
+/**
+ * Sends camera frames when the scene changes instead of on a fixed clock: a tiny grayscale
+ * probe is diffed every tick, the send interval shrinks as motion grows, and the JPEG size
+ * steps down whenever the connection hasn't finished sending the last frame by the time the
+ * next is due, and back up after a few sends that found it clear.
+ */
+export const startFrameScheduler = ({ video, canvas, send, isPaused, getUplink, onStats }: FrameSchedulerOptions): FrameScheduler => {
+  const probe = document.createElement('canvas');
+  probe.width = PROBE_WIDTH; probe.height = PROBE_HEIGHT;
+  const probeCtx = probe.getContext('2d', { willReadFrequently: true });
+  let previous: Uint8ClampedArray | null = null;
+  let lastSentAt = 0;
+  let tier = 1;
+  let lastFrameBytes = 0;
+  let clearSends = 0;
+
+  const stats: FrameStats = {
+    framesSent: 0, bytesSent: 0, framesSkipped: 0, change: 0,
+    intervalMs: MAX_INTERVAL_MS, width: QUALITY_TIERS[tier].width, quality: QUALITY_TIERS[tier].quality,
+    throughputKbps: null
+  };
+
+  const measureChange = () => {
+    if (!probeCtx) return 1;
+    probeCtx.drawImage(video, 0, 0, PROBE_WIDTH, PROBE_HEIGHT);
+    const pixels = probeCtx.getImageData(0, 0, PROBE_WIDTH, PROBE_HEIGHT).data;
+    let diff = 0;
+    if (previous) {
+      for (let i = 0; i < pixels.length; i += 4) {
+        const luma = (pixels[i] * 299 + pixels[i + 1] * 587 + pixels[i + 2] * 114) / 1000;
+        const prevLuma = (previous[i] * 299 + previous[i + 1] * 587 + previous[i + 2] * 114) / 1000;
+        diff += Math.abs(luma - prevLuma);
+      }
+    }
+    const change = previous ? diff / (PROBE_WIDTH * PROBE_HEIGHT) / 255 : 1;
+    previous = pixels;
+    return change;
+  };
+
+  /** Runs just before a send, so the backlog shows whether the link kept up with the last frame and the audio. */
+  const adaptQuality = () => {
+    const uplink = getUplink();
+    if (!uplink) return;
+    stats.throughputKbps = uplink.kbps() ?? stats.throughputKbps;
+    if (uplink.backlog() > lastFrameBytes / 2) {
+      clearSends = 0;
+      if (tier > 0) tier--;
+    } else if (++clearSends >= CLEAR_SENDS_TO_STEP_UP && tier < QUALITY_TIERS.length - 1) {
+      clearSends = 0;
+      tier++;
+    }
+  };
+
+  const sendFrame = (now: number) => {
+    adaptQuality();
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const { width, height, quality } = QUALITY_TIERS[tier];
+    canvas.width = width; canvas.height = height;
+    ctx.drawImage(video, 0, 0, width, height);
+    const base64 = canvas.toDataURL('image/jpeg', quality).split(',')[1];
+    const bytes = Math.floor(base64.length * 3 / 4);
+    send(base64);
+    lastSentAt = now;
+    lastFrameBytes = bytes;
+    stats.framesSent++;
+    stats.bytesSent += bytes;
+    stats.width = width;
+    stats.quality = quality;
+  };
+
+  const interval = window.setInterval(() => {
+    if (video.readyState !== 4) return;
+    const now = Date.now();
+    const change = measureChange();
+    stats.change = change;
+    const motion = Math.min(1, Math.max(0, (change - STATIC_CHANGE) / (MOVING_CHANGE - STATIC_CHANGE)));
+    stats.intervalMs = Math.round(MAX_INTERVAL_MS - (MAX_INTERVAL_MS - MIN_INTERVAL_MS) * motion);
+    const elapsed = now - lastSentAt;
+    const due = elapsed >= stats.intervalMs || (change >= SPIKE_CHANGE && elapsed >= MIN_INTERVAL_MS);
+    if (!due) return;
+    if (isPaused()) { stats.framesSkipped++; return; }
+    sendFrame(now);
+    onStats?.({ ...stats });
+  }, TICK_MS);
+
+  return {
+    stop: () => window.clearInterval(interval),
+    getStats: () => ({ ...stats })
+  };
+};
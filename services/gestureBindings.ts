@@ -0,0 +1,137 @@
+
+import { SessionMode } from '../types';
+import { GestureId, SwipeDirection } from '../utils/gestures';
+import { Translator } from '../i18n';
+import { MODES, MODE_ORDER } from './modes';
+import { getSettings, updateSettings } from './settings';
+
+/** What a gesture on the READY screen can do; `mode_*` enters that mode or repeats its gesture. */
+export type GestureAction =
+  | `mode_${SessionMode}`
+  | 'primary' | 'history' | 'hands_free' | 'reading' | 'captions' | 'settings' | 'stop_speech' | 'stop_mode' | 'turn_off'
+  | 'places' | 'save_place' | 'place_directions' | 'sos';
+
+/** Stored differences from the defaults; `none` unbinds a gesture that has a default. */
+export type GestureBindingOverrides = Record<GestureId, string>;
+
+export type GestureBindings = Record<GestureId, GestureAction>;
+
+/** Editor order. */
+export const GESTURE_ACTIONS: GestureAction[] = [
+  ...MODE_ORDER.map(id => `mode_${id}` as GestureAction),
+  'primary', 'history', 'hands_free', 'reading', 'captions', 'settings', 'stop_speech', 'stop_mode', 'turn_off',
+  'places', 'save_place', 'place_directions', 'sos'
+];
+
+const DIRECTIONS: SwipeDirection[] = ['LEFT', 'RIGHT', 'UP', 'DOWN'];
+const isVertical = (direction: SwipeDirection) => direction === 'UP' || direction === 'DOWN';
+
+/**
+ * Gestures that can be bound, in the order they are offered. A single tap is left out so exploring
+ * the screen never triggers anything; three-finger swipes are left to the operating system.
+ */
+export const BINDABLE_GESTURES: GestureId[] = [
+  'TAP_2', 'TAP_3', 'TAP_4', 'TAP_5',
+  'TWO_FINGER_TAP_1', 'TWO_FINGER_TAP_2', 'THREE_FINGER_TAP_1', 'THREE_FINGER_TAP_2', 'THREE_FINGER_TAP_3',
+  ...DIRECTIONS.map(direction => `SWIPE_${direction}`),
+  ...DIRECTIONS.map(direction => `TWO_FINGER_SWIPE_${direction}`),
+  ...DIRECTIONS.flatMap(first => DIRECTIONS.filter(second => isVertical(first) !== isVertical(second)).map(second => `L_${first}_${second}`)),
+  'CIRCLE_CW', 'CIRCLE_CCW'
+];
+
+/** Each mode's own entry gesture, then the global actions the app has always had in these places. */
+export const DEFAULT_BINDINGS: GestureBindings = {
+  ...Object.fromEntries(MODE_ORDER.flatMap(id => {
+    const { gesture, entryTaps } = MODES[id];
+    const defaults: GestureId[] = [...(gesture ? [gesture] : []), ...(entryTaps ? [`TAP_${entryTaps}`] : [])];
+    return defaults.map(gestureId => [gestureId, `mode_${id}`]);
+  })),
+  TAP_2: 'primary',
+  TAP_3: 'history',
+  TAP_4: 'hands_free',
+  SWIPE_UP: 'turn_off',
+  TWO_FINGER_TAP_1: 'stop_speech',
+  TWO_FINGER_SWIPE_UP: 'stop_mode',
+  THREE_FINGER_TAP_1: 'settings',
+  TWO_FINGER_TAP_2: 'places',
+  TWO_FINGER_SWIPE_DOWN: 'save_place',
+  TWO_FINGER_SWIPE_RIGHT: 'place_directions',
+  // Hard to make by accident; the countdown that follows can still be cancelled.
+  THREE_FINGER_TAP_3: 'sos'
+};
+
+const isAction = (value: string): value is GestureAction => (GESTURE_ACTIONS as string[]).includes(value);
+
+export const getGestureBindings = (): GestureBindings => {
+  const bindings: GestureBindings = { ...DEFAULT_BINDINGS };
+  Object.entries(getSettings().gestureBindings).forEach(([gesture, action]) => {
+    if (!BINDABLE_GESTURES.includes(gesture)) return;
+    if (isAction(action)) bindings[gesture] = action;
+    else delete bindings[gesture];
+  });
+  return bindings;
+};
+
+const saveBindings = (bindings: GestureBindings) => {
+  const overrides: GestureBindingOverrides = {};
+  BINDABLE_GESTURES.forEach(gesture => {
+    if (bindings[gesture] !== DEFAULT_BINDINGS[gesture]) overrides[gesture] = bindings[gesture] ?? 'none';
+  });
+  updateSettings({ gestureBindings: overrides });
+};
+
+export const actionForGesture = (gesture: GestureId, bindings = getGestureBindings()): GestureAction | null => bindings[gesture] ?? null;
+
+export const gesturesForAction = (action: GestureAction, bindings = getGestureBindings()) =>
+  BINDABLE_GESTURES.filter(gesture => bindings[gesture] === action);
+
+/** Makes `gesture` the only one for `action`; resolves to the action that lost it, if any. */
+export const bindGesture = (action: GestureAction, gesture: GestureId): GestureAction | null => {
+  const bindings = getGestureBindings();
+  const displaced = bindings[gesture] && bindings[gesture] !== action ? bindings[gesture] : null;
+  gesturesForAction(action, bindings).forEach(previous => { delete bindings[previous]; });
+  bindings[gesture] = action;
+  saveBindings(bindings);
+  return displaced;
+};
+
+export const clearAction = (action: GestureAction) => {
+  const bindings = getGestureBindings();
+  gesturesForAction(action, bindings).forEach(gesture => { delete bindings[gesture]; });
+  saveBindings(bindings);
+};
+
+/** Restores the action's default gestures, taking them back from whatever they were rebound to. */
+export const resetAction = (action: GestureAction) => {
+  const bindings = getGestureBindings();
+  gesturesForAction(action, bindings).forEach(gesture => { delete bindings[gesture]; });
+  gesturesForAction(action, DEFAULT_BINDINGS).forEach(gesture => { bindings[gesture] = action; });
+  saveBindings(bindings);
+};
+
+export const resetAllBindings = () => updateSettings({ gestureBindings: {} });
+
+export const modeForAction = (action: GestureAction): SessionMode | null =>
+  action.startsWith('mode_') ? action.slice('mode_'.length) as SessionMode : null;
+
+export const actionLabel = (action: GestureAction, t: Translator) => {
+  const mode = modeForAction(action);
+  return mode ? t(MODES[mode].labelKey) : t(`gesture_action_${action}`);
+};
+
+const directionLabel = (direction: string, t: Translator) => t(`dir_${direction.toLowerCase()}`);
+
+/** Spoken name of a gesture id, e.g. "two-finger swipe left" or "down then right". */
+export const describeGesture = (gesture: GestureId, t: Translator) => {
+  const [, prefix = '', body] = gesture.match(/^((?:TWO|THREE)_FINGER_)?(.*)$/) ?? [];
+  let name = body;
+  const taps = body.match(/^TAP_(\d+)$/);
+  const lShape = body.match(/^L_([A-Z]+)_([A-Z]+)$/);
+  if (taps) name = Number(taps[1]) === 1 ? t('gesture_tap') : t('taps_hint', { count: Number(taps[1]) });
+  else if (body.startsWith('SWIPE_')) name = t('gesture_swipe', { direction: directionLabel(body.slice('SWIPE_'.length), t) });
+  else if (lShape) name = t('gesture_l_shape', { first: directionLabel(lShape[1], t), second: directionLabel(lShape[2], t) });
+  else if (body === 'CIRCLE_CW' || body === 'CIRCLE_CCW') name = t(`gesture_${body.toLowerCase()}`);
+  if (prefix === 'TWO_FINGER_') return t('gesture_two_finger', { gesture: name });
+  if (prefix === 'THREE_FINGER_') return t('gesture_three_finger', { gesture: name });
+  return name;
+};
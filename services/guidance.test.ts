@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { createRouteTracker, GuidanceEvent } from './guidance';
+import { Route } from './routing';
+import { offsetMeters } from '../utils/geo';
+
+const ORIGIN = { latitude: 51.5, longitude: -0.12 };
+const at = (north: number, east: number) => offsetMeters(ORIGIN, north, east);
+
+/** 100 m north, then right for 100 m. */
+const ROUTE: Route = {
+  destination: 'Library',
+  steps: [
+    { location: at(0, 0), maneuver: 'depart' },
+    { location: at(100, 0), maneuver: 'right', street: 'High Street' },
+    { location: at(100, 100), maneuver: 'arrive' }
+  ]
+};
+
+const types = (events: GuidanceEvent[]) => events.map(event => event.type);
+
+describe('createRouteTracker', () => {
+  it('announces the first maneuver, then its approach once', () => {
+    const tracker = createRouteTracker(ROUTE);
+    const first = tracker.update(at(0, 0));
+    expect(types(first.events)).toEqual(['start']);
+    expect(first.progress?.step).toBe(ROUTE.steps[1]);
+    expect(first.progress?.distance).toBeCloseTo(100, 0);
+
+    expect(types(tracker.update(at(75, 0)).events)).toEqual(['approaching']);
+    expect(tracker.update(at(80, 0)).events).toEqual([]);
+  });
+
+  it('moves on to the next maneuver once one is reached', () => {
+    const tracker = createRouteTracker(ROUTE);
+    tracker.update(at(0, 0));
+    const { events, progress } = tracker.update(at(95, 0));
+    expect(types(events)).toEqual(['turn']);
+    const turn = events[0] as Extract<GuidanceEvent, { type: 'turn' }>;
+    expect(turn.step).toBe(ROUTE.steps[1]);
+    expect(turn.next).toBe(ROUTE.steps[2]);
+    expect(progress?.step).toBe(ROUTE.steps[2]);
+  });
+
+  it('arrives at the last step and then stays quiet', () => {
+    const tracker = createRouteTracker(ROUTE);
+    tracker.update(at(0, 0));
+    tracker.update(at(100, 0));
+    const { events, progress } = tracker.update(at(100, 95));
+    expect(types(events)).toContain('arrived');
+    expect(progress).toBeNull();
+    expect(tracker.update(at(100, 100))).toEqual({ events: [], progress: null });
+  });
+
+  it('calls off-route only after consecutive fixes away from the leg, and back on route once it returns', () => {
+    const tracker = createRouteTracker(ROUTE);
+    tracker.update(at(0, 0));
+    expect(tracker.update(at(50, 50)).events).toEqual([]);
+    const off = tracker.update(at(50, 50));
+    expect(types(off.events)).toEqual(['offRoute']);
+    expect(off.progress?.offRoute).toBe(true);
+    expect(tracker.update(at(50, 50)).events).toEqual([]);
+    const back = tracker.update(at(60, 0));
+    expect(types(back.events)).toEqual(['backOnRoute']);
+    expect(back.progress?.offRoute).toBe(false);
+  });
+
+  it('forgives a single stray fix', () => {
+    const tracker = createRouteTracker(ROUTE);
+    tracker.update(at(0, 0));
+    tracker.update(at(50, 50));
+    tracker.update(at(50, 0));
+    expect(tracker.update(at(50, 50)).events).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+
+import { Coordinates } from '../types';
+import { Route, RouteStep } from './routing';
+import { distanceMeters, distanceToSegmentMeters } from '../utils/geo';
+
+const APPROACH_METERS = 30;
+const REACHED_METERS = 10;
+const OFF_ROUTE_METERS = 35;
+const OFF_ROUTE_FIXES = 2;
+/** Fixes worse than this are ignored rather than trusted for turn or off-route decisions. */
+const MAX_ACCURACY_METERS = 50;
+/** A single watch timeout is routine under trees or between buildings; only a run of them means the signal is gone. */
+const LOST_AFTER_ERRORS = 3;
+
+export type GuidanceEvent =
+  | { type: 'start', step: RouteStep, distance: number }
+  | { type: 'approaching', step: RouteStep, distance: number }
+  | { type: 'turn', step: RouteStep, next: RouteStep, distance: number }
+  | { type: 'offRoute', distance: number }
+  | { type: 'backOnRoute', step: RouteStep, distance: number }
+  | { type: 'arrived' };
+
+export interface GuidanceProgress {
+  step: RouteStep;
+  distance: number;
+  offRoute: boolean;
+}
+
+/** Pure state machine over position fixes; `startGuidance` wires it to the geolocation watch. */
+export const createRouteTracker = (route: Route) => {
+  let target = 1;
+  let started = false;
+  let approachAnnounced = false;
+  let offRouteCount = 0;
+  let offRoute = false;
+  let arrived = false;
+
+  const update = (position: Coordinates): { events: GuidanceEvent[], progress: GuidanceProgress | null } => {
+    const events: GuidanceEvent[] = [];
+    if (arrived) return { events, progress: null };
+
+    let step = route.steps[target];
+    let distance = distanceMeters(position, step.location);
+    if (!started) { started = true; events.push({ type: 'start', step, distance }); }
+
+    while (distance <= REACHED_METERS) {
+      if (step.maneuver === 'arrive') {
+        arrived = true;
+        events.push({ type: 'arrived' });
+        return { events, progress: null };
+      }
+      target++;
+      const next = route.steps[target];
+      distance = distanceMeters(position, next.location);
+      events.push({ type: 'turn', step, next, distance });
+      step = next;
+      approachAnnounced = false;
+      offRouteCount = 0;
+    }
+
+    if (!approachAnnounced && distance <= APPROACH_METERS) {
+      approachAnnounced = true;
+      events.push({ type: 'approaching', step, distance });
+    }
+
+    const deviation = distanceToSegmentMeters(position, route.steps[target - 1].location, step.location);
+    if (deviation > OFF_ROUTE_METERS) {
+      offRouteCount++;
+      if (!offRoute && offRouteCount >= OFF_ROUTE_FIXES) { offRoute = true; events.push({ type: 'offRoute', distance: deviation }); }
+    } else {
+      offRouteCount = 0;
+      if (offRoute) { offRoute = false; events.push({ type: 'backOnRoute', step, distance }); }
+    }
+
+    return { events, progress: { step, distance, offRoute } };
+  };
+
+  return { update };
+};
+
+export interface GuidanceSession {
+  stop: () => void;
+}
+
+export interface GuidanceCallbacks {
+  onEvent: (event: GuidanceEvent) => void;
+  onProgress: (progress: GuidanceProgress | null) => void;
+  /** Called at once when permission is denied, otherwise once per run of failed fixes. */
+  onError: (error: GeolocationPositionError) => void;
+}
+
+/** `initial` (e.g. the fix the route was planned from) is processed immediately so the first announcement doesn't wait for the watch. */
+export const startGuidance = (route: Route, { onEvent, onProgress, onError }: GuidanceCallbacks, initial?: Coordinates): GuidanceSession => {
+  const tracker = createRouteTracker(route);
+  if (initial) {
+    const { events, progress } = tracker.update(initial);
+    events.forEach(onEvent);
+    onProgress(progress);
+  }
+  let failures = 0;
+  const watchId = navigator.geolocation.watchPosition(
+    (pos) => {
+      failures = 0;
+      if (pos.coords.accuracy > MAX_ACCURACY_METERS) return;
+      const { events, progress } = tracker.update({ latitude: pos.coords.latitude, longitude: pos.coords.longitude });
+      events.forEach(onEvent);
+      onProgress(progress);
+    },
+    (error) => {
+      failures++;
+      if (error.code === error.PERMISSION_DENIED || failures === LOST_AFTER_ERRORS) onError(error);
+    },
+    { enableHighAccuracy: true, maximumAge: 2000, timeout: 20000 }
+  );
+  return { stop: () => navigator.geolocation.clearWatch(watchId) };
+};
@@ -0,0 +1,120 @@
+
+import { normalizeDegrees } from '../utils/geo';
+
+const CALIBRATION_KEY = 'vision_voice_heading_calibration';
+const SMOOTHING = 0.2;
+
+export interface HeadingReading {
+  /** Degrees clockwise from north, 0..360. */
+  degrees: number;
+  /** False when only relative orientation is available and no compass offset has been calibrated. */
+  absolute: boolean;
+  timestamp: number;
+}
+
+export interface HeadingCalibration {
+  /** Added to the relative `alpha`-derived heading to make it compass-relative. */
+  offset: number;
+  absolute: boolean;
+  updatedAt: number;
+}
+
+type HeadingListener = (reading: HeadingReading) => void;
+
+const deviceKey = () => `${navigator.userAgent}|${screen.width}x${screen.height}`;
+
+const loadCalibrations = (): Record<string, HeadingCalibration> => {
+  try { return JSON.parse(localStorage.getItem(CALIBRATION_KEY) || '{}'); } catch (e) { return {}; }
+};
+
+export const getCalibration = (): HeadingCalibration | null => loadCalibrations()[deviceKey()] || null;
+
+let calibration = getCalibration();
+let current: HeadingReading | null = null;
+let smoothed: { sin: number, cos: number } | null = null;
+let lastRelative: number | null = null;
+let lastAbsolute: number | null = null;
+let tracking = false;
+const listeners = new Set<HeadingListener>();
+
+const emit = (raw: number, absolute: boolean) => {
+  const rad = raw * Math.PI / 180;
+  smoothed = smoothed
+    ? { sin: smoothed.sin * (1 - SMOOTHING) + Math.sin(rad) * SMOOTHING, cos: smoothed.cos * (1 - SMOOTHING) + Math.cos(rad) * SMOOTHING }
+    : { sin: Math.sin(rad), cos: Math.cos(rad) };
+  current = { degrees: normalizeDegrees(Math.atan2(smoothed.sin, smoothed.cos) * 180 / Math.PI), absolute, timestamp: Date.now() };
+  listeners.forEach(listener => listener(current!));
+};
+
+const handleAbsolute = (event: DeviceOrientationEvent) => {
+  const compass = (event as any).webkitCompassHeading as number | undefined;
+  if (typeof compass === 'number') { lastAbsolute = compass; emit(compass, true); return; }
+  if (event.alpha === null) return;
+  lastAbsolute = normalizeDegrees(360 - event.alpha);
+  emit(lastAbsolute, true);
+};
+
+const handleRelative = (event: DeviceOrientationEvent) => {
+  if ((event as any).webkitCompassHeading !== undefined || event.absolute) { handleAbsolute(event); return; }
+  if (event.alpha === null) return;
+  lastRelative = normalizeDegrees(360 - event.alpha);
+  // Absolute events win when the platform sends both.
+  if (lastAbsolute !== null) return;
+  emit(normalizeDegrees(lastRelative + (calibration?.offset || 0)), Boolean(calibration?.absolute));
+};
+
+/** Keeps listening to device orientation for the life of the app; safe to call repeatedly. */
+export const startHeadingTracking = () => {
+  if (tracking) return;
+  tracking = true;
+  window.addEventListener('deviceorientationabsolute' as any, handleAbsolute);
+  window.addEventListener('deviceorientation', handleRelative);
+};
+
+export const stopHeadingTracking = () => {
+  if (!tracking) return;
+  tracking = false;
+  window.removeEventListener('deviceorientationabsolute' as any, handleAbsolute);
+  window.removeEventListener('deviceorientation', handleRelative);
+};
+
+export const getHeading = () => current;
+
+export const subscribeHeading = (listener: HeadingListener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Stores this device's offset between relative orientation and the compass, measured at
+ * the end of the calibration flow. Without a compass the offset anchors "north" to the
+ * direction the user faced when calibration finished.
+ */
+export const saveCalibration = () => {
+  if (lastRelative === null && lastAbsolute === null) return;
+  const absolute = lastAbsolute !== null;
+  calibration = {
+    offset: absolute && lastRelative !== null ? normalizeDegrees(lastAbsolute! - lastRelative) : normalizeDegrees(-(lastRelative ?? 0)),
+    absolute,
+    updatedAt: Date.now()
+  };
+  localStorage.setItem(CALIBRATION_KEY, JSON.stringify({ ...loadCalibrations(), [deviceKey()]: calibration }));
+};
+
+const CARDINALS = ['north', 'north-east', 'east', 'south-east', 'south', 'south-west', 'west', 'north-west'];
+
+export const toCardinal = (degrees: number) => CARDINALS[Math.round(normalizeDegrees(degrees) / 45) % 8];
+
+/** 12 is straight ahead, 3 is right, 6 is behind. */
+export const toClockFace = (bearing: number, heading: number) => {
+  const hour = Math.round(normalizeDegrees(bearing - heading) / 30) % 12;
+  return hour === 0 ? 12 : hour;
+};
+
+/** Model-facing orientation context; empty when no heading is known. */
+export const headingPromptContext = (reading: HeadingReading | null = current) => {
+  if (!reading) return '';
+  const degrees = Math.round(reading.degrees);
+  const facing = reading.absolute ? `${degrees}° (${toCardinal(degrees)})` : `${degrees}° relative to where they calibrated (no compass, so treat this as approximate)`;
+  return `ORIENTATION: The user is currently facing ${facing}. Give every landmark and turn as a clock-face direction relative to this heading (12 o'clock is straight ahead, 3 o'clock is to their right) together with a distance in metres, for example "at your 2 o'clock, 40 metres".`;
+};
@@ -0,0 +1,282 @@
+
+import { SignalMessage, SignalingChannel, SignalingTransport } from './signaling';
+import { CueId } from './cues';
+
+/** Public STUN only; peers that both sit behind strict NATs would need a TURN server here. */
+const ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+const CUE_CHANNEL = 'cues';
+const MICROPHONE: MediaTrackConstraints = { echoCancellation: true, noiseSuppression: true };
+/** A join request nobody answers is declined after this long. */
+const REQUEST_TIMEOUT_MS = 60000;
+const MAX_NAME_LENGTH = 40;
+
+/** `request`: a helper asked to join and waits for the user to accept. */
+export type HelperCallState = 'waiting' | 'request' | 'connecting' | 'connected';
+
+/**
+ * `hangup`: the other side ended it; `declined`: the user turned the helper away; `failed`: the
+ * connection dropped; `microphone`: no microphone access; `unreachable`: the signaling relay didn't answer.
+ */
+export type HelperCallEnd = 'hangup' | 'declined' | 'failed' | 'microphone' | 'unreachable';
+
+/** Where the helper tapped on the video, 0..1 from the top-left of the frame. */
+export interface HelperCue {
+  x: number;
+  y: number;
+}
+
+/**
+ * 128 random bits as hex. The room is the only thing keeping strangers out, so it is only ever
+ * shared as a link, never read aloud.
+ */
+export const createRoomCode = () => Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const helperLink = (room: string) => `${location.origin}${location.pathname}?helper=${room}`;
+
+/** Accepts the bare room or a pasted link; `null` when neither holds a full-length room. */
+export const parseRoom = (input: string) => {
+  const room = input.match(/(?:helper=)?([0-9a-f]{32})\b/i)?.[1];
+  return room ? room.toLowerCase() : null;
+};
+
+/** The middle fifth of the frame counts as straight ahead. */
+export const helperCueId = ({ x }: HelperCue): CueId => x < 0.4 ? 'direction_left' : x > 0.6 ? 'direction_right' : 'direction_ahead';
+
+export const isCue = (value: unknown): value is HelperCue => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { x, y } = value as Record<string, unknown>;
+  return typeof x === 'number' && typeof y === 'number' && x >= 0 && x <= 1 && y >= 0 && y <= 1;
+};
+
+const cleanName = (name: string) => name.replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH);
+
+/** A peer connection that trickles candidates through `signaling`, holding back any that arrive before the remote description. */
+const createPeer = (signaling: SignalingChannel, id: string) => {
+  const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+  const pending: RTCIceCandidateInit[] = [];
+  pc.onicecandidate = ({ candidate }) => { if (candidate) signaling.send({ type: 'candidate', id, candidate: candidate.toJSON() }).catch(() => {}); };
+  return {
+    pc,
+    addCandidate: (candidate: RTCIceCandidateInit) => {
+      if (pc.remoteDescription) pc.addIceCandidate(candidate).catch(() => {});
+      else pending.push(candidate);
+    },
+    setRemote: async (description: RTCSessionDescriptionInit) => {
+      await pc.setRemoteDescription(description);
+      pending.splice(0).forEach(candidate => pc.addIceCandidate(candidate).catch(() => {}));
+    }
+  };
+};
+
+const isMicrophoneError = (error: unknown) => error instanceof DOMException && ['NotAllowedError', 'NotFoundError', 'NotReadableError', 'SecurityError'].includes(error.name);
+
+export interface HelperCallOptions {
+  transport: SignalingTransport;
+  room: string;
+  /** The rear camera stream already shown on screen; its video track is shared, not restarted. */
+  camera: MediaStream;
+  onState: (state: HelperCallState) => void;
+  /** A helper asked to join under `name`; nothing is sent until `accept()`. */
+  onRequest: (name: string) => void;
+  onCue: (cue: HelperCue) => void;
+  /** Not called for `end()`. */
+  onEnd: (reason: HelperCallEnd) => void;
+}
+
+export interface HelperCall {
+  /** Lets the waiting helper in; `false` when nobody is waiting. */
+  accept: () => boolean;
+  /** Turns the waiting helper away and waits for another; `false` when nobody is waiting. */
+  decline: () => boolean;
+  end: () => void;
+}
+
+/**
+ * The user's side: waits in `room` for a helper and announces them, then sends the camera and
+ * microphone and plays the helper's voice once the user accepts. Only one helper is ever let in;
+ * later join requests are rejected.
+ */
+export const startHelperCall = ({ transport, room, camera, onState, onRequest, onCue, onEnd }: HelperCallOptions): HelperCall => {
+  let peer: ReturnType<typeof createPeer> | null = null;
+  let requestId: string | null = null;
+  let requestTimer: number | undefined;
+  let helperId: string | null = null;
+  let microphone: MediaStream | null = null;
+  let ended = false;
+  const remoteAudio = new Audio();
+
+  const finish = (reason: HelperCallEnd | null) => {
+    if (ended) return;
+    ended = true;
+    window.clearTimeout(requestTimer);
+    const target = helperId ?? requestId;
+    if (target && reason !== 'hangup') signaling.send({ type: 'hangup', id: target }).catch(() => {});
+    peer?.pc.close();
+    microphone?.getTracks().forEach(track => track.stop());
+    remoteAudio.srcObject = null;
+    // Give the hangup a moment to go out before the channel closes.
+    setTimeout(() => signaling.close(), 1000);
+    if (reason) onEnd(reason);
+  };
+
+  const reject = (id: string) => signaling.send({ type: 'reject', id }).catch(() => {});
+
+  const decline = () => {
+    if (!requestId) return false;
+    window.clearTimeout(requestTimer);
+    reject(requestId);
+    requestId = null;
+    onState('waiting');
+    return true;
+  };
+
+  const call = async (id: string) => {
+    onState('connecting');
+    try {
+      microphone = await navigator.mediaDevices.getUserMedia({ audio: MICROPHONE });
+    } catch (e) {
+      finish(isMicrophoneError(e) ? 'microphone' : 'failed');
+      return;
+    }
+    if (ended) return;
+    const current = peer = createPeer(signaling, id);
+    const { pc } = current;
+    camera.getVideoTracks().forEach(track => pc.addTrack(track, camera));
+    microphone.getAudioTracks().forEach(track => pc.addTrack(track, microphone!));
+    pc.createDataChannel(CUE_CHANNEL).onmessage = (event) => {
+      try {
+        const cue: unknown = JSON.parse(event.data);
+        if (isCue(cue)) onCue(cue);
+      } catch (e) {}
+    };
+    pc.ontrack = ({ streams }) => {
+      remoteAudio.srcObject = streams[0];
+      remoteAudio.play().catch(() => {});
+    };
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState === 'connected') onState('connected');
+      else if (pc.connectionState === 'failed') finish('failed');
+    };
+    const offer = await pc.createOffer();
+    await pc.setLocalDescription(offer);
+    await signaling.send({ type: 'offer', id, sdp: offer.sdp || '' });
+  };
+
+  const handle = (message: SignalMessage) => {
+    if (ended) return;
+    if (message.type === 'join') {
+      // One helper at a time: a request already waiting, or one accepted, keeps its place.
+      if (helperId || (requestId && requestId !== message.id)) { if (message.id !== helperId) reject(message.id); return; }
+      if (requestId) return;
+      requestId = message.id;
+      requestTimer = window.setTimeout(decline, REQUEST_TIMEOUT_MS);
+      onState('request');
+      onRequest(cleanName(message.name));
+      return;
+    }
+    // Everything else must come from the accepted helper.
+    if (message.type === 'ready' || !helperId || message.id !== helperId) return;
+    if (message.type === 'answer') peer?.setRemote({ type: 'answer', sdp: message.sdp }).catch(() => finish('failed'));
+    else if (message.type === 'candidate') peer?.addCandidate(message.candidate);
+    else if (message.type === 'hangup') finish('hangup');
+  };
+
+  const signaling = transport.connect({ room, role: 'user', onMessage: handle });
+  signaling.send({ type: 'ready' }).catch(() => finish('unreachable'));
+  onState('waiting');
+
+  return {
+    accept: () => {
+      if (!requestId || ended) return false;
+      window.clearTimeout(requestTimer);
+      helperId = requestId;
+      requestId = null;
+      call(helperId).catch(() => finish('failed'));
+      return true;
+    },
+    decline,
+    end: () => finish(null)
+  };
+};
+
+export interface HelperJoinOptions {
+  transport: SignalingTransport;
+  room: string;
+  /** Announced to the user, who decides whether to let the helper in. */
+  name: string;
+  onState: (state: HelperCallState) => void;
+  /** The user's camera and microphone. */
+  onStream: (stream: MediaStream) => void;
+  onEnd: (reason: HelperCallEnd) => void;
+}
+
+export interface HelperJoin {
+  /** Plays a direction cue on the user's phone. */
+  sendCue: (cue: HelperCue) => void;
+  end: () => void;
+}
+
+/** The helper's side: asks to join `room` under `name`, then answers the user's call and talks back. */
+export const joinHelperCall = ({ transport, room, name, onState, onStream, onEnd }: HelperJoinOptions): HelperJoin => {
+  const id = crypto.randomUUID();
+  let peer: ReturnType<typeof createPeer> | null = null;
+  let cues: RTCDataChannel | null = null;
+  let microphone: MediaStream | null = null;
+  let ended = false;
+
+  const finish = (reason: HelperCallEnd | null) => {
+    if (ended) return;
+    ended = true;
+    if (reason !== 'hangup' && reason !== 'declined') signaling.send({ type: 'hangup', id }).catch(() => {});
+    peer?.pc.close();
+    microphone?.getTracks().forEach(track => track.stop());
+    setTimeout(() => signaling.close(), 1000);
+    if (reason) onEnd(reason);
+  };
+
+  const answer = async (sdp: string) => {
+    onState('connecting');
+    try {
+      microphone = await navigator.mediaDevices.getUserMedia({ audio: MICROPHONE });
+    } catch (e) {
+      finish(isMicrophoneError(e) ? 'microphone' : 'failed');
+      return;
+    }
+    if (ended) return;
+    const current = peer = createPeer(signaling, id);
+    const { pc } = current;
+    microphone.getAudioTracks().forEach(track => pc.addTrack(track, microphone!));
+    pc.ondatachannel = ({ channel }) => { if (channel.label === CUE_CHANNEL) cues = channel; };
+    pc.ontrack = ({ streams }) => onStream(streams[0]);
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState === 'connected') onState('connected');
+      else if (pc.connectionState === 'failed') finish('failed');
+    };
+    await current.setRemote({ type: 'offer', sdp });
+    const reply = await pc.createAnswer();
+    await pc.setLocalDescription(reply);
+    await signaling.send({ type: 'answer', id, sdp: reply.sdp || '' });
+  };
+
+  const join = () => signaling.send({ type: 'join', id, name: cleanName(name) }).catch(() => finish('unreachable'));
+
+  const handle = (message: SignalMessage) => {
+    if (ended) return;
+    if (message.type === 'ready') { if (!peer) join(); return; }
+    // The user's messages name the helper they are meant for.
+    if (message.id !== id) return;
+    if (message.type === 'offer' && !peer) answer(message.sdp).catch(() => finish('failed'));
+    else if (message.type === 'candidate') peer?.addCandidate(message.candidate);
+    else if (message.type === 'reject') finish('declined');
+    else if (message.type === 'hangup') finish('hangup');
+  };
+
+  const signaling = transport.connect({ room, role: 'helper', onMessage: handle });
+  join();
+  onState('waiting');
+
+  return {
+    sendCue: (cue) => { if (cues?.readyState === 'open') cues.send(JSON.stringify(cue)); },
+    end: () => finish(null)
+  };
+};
@@ -0,0 +1,174 @@
+
+import { VisionLog, HistoryRetention, SessionTranscript, QueuedPhoto } from '../types';
+
+const DB_NAME = 'vision_voice';
+const DB_VERSION = 3;
+const STORE = 'logs';
+const TRANSCRIPT_STORE = 'transcripts';
+const PHOTO_QUEUE_STORE = 'photo_queue';
+/** Full-size photos are large; past this the oldest queued ones are dropped. */
+const MAX_QUEUED_PHOTOS = 10;
+const RETENTION_KEY = 'vision_voice_history_retention';
+
+export const DEFAULT_RETENTION: HistoryRetention = { maxEntries: 200, maxAgeDays: 30 };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(TRANSCRIPT_STORE)) {
+          db.createObjectStore(TRANSCRIPT_STORE, { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+        }
+        if (!db.objectStoreNames.contains(PHOTO_QUEUE_STORE)) {
+          db.createObjectStore(PHOTO_QUEUE_STORE, { keyPath: 'id' }).createIndex('capturedAt', 'capturedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>, storeName = STORE): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getRetention = (): HistoryRetention => {
+  try {
+    const saved = localStorage.getItem(RETENTION_KEY);
+    return saved ? { ...DEFAULT_RETENTION, ...JSON.parse(saved) } : DEFAULT_RETENTION;
+  } catch (e) { return DEFAULT_RETENTION; }
+};
+
+export const setRetention = async (retention: HistoryRetention) => {
+  localStorage.setItem(RETENTION_KEY, JSON.stringify(retention));
+  await pruneLogs(retention);
+};
+
+/** Newest first. */
+export const getLogs = async (): Promise<VisionLog[]> => {
+  const logs = await run<VisionLog[]>('readonly', store => store.index('timestamp').getAll());
+  return logs.reverse();
+};
+
+export const deleteLog = (id: string) => run('readwrite', store => store.delete(id));
+
+export const clearLogs = () => run('readwrite', store => store.clear());
+
+/**
+ * Deletes the oldest entries beyond `maxEntries` and any older than `maxAgeDays`. Walks only the
+ * index keys, oldest first, and stops at the first entry that may stay, so a save that expires
+ * nothing costs a count and one key.
+ */
+const pruneStore = async (storeName: string, indexName: string, { maxEntries, maxAgeDays }: HistoryRetention) => {
+  const db = await openDb();
+  const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    const count = store.count();
+    count.onsuccess = () => {
+      let excess = count.result - maxEntries;
+      const cursor = store.index(indexName).openKeyCursor();
+      cursor.onsuccess = () => {
+        const entry = cursor.result;
+        if (!entry || (excess <= 0 && (entry.key as number) >= cutoff)) return;
+        store.delete(entry.primaryKey);
+        excess--;
+        entry.continue();
+      };
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const pruneLogs = async (retention: HistoryRetention = getRetention()) => {
+  await pruneStore(STORE, 'timestamp', retention);
+  await pruneStore(TRANSCRIPT_STORE, 'startedAt', retention);
+};
+
+export const addLog = async (entry: Omit<VisionLog, 'id' | 'timestamp'>): Promise<VisionLog | null> => {
+  const text = entry.text.trim();
+  if (!text) return null;
+  const log: VisionLog = { ...entry, text, id: crypto.randomUUID(), timestamp: Date.now() };
+  try { await run('readwrite', store => store.put(log)); } catch (e) { return null; }
+  // The entry is saved either way; a failed prune leaves the old ones for the next save.
+  await pruneStore(STORE, 'timestamp', getRetention()).catch(() => {});
+  return log;
+};
+
+/** Newest first. */
+export const getTranscripts = async (): Promise<SessionTranscript[]> => {
+  const transcripts = await run<SessionTranscript[]>('readonly', store => store.index('startedAt').getAll(), TRANSCRIPT_STORE);
+  return transcripts.reverse();
+};
+
+export const deleteTranscript = (id: string) => run('readwrite', store => store.delete(id), TRANSCRIPT_STORE);
+
+export const saveTranscript = async (transcript: Omit<SessionTranscript, 'id'>): Promise<SessionTranscript | null> => {
+  if (transcript.entries.length === 0) return null;
+  const saved: SessionTranscript = { ...transcript, id: crypto.randomUUID() };
+  try { await run('readwrite', store => store.put(saved), TRANSCRIPT_STORE); } catch (e) { return null; }
+  await pruneStore(TRANSCRIPT_STORE, 'startedAt', getRetention()).catch(() => {});
+  return saved;
+};
+
+/** Oldest first, the order they are described in. */
+export const getQueuedPhotos = () => run<QueuedPhoto[]>('readonly', store => store.index('capturedAt').getAll(), PHOTO_QUEUE_STORE);
+
+export const removeQueuedPhoto = (id: string) => run('readwrite', store => store.delete(id), PHOTO_QUEUE_STORE);
+
+/** Resolves to the number of photos now waiting, or null when the photo couldn't be stored. */
+export const queuePhoto = async (photo: Omit<QueuedPhoto, 'id' | 'capturedAt'>): Promise<number | null> => {
+  try {
+    await run('readwrite', store => store.put({ ...photo, id: crypto.randomUUID(), capturedAt: Date.now() }), PHOTO_QUEUE_STORE);
+    const queued = await getQueuedPhotos();
+    const overflow = queued.slice(0, Math.max(0, queued.length - MAX_QUEUED_PHOTOS));
+    for (const stale of overflow) await removeQueuedPhoto(stale.id);
+    return queued.length - overflow.length;
+  } catch (e) { return null; }
+};
+
+export const formatTranscript = (transcript: SessionTranscript, labels: { user: string, model: string }) =>
+  transcript.entries.map(entry => `${entry.speaker === 'user' ? labels.user : labels.model}: ${entry.text}`).join('\n');
+
+/** Downscales the frame currently on `source` into a small JPEG data URL for the history list. */
+export const createThumbnail = (source: HTMLCanvasElement | HTMLVideoElement, width = 160, height = 120) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width; canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return undefined;
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas.toDataURL('image/jpeg', 0.6);
+};
+
+export const exportLogsAsJson = (logs: VisionLog[]) => JSON.stringify(logs, null, 2);
+
+export const exportLogsAsText = (logs: VisionLog[]) => logs.map(log => {
+  const header = [new Date(log.timestamp).toLocaleString(log.language), log.mode];
+  if (log.coordinates) header.push(`${log.coordinates.latitude.toFixed(5)}, ${log.coordinates.longitude.toFixed(5)}`);
+  return `[${header.join(' | ')}]\n${log.text}`;
+}).join('\n\n');
+
+export const downloadExport = (contents: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url; link.download = filename;
+  link.click();
+  // Revoking straight away can cancel the download before the browser has read the blob.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,70 @@
+
+import { SessionMode } from '../types';
+
+export type ModePhase = 'idle' | 'entering' | 'active' | 'exiting';
+
+export type ModeState =
+  | { phase: 'idle', mode: null }
+  | { phase: 'entering' | 'active' | 'exiting', mode: SessionMode };
+
+export const IDLE_MODE: ModeState = { phase: 'idle', mode: null };
+
+export interface ModeMachineOptions {
+  /**
+   * Acquire whatever the mode needs; throwing (e.g. camera denied) leaves the machine idle.
+   * `previous` is the mode this one replaced, or `null` when entered from idle.
+   */
+  enter: (mode: SessionMode, previous: SessionMode | null) => Promise<void>;
+  /** Release everything `enter` acquired; must not throw. `next` is the mode taking over, or `null` for idle. */
+  exit: (mode: SessionMode, next: SessionMode | null) => Promise<void>;
+  onChange: (state: ModeState) => void;
+}
+
+export interface ModeMachine {
+  getState: () => ModeState;
+  /** Switches to `mode`, fully exiting the current one first. */
+  activate: (mode: SessionMode) => Promise<void>;
+  deactivate: () => Promise<void>;
+}
+
+/**
+ * Serialises mode transitions so at most one mode owns the camera, microphone and live session:
+ * requests queue behind the running transition, and a mode is only `active` once `enter` resolved.
+ */
+export const createModeMachine = ({ enter, exit, onChange }: ModeMachineOptions): ModeMachine => {
+  let state: ModeState = IDLE_MODE;
+  let queue: Promise<void> = Promise.resolve();
+
+  const set = (next: ModeState) => { state = next; onChange(next); };
+
+  const leave = async (next: SessionMode | null) => {
+    if (!state.mode) return;
+    const mode = state.mode;
+    set({ phase: 'exiting', mode });
+    await exit(mode, next);
+    set(IDLE_MODE);
+  };
+
+  const schedule = (transition: () => Promise<void>) => {
+    queue = queue.then(transition, transition);
+    return queue;
+  };
+
+  return {
+    getState: () => state,
+    activate: (mode) => schedule(async () => {
+      if (state.mode === mode) return;
+      const previous = state.mode;
+      await leave(mode);
+      set({ phase: 'entering', mode });
+      try {
+        await enter(mode, previous);
+        set({ phase: 'active', mode });
+      } catch (e) {
+        await exit(mode, null);
+        set(IDLE_MODE);
+      }
+    }),
+    deactivate: () => schedule(() => leave(null))
+  };
+};
@@ -0,0 +1,114 @@
+
+import type { LucideIcon } from 'lucide-react';
+import { SessionMode, AppLanguage } from '../types';
+import { Gesture } from '../utils/gestures';
+import { CueId } from './cues';
+import { LiveTool } from './visionProvider';
+import { languageInstruction } from '../i18n';
+import { headingPromptContext } from './heading';
+import { placesPromptContext } from './places';
+import { Verbosity } from './settings';
+import { visionMode } from './modes/visionMode';
+import { navigatorMode } from './modes/navigatorMode';
+import { mapsMode } from './modes/mapsMode';
+import { findMode } from './modes/findMode';
+import { colorMode } from './modes/colorMode';
+import { helperMode } from './modes/helperMode';
+
+/** What a mode may ask of the app; App.tsx supplies the implementations. */
+export interface ModeActions {
+  /** Counts down, captures a still and speaks the model's description of it. */
+  describeScene: (prompt: string) => void;
+  /** Speaks a one-shot description of the user's current position. */
+  describeLocation: (prompt: string) => void;
+  toggleGuidance: () => void;
+  openReading: () => void;
+  /** Asks what to look for, then sonifies where it is in the camera frame. */
+  findObject: () => void;
+  /** Names the colour at the centre of the frame and plays a tone that follows the brightness. */
+  startColorDetection: () => void;
+  /** Repeats the current colour and light level. */
+  announceColor: () => void;
+  /** Waits for a sighted helper to join and shares the camera and microphone with them. */
+  callHelper: () => void;
+  /** Lets in a helper who asked to join; with nobody waiting, shares the call link. */
+  acceptHelper: () => void;
+  /** Turns away a helper who asked to join. */
+  declineHelper: () => void;
+}
+
+export interface ModeDefinition {
+  id: SessionMode;
+  /** Default swipe that enters the mode from the READY screen (users can rebind it); must be unique across modes. */
+  gesture?: Gesture;
+  /** Default tap count that enters the mode, for modes without a swipe; 2-4 are taken by global actions. */
+  entryTaps?: number;
+  /**
+   * i18n keys: full name, one-word gesture hint, spoken on entry, label of the double-tap action
+   * in screen-reader mode, and the hint chips for double tap and the repeated entry gesture.
+   */
+  labelKey: string;
+  shortLabelKey: string;
+  announceKey: string;
+  actionLabelKey: string;
+  doubleTapHintKey?: string;
+  repeatGestureHintKey?: string;
+  icon: LucideIcon;
+  color: string;
+  /** Dotted backdrop tint; camera modes show the video instead. */
+  backgroundColor?: string;
+  /** Confirms entry in place of, or alongside, the spoken announcement. */
+  cue: CueId;
+  needsCamera: boolean;
+  /** Opens a live voice session on entry; modes that drive their own audio leave it off. */
+  liveSession: boolean;
+  /** Hands back to the mode it replaced when it ends, so that mode's live session is paused across it, not closed. */
+  resumesPrevious?: boolean;
+  /** Adds heading context to prompts and keeps the live session updated as the user turns. */
+  needsLocation: boolean;
+  tools: LiveTool[];
+  /** Live-session persona and mode-specific instructions, merged into the shared system prompt; live modes only. */
+  identity?: string;
+  instructions?: string;
+  /** Runs once the mode's camera is up. */
+  onEnter?: (actions: ModeActions) => void;
+  onDoubleTap: (actions: ModeActions) => void;
+  /** Repeating the entry gesture while the mode is already active. */
+  onRepeatGesture?: (actions: ModeActions) => void;
+}
+
+export const MODES: Record<SessionMode, ModeDefinition> = {
+  VISION: visionMode,
+  NAV: navigatorMode,
+  MAPS: mapsMode,
+  FIND: findMode,
+  COLOR: colorMode,
+  HELPER: helperMode
+};
+
+/** Display order for hints and accessible controls. */
+export const MODE_ORDER: SessionMode[] = ['VISION', 'NAV', 'MAPS', 'FIND', 'COLOR', 'HELPER'];
+
+const VERBOSITY_INSTRUCTIONS: Record<Verbosity, string> = {
+  brief: 'LENGTH: Keep every reply to one or two short sentences. Mention only what matters most, hazards first.',
+  standard: 'LENGTH: Keep replies to a few sentences, hazards first.',
+  detailed: 'LENGTH: Be thorough: describe layout, colours, visible text and distances whenever they help.'
+};
+
+/** Reply-length instruction for live and one-shot prompts. */
+export const verbosityInstruction = (verbosity: Verbosity) => VERBOSITY_INSTRUCTIONS[verbosity];
+
+export const buildSystemPrompt = (mode: SessionMode, language: AppLanguage | null, verbosity: Verbosity) => {
+  const definition = MODES[mode];
+  return `USER CONTEXT: The user is a BLIND person. You are their visual and spatial guide from Google.
+${definition.identity ? `IDENTITY: ${definition.identity}.` : ''}
+GOAL: Provide vivid, professional, and helpful spatial descriptions.
+${definition.instructions ?? ''}
+SAFETY: Always highlight immediate physical hazards first.
+STYLE: Clear, descriptive, and reassuring. Use relative directions.
+${verbosityInstruction(verbosity)}
+${definition.tools.includes('spatialCues') ? 'SOUND CUES: Before naming a hazard or landmark with a direction, call mark_direction for it so the user hears where it is.' : ''}
+${languageInstruction(language)}
+${definition.needsLocation ? headingPromptContext() : ''}
+${definition.tools.includes('savedPlaces') ? placesPromptContext() : ''}`;
+};
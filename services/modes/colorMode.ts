@@ -0,0 +1,23 @@
+
+import { Palette } from 'lucide-react';
+import type { ModeDefinition } from '../modes';
+
+export const colorMode: ModeDefinition = {
+  id: 'COLOR',
+  gesture: 'CIRCLE_CW',
+  labelKey: 'mode_color',
+  shortLabelKey: 'color_short',
+  announceKey: 'color_on',
+  actionLabelKey: 'sr_color_repeat',
+  doubleTapHintKey: 'double_tap_color',
+  icon: Palette,
+  color: '#A142F4',
+  cue: 'mode_color',
+  // Computed from the camera on the device, so it works without signal.
+  liveSession: false,
+  needsCamera: true,
+  needsLocation: false,
+  tools: [],
+  onEnter: (actions) => actions.startColorDetection(),
+  onDoubleTap: (actions) => actions.announceColor()
+};
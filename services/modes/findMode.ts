@@ -0,0 +1,22 @@
+
+import { ScanSearch } from 'lucide-react';
+import type { ModeDefinition } from '../modes';
+
+export const findMode: ModeDefinition = {
+  id: 'FIND',
+  entryTaps: 5,
+  labelKey: 'mode_find',
+  shortLabelKey: 'find_short',
+  announceKey: 'find_on',
+  actionLabelKey: 'sr_find_other',
+  doubleTapHintKey: 'double_tap_find',
+  icon: ScanSearch,
+  color: '#34A853',
+  cue: 'mode_find',
+  liveSession: false,
+  needsCamera: true,
+  needsLocation: false,
+  tools: [],
+  onEnter: (actions) => actions.findObject(),
+  onDoubleTap: (actions) => actions.findObject()
+};
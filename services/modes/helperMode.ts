@@ -0,0 +1,27 @@
+
+import { PhoneCall } from 'lucide-react';
+import type { ModeDefinition } from '../modes';
+
+export const helperMode: ModeDefinition = {
+  id: 'HELPER',
+  gesture: 'CIRCLE_CCW',
+  labelKey: 'mode_helper',
+  shortLabelKey: 'helper_short',
+  announceKey: 'helper_on',
+  actionLabelKey: 'sr_helper_share',
+  doubleTapHintKey: 'double_tap_helper',
+  repeatGestureHintKey: 'helper_repeat_decline',
+  icon: PhoneCall,
+  color: '#F29900',
+  cue: 'mode_helper',
+  // The AI stays out of the call; leaving the mode hands back to the one it interrupted.
+  liveSession: false,
+  resumesPrevious: true,
+  needsCamera: true,
+  needsLocation: false,
+  tools: [],
+  onEnter: (actions) => actions.callHelper(),
+  // Nothing is sent until the user accepts the helper they heard announced.
+  onDoubleTap: (actions) => actions.acceptHelper(),
+  onRepeatGesture: (actions) => actions.declineHelper()
+};
@@ -0,0 +1,24 @@
+
+import { Map as MapIcon } from 'lucide-react';
+import type { ModeDefinition } from '../modes';
+
+export const mapsMode: ModeDefinition = {
+  id: 'MAPS',
+  gesture: 'SWIPE_DOWN',
+  labelKey: 'mode_maps',
+  shortLabelKey: 'swipe_down_hint',
+  announceKey: 'maps_on',
+  actionLabelKey: 'sr_describe_place',
+  doubleTapHintKey: 'double_tap_nearby',
+  icon: MapIcon,
+  color: '#FBBC04',
+  backgroundColor: '#FFFBE6',
+  cue: 'mode_maps',
+  liveSession: true,
+  needsCamera: false,
+  needsLocation: true,
+  tools: ['googleMaps', 'googleSearch', 'spatialCues', 'savedPlaces'],
+  identity: 'GOOGLE MAPS EXPLORER',
+  instructions: 'MAPS MODE: You specialize in providing neighborhood awareness. Identify the current street, nearest intersections, and highly relevant local businesses or landmarks.',
+  onDoubleTap: (actions) => actions.describeLocation(`I am a blind person exploring my surroundings. Using my exact location coordinates, please describe the street I'm on, the neighborhood character, and the 5 most important landmarks or businesses within walking distance. Be professional and descriptive.`)
+};
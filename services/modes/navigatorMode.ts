@@ -0,0 +1,23 @@
+
+import { MapPin } from 'lucide-react';
+import type { ModeDefinition } from '../modes';
+
+export const navigatorMode: ModeDefinition = {
+  id: 'NAV',
+  gesture: 'SWIPE_RIGHT',
+  labelKey: 'mode_navigator',
+  shortLabelKey: 'swipe_right_hint',
+  announceKey: 'location_on',
+  actionLabelKey: 'sr_start_guidance',
+  icon: MapPin,
+  color: '#4285F4',
+  backgroundColor: '#E8F0FE',
+  cue: 'mode_navigator',
+  liveSession: true,
+  needsCamera: false,
+  needsLocation: true,
+  tools: ['googleMaps', 'googleSearch', 'spatialCues', 'savedPlaces'],
+  identity: 'GOOGLE NAVIGATOR',
+  instructions: 'NAVIGATOR MODE: Help the user orient themselves and walk safely. Give directions relative to the way they face.',
+  onDoubleTap: (actions) => actions.toggleGuidance()
+};
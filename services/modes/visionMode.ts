@@ -0,0 +1,25 @@
+
+import { Camera } from 'lucide-react';
+import type { ModeDefinition } from '../modes';
+
+export const visionMode: ModeDefinition = {
+  id: 'VISION',
+  gesture: 'SWIPE_LEFT',
+  labelKey: 'mode_vision',
+  shortLabelKey: 'swipe_left_hint',
+  announceKey: 'camera_on',
+  actionLabelKey: 'sr_describe_scene',
+  doubleTapHintKey: 'double_tap_describe',
+  repeatGestureHintKey: 'reading_title',
+  icon: Camera,
+  color: '#4285F4',
+  cue: 'mode_vision',
+  liveSession: true,
+  needsCamera: true,
+  needsLocation: false,
+  tools: ['googleMaps', 'googleSearch', 'spatialCues'],
+  identity: 'GOOGLE VISION',
+  instructions: 'VISION MODE: You see what the camera sees. Describe layout, obstacles and people in front of the user and answer questions about them.',
+  onDoubleTap: (actions) => actions.describeScene(`USER IS BLIND. Describe this scene in detail for them. Focus on hazards and layout.`),
+  onRepeatGesture: (actions) => actions.openReading()
+};
@@ -0,0 +1,102 @@
+
+import { getVisionProvider } from './visionProvider';
+
+/** Normalised to the frame, 0..1, origin top-left. */
+export interface ObjectBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Sonification {
+  /** -1 (left) .. 1 (right). */
+  pan: number;
+  frequency: number;
+  /** Pulses per second. */
+  rate: number;
+  centred: boolean;
+}
+
+const FRAME_WIDTH = 512;
+const FRAME_HEIGHT = 384;
+/** Minimum gap between requests; each also waits for the previous reply. */
+const MIN_INTERVAL_MS = 600;
+/** Offset from the frame centre, as a share of the frame, that still counts as centred. */
+const CENTRED_TOLERANCE = 0.12;
+/** Box side (√area) at which the object counts as "as close as it gets". */
+const NEAR_SIZE = 0.6;
+
+export const locatePrompt = (target: string) => `Find "${target}" in this camera image for a BLIND person who is searching for it.
+If it is visible, return its bounding box as box_2d [ymin, xmin, ymax, xmax] scaled 0-1000; pick the nearest one if there are several.
+Reply with JSON: {"found": boolean, "box_2d": [ymin, xmin, ymax, xmax]}.`;
+
+export const parseObjectBox = (raw: string): ObjectBox | null => {
+  try {
+    const parsed = JSON.parse(raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, ''));
+    const box = parsed.box_2d;
+    if (!parsed.found || !Array.isArray(box) || box.length !== 4 || box.some((n: unknown) => typeof n !== 'number')) return null;
+    const [ymin, xmin, ymax, xmax] = box.map((n: number) => Math.min(1000, Math.max(0, n)) / 1000);
+    if (xmax <= xmin || ymax <= ymin) return null;
+    return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+  } catch (e) { return null; }
+};
+
+/** Pitch and pulse rate climb as the object nears the centre and fills more of the frame. */
+export const toSonification = (box: ObjectBox): Sonification => {
+  const dx = box.x + box.width / 2 - 0.5;
+  const dy = box.y + box.height / 2 - 0.5;
+  const centredness = 1 - Math.min(1, Math.hypot(dx, dy) / 0.5);
+  const nearness = Math.min(1, Math.sqrt(box.width * box.height) / NEAR_SIZE);
+  const score = centredness * 0.6 + nearness * 0.4;
+  return {
+    pan: Math.max(-1, Math.min(1, dx * 2)),
+    frequency: 300 + score * 600,
+    rate: 1.5 + score * 8.5,
+    centred: Math.abs(dx) < CENTRED_TOLERANCE && Math.abs(dy) < CENTRED_TOLERANCE
+  };
+};
+
+export interface ObjectSearchOptions {
+  video: HTMLVideoElement;
+  canvas: HTMLCanvasElement;
+  target: string;
+  /** `null` when the object is not in the latest frame. */
+  onLocation: (box: ObjectBox | null) => void;
+  onError: (error: unknown) => void;
+}
+
+export interface ObjectSearch {
+  stop: () => void;
+}
+
+/** Repeatedly sends a small frame to the provider and reports where the target is. */
+export const startObjectSearch = ({ video, canvas, target, onLocation, onError }: ObjectSearchOptions): ObjectSearch => {
+  let stopped = false;
+  let failures = 0;
+  const prompt = locatePrompt(target);
+
+  const loop = async () => {
+    while (!stopped) {
+      const startedAt = Date.now();
+      const ctx = canvas.getContext('2d');
+      if (ctx && video.readyState === 4) {
+        canvas.width = FRAME_WIDTH; canvas.height = FRAME_HEIGHT;
+        ctx.drawImage(video, 0, 0, FRAME_WIDTH, FRAME_HEIGHT);
+        const base64 = canvas.toDataURL('image/jpeg', 0.6).split(',')[1];
+        try {
+          const box = parseObjectBox(await getVisionProvider().locateObject(base64, prompt));
+          failures = 0;
+          if (!stopped) onLocation(box);
+        } catch (e) {
+          // A single slow or failed request shouldn't end the search; repeated ones do.
+          if (++failures >= 3 && !stopped) { stopped = true; onError(e); return; }
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.max(0, MIN_INTERVAL_MS - (Date.now() - startedAt))));
+    }
+  };
+
+  loop();
+  return { stop: () => { stopped = true; } };
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { describeDirections, findPlace, formatPlaceDistance, placeDirections } from './places';
+import { createTranslator } from '../i18n';
+import { offsetMeters } from '../utils/geo';
+import { SavedPlace } from '../types';
+
+// `heading.ts` reads its calibration for this device when it loads.
+vi.hoisted(() => {
+  vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {}, removeItem: () => {} });
+  vi.stubGlobal('navigator', { userAgent: 'test' });
+  vi.stubGlobal('screen', { width: 400, height: 800 });
+});
+
+const HERE = { latitude: 51.5074, longitude: -0.1278 };
+const t = createTranslator('en-US');
+
+const place = (name: string, north: number, east: number): SavedPlace =>
+  ({ id: name, name, coordinates: offsetMeters(HERE, north, east), notes: '', savedAt: 0 });
+
+const facing = (degrees: number, absolute = true) => ({ degrees, absolute, timestamp: 0 });
+
+describe('placeDirections', () => {
+  it('gives the distance, bearing and clock face from the user', () => {
+    const home = place('Home', 500, 0);
+    const directions = placeDirections(home, HERE, facing(90));
+    expect(directions.meters).toBeCloseTo(500, 0);
+    expect(directions.bearing).toBeCloseTo(0, 0);
+    expect(directions.clock).toBe(9);
+  });
+
+  it('has no clock face without a heading', () => {
+    expect(placeDirections(place('Shop', 0, 300), HERE, null).clock).toBeNull();
+  });
+
+  it('has no clock face with a heading that is not tied to the compass', () => {
+    expect(placeDirections(place('Shop', 0, 300), HERE, facing(90, false)).clock).toBeNull();
+  });
+});
+
+describe('describeDirections', () => {
+  it('speaks the clock face when the heading is known', () => {
+    expect(describeDirections(placeDirections(place('Home', 0, 1234), HERE, facing(0)), t)).toBe('Home: 1.2 kilometres, at your 3 o\'clock.');
+  });
+
+  it('falls back to the compass direction', () => {
+    expect(describeDirections(placeDirections(place('Shop', -300, -300), HERE, null), t)).toBe('Shop: 420 metres, to the south-west.');
+    expect(describeDirections(placeDirections(place('Shop', -300, -300), HERE, facing(0, false)), t)).toBe('Shop: 420 metres, to the south-west.');
+  });
+
+  it('says when the user is already there', () => {
+    expect(describeDirections(placeDirections(place('Home', 5, 5), HERE, null), t)).toBe('You are at Home.');
+  });
+});
+
+describe('formatPlaceDistance', () => {
+  it('rounds to tens of metres, with at least ten, and to tenths of a kilometre', () => {
+    expect(formatPlaceDistance(3, t)).toBe('10 metres');
+    expect(formatPlaceDistance(234, t)).toBe('230 metres');
+    expect(formatPlaceDistance(2460, t)).toBe('2.5 kilometres');
+  });
+});
+
+describe('findPlace', () => {
+  const places = [place('Home', 0, 0), place('Home Depot', 0, 0), place('Park', 0, 0)];
+
+  it('prefers an exact name, then the longest name the phrase contains', () => {
+    expect(findPlace('home', places)?.name).toBe('Home');
+    expect(findPlace('how far is the home depot?', places)?.name).toBe('Home Depot');
+    expect(findPlace('take me to the park', places)?.name).toBe('Park');
+  });
+
+  it('finds nothing for unknown or empty phrases', () => {
+    expect(findPlace('school', places)).toBeNull();
+    expect(findPlace('  ', places)).toBeNull();
+  });
+});
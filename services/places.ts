@@ -0,0 +1,130 @@
+
+import { Coordinates, SavedPlace } from '../types';
+import { bearingDegrees, distanceMeters, getCurrentCoordinates } from '../utils/geo';
+import { getHeading, toCardinal, toClockFace, HeadingReading } from './heading';
+import type { PlaceRequest } from './visionProvider';
+import { Translator } from '../i18n';
+
+const PLACES_KEY = 'vision_voice_places';
+
+type PlacesListener = (places: SavedPlace[]) => void;
+
+const listeners = new Set<PlacesListener>();
+
+/** Oldest first. */
+export const getPlaces = (): SavedPlace[] => {
+  try { return JSON.parse(localStorage.getItem(PLACES_KEY) || '[]'); } catch (e) { return []; }
+};
+
+const savePlaces = (places: SavedPlace[]) => {
+  localStorage.setItem(PLACES_KEY, JSON.stringify(places));
+  listeners.forEach(listener => listener(places));
+};
+
+export const subscribePlaces = (listener: PlacesListener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * The place a spoken phrase refers to: an exact name first, then the longest saved name the
+ * phrase contains, so "how far is home" finds "home".
+ */
+export const findPlace = (spoken: string, places = getPlaces()): SavedPlace | null => {
+  const phrase = normalizeName(spoken);
+  if (!phrase) return null;
+  const exact = places.find(place => normalizeName(place.name) === phrase);
+  if (exact) return exact;
+  const contained = places
+    .filter(place => normalizeName(place.name) && ` ${phrase} `.includes(` ${normalizeName(place.name)} `))
+    .sort((a, b) => b.name.length - a.name.length);
+  return contained[0] ?? null;
+};
+
+/** Saving under a name that is already taken moves that place here and keeps its notes unless new ones are given. */
+export const savePlace = (name: string, coordinates: Coordinates, notes?: string): SavedPlace => {
+  const places = getPlaces();
+  const existing = places.find(place => normalizeName(place.name) === normalizeName(name));
+  const saved: SavedPlace = existing
+    ? { ...existing, coordinates, notes: notes ?? existing.notes, savedAt: Date.now() }
+    : { id: crypto.randomUUID(), name: name.trim(), coordinates, notes: notes ?? '', savedAt: Date.now() };
+  savePlaces(existing ? places.map(place => place.id === existing.id ? saved : place) : [...places, saved]);
+  return saved;
+};
+
+export const updatePlaceNotes = (id: string, notes: string) =>
+  savePlaces(getPlaces().map(place => place.id === id ? { ...place, notes: notes.trim() } : place));
+
+export const deletePlace = (id: string) => savePlaces(getPlaces().filter(place => place.id !== id));
+
+export interface PlaceDirections {
+  place: SavedPlace;
+  meters: number;
+  /** Degrees clockwise from north. */
+  bearing: number;
+  /** Clock face relative to where the user faces; `null` without a compass heading. */
+  clock: number | null;
+}
+
+export const placeDirections = (place: SavedPlace, from: Coordinates, heading: HeadingReading | null = getHeading()): PlaceDirections => {
+  const bearing = bearingDegrees(from, place.coordinates);
+  // A relative heading is only anchored to where calibration ended, not to north, so it can't be set against a bearing.
+  const clock = heading?.absolute ? toClockFace(bearing, heading.degrees) : null;
+  return { place, meters: distanceMeters(from, place.coordinates), bearing, clock };
+};
+
+/** Closer than this counts as being there. */
+const ARRIVED_METERS = 20;
+
+/** Metres to the nearest 10 under a kilometre, else kilometres to one decimal. */
+export const formatPlaceDistance = (meters: number, t: Translator) => meters < 1000
+  ? t('distance_meters', { count: Math.max(10, Math.round(meters / 10) * 10) })
+  : t('distance_kilometers', { count: Math.round(meters / 100) / 10 });
+
+/** Spoken distance and direction, e.g. "Home: 1.2 kilometres, at your 2 o'clock." */
+export const describeDirections = ({ place, meters, bearing, clock }: PlaceDirections, t: Translator) => {
+  if (meters < ARRIVED_METERS) return t('place_here', { name: place.name });
+  const direction = clock === null
+    ? t('place_toward', { direction: t(`cardinal_${toCardinal(bearing).replace('-', '_')}`) })
+    : t('place_clock', { clock });
+  return t('place_directions', { name: place.name, distance: formatPlaceDistance(meters, t), direction });
+};
+
+/** Model-facing list of the user's places; empty when none are saved. */
+export const placesPromptContext = (places = getPlaces()) => {
+  if (!places.length) return '';
+  const list = places.map(({ name, coordinates, notes }) =>
+    `- ${name} (${coordinates.latitude.toFixed(5)}, ${coordinates.longitude.toFixed(5)})${notes ? `: ${notes}` : ''}`).join('\n');
+  return `SAVED PLACES: The user has saved these places:
+${list}
+When they ask how far away or which way one of them is, call place_directions instead of estimating. When they ask you to remember where they are, call save_place.`;
+};
+
+const describeForModel = ({ place, meters, bearing, clock }: PlaceDirections) => {
+  const facing = clock === null ? 'their heading is unknown, so give the compass direction' : `at their ${clock} o'clock`;
+  return `${place.name} is ${Math.round(meters)} metres away, bearing ${Math.round(bearing)}° (${toCardinal(bearing)}); ${facing}.`;
+};
+
+/** Answers the live model's saved-place tool calls from the device's own location and heading. */
+export const answerPlaceRequest = async (request: PlaceRequest): Promise<string> => {
+  const places = getPlaces();
+  if (request.action === 'list') {
+    return places.length ? `Saved places: ${places.map(place => place.name).join(', ')}.` : 'The user has no saved places.';
+  }
+  if (!request.name.trim()) {
+    return request.action === 'save'
+      ? 'Error: nothing was saved because no name was given. Ask the user what to call this place.'
+      : 'Error: no place name was given. Ask the user which saved place they mean.';
+  }
+  let here: Coordinates;
+  try { here = await getCurrentCoordinates(); } catch (e) { return 'The user\'s location is unavailable right now.'; }
+  if (request.action === 'save') {
+    const saved = savePlace(request.name, here, request.notes);
+    return `Saved the user's current location as ${saved.name}.`;
+  }
+  const place = findPlace(request.name, places);
+  if (!place) return `There is no saved place called ${request.name}. ${places.length ? `Saved places: ${places.map(p => p.name).join(', ')}.` : 'The user has no saved places.'}`;
+  return describeForModel(placeDirections(place, here));
+};
@@ -0,0 +1,250 @@
+
+import { GoogleGenAI, LiveServerMessage, Modality, Type } from '@google/genai';
+import { VisionProvider, LiveTool, SpatialCue, PlaceRequest } from '../visionProvider';
+import { getSettings } from '../settings';
+import { createUplinkMeter } from '../uplinkMeter';
+
+export const GEMINI_MODELS = {
+  live: (import.meta.env.VITE_GEMINI_LIVE_MODEL as string | undefined) || 'gemini-2.5-flash-native-audio-preview-12-2025',
+  oneShot: (import.meta.env.VITE_GEMINI_MODEL as string | undefined) || 'gemini-3-flash-preview'
+};
+
+/** The model picked in settings, else the build default. */
+const oneShotModel = () => getSettings().oneShotModel || GEMINI_MODELS.oneShot;
+const liveModel = () => getSettings().liveModel || GEMINI_MODELS.live;
+
+const MARK_DIRECTION = {
+  name: 'mark_direction',
+  description: 'Plays a directional sound so the user hears where a hazard or landmark is. Call it just before you mention the object, once per object.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      label: { type: Type.STRING, description: 'One or two words naming the object, e.g. "chair".' },
+      kind: { type: Type.STRING, enum: ['hazard', 'landmark'] },
+      clock: { type: Type.INTEGER, description: 'Clock-face direction relative to where the user faces, 1-12; 12 is straight ahead, 3 is to their right.' }
+    },
+    required: ['label', 'kind', 'clock']
+  }
+};
+
+const PLACE_NAME = { type: Type.STRING, description: 'The name the user uses for the place, e.g. "home".' };
+
+const SAVE_PLACE = {
+  name: 'save_place',
+  description: 'Saves where the user is standing now under a name so they can ask about it later.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      name: PLACE_NAME,
+      notes: { type: Type.STRING, description: 'Anything the user asked to remember about the place.' }
+    },
+    required: ['name']
+  }
+};
+
+const PLACE_DIRECTIONS = {
+  name: 'place_directions',
+  description: 'Distance and direction from the user to one of their saved places, measured on their device.',
+  parameters: { type: Type.OBJECT, properties: { name: PLACE_NAME }, required: ['name'] }
+};
+
+const LIST_PLACES = {
+  name: 'list_places',
+  description: 'Names of all the places the user has saved.',
+  parameters: { type: Type.OBJECT, properties: {} }
+};
+
+const FUNCTION_DECLARATIONS: Partial<Record<LiveTool, object[]>> = {
+  spatialCues: [MARK_DIRECTION],
+  savedPlaces: [SAVE_PLACE, PLACE_DIRECTIONS, LIST_PLACES]
+};
+
+/** Built-in tools map one to one; the app's own functions share a single declarations entry. */
+const toGeminiTools = (tools: LiveTool[]) => {
+  const declarations = tools.flatMap(tool => FUNCTION_DECLARATIONS[tool] ?? []);
+  return [
+    ...tools.filter(tool => tool === 'googleMaps' || tool === 'googleSearch').map(tool => tool === 'googleMaps' ? { googleMaps: {} } : { googleSearch: {} }),
+    ...(declarations.length ? [{ functionDeclarations: declarations }] : [])
+  ];
+};
+
+const toSpatialCue = (args: Record<string, unknown> | undefined): SpatialCue | null => {
+  const clock = Number(args?.clock);
+  if (!Number.isInteger(clock) || clock < 1 || clock > 12) return null;
+  return { label: String(args?.label ?? ''), kind: args?.kind === 'hazard' ? 'hazard' : 'landmark', clock };
+};
+
+const toPlaceRequest = (name: string | undefined, args: Record<string, unknown> | undefined): PlaceRequest | null => {
+  if (name === LIST_PLACES.name) return { action: 'list' };
+  // A blank name still goes through, so the model is told to ask for one rather than hearing 'ok'.
+  const placeName = String(args?.name ?? '').trim();
+  if (name === SAVE_PLACE.name) return { action: 'save', name: placeName, notes: typeof args?.notes === 'string' ? args.notes : undefined };
+  if (name === PLACE_DIRECTIONS.name) return { action: 'directions', name: placeName };
+  return null;
+};
+
+interface GenerateRequest {
+  model: string;
+  contents: unknown;
+  config?: Record<string, unknown>;
+}
+
+/**
+ * Talks to the key proxy (`server/keyProxy.ts`) at `proxyUrl`, empty for the same origin: one-shot
+ * calls go through `/api/generate` and each live connection opens with a fresh token from
+ * `/api/token`, so the API key never reaches the browser.
+ */
+export const createGeminiProvider = (proxyUrl: string): VisionProvider => {
+  const post = async (path: string, body: unknown) => {
+    const response = await fetch(`${proxyUrl}${path}`, { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify(body) });
+    const payload = await response.json().catch(() => ({}));
+    // The status leads the message so `classifyLiveError` can tell a bad key (401/403) from an outage.
+    if (!response.ok) throw new Error(`${response.status} ${payload.error || response.statusText}`);
+    return payload;
+  };
+
+  const generate = async (request: GenerateRequest): Promise<string> => (await post('/api/generate', request)).text || '';
+
+  return {
+    name: 'gemini',
+
+    describeImage: async (base64Jpeg, prompt) => {
+      return generate({
+        model: oneShotModel(),
+        contents: [{
+          parts: [
+            { inlineData: { data: base64Jpeg, mimeType: 'image/jpeg' } },
+            { text: prompt }
+          ]
+        }]
+      });
+    },
+
+    askAboutImage: async (base64Jpeg, prompt, turns) => {
+      return generate({
+        model: oneShotModel(),
+        contents: [
+          { role: 'user', parts: [{ inlineData: { data: base64Jpeg, mimeType: 'image/jpeg' } }, { text: prompt }] },
+          ...turns.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }))
+        ]
+      });
+    },
+
+    readText: async (base64Jpeg, prompt) => {
+      return generate({
+        model: oneShotModel(),
+        contents: [{
+          parts: [
+            { inlineData: { data: base64Jpeg, mimeType: 'image/jpeg' } },
+            { text: prompt }
+          ]
+        }],
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: { framing: { type: Type.STRING }, text: { type: Type.STRING } },
+            required: ['framing', 'text']
+          }
+        }
+      });
+    },
+
+    locateObject: async (base64Jpeg, prompt) => {
+      return generate({
+        model: oneShotModel(),
+        contents: [{
+          parts: [
+            { inlineData: { data: base64Jpeg, mimeType: 'image/jpeg' } },
+            { text: prompt }
+          ]
+        }],
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: { found: { type: Type.BOOLEAN }, box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } } },
+            required: ['found']
+          }
+        }
+      });
+    },
+
+    describeLocation: async ({ latitude, longitude }, prompt) => {
+      return generate({
+        model: oneShotModel(),
+        contents: [{ parts: [{ text: prompt }] }],
+        config: {
+          tools: [{ googleMaps: {} }],
+          toolConfig: {
+            retrievalConfig: {
+              latLng: { latitude, longitude }
+            }
+          }
+        },
+      });
+    },
+
+    connectLive: async ({ systemInstruction, tools, voiceName, languageCode, resumptionHandle, callbacks }) => {
+      const model = liveModel();
+      // The token is minted for this model only.
+      const { token } = await post('/api/token', { model });
+      // Tokens are single-use and only accepted on v1alpha.
+      const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+      const session = await ai.live.connect({
+        model,
+        callbacks: {
+          onopen: callbacks.onOpen,
+          onmessage: (message: LiveServerMessage) => {
+            const content = message.serverContent;
+            const audioData = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+            if (audioData) callbacks.onAudio(audioData);
+            if (content?.inputTranscription?.text) callbacks.onInputTranscript?.(content.inputTranscription.text);
+            if (content?.outputTranscription?.text) callbacks.onOutputTranscript?.(content.outputTranscription.text);
+            if (content?.interrupted) callbacks.onInterrupted?.();
+            if (content?.turnComplete) callbacks.onTurnComplete?.();
+            const calls = message.toolCall?.functionCalls;
+            if (calls?.length) {
+              calls.forEach(call => {
+                const cue = call.name === MARK_DIRECTION.name ? toSpatialCue(call.args) : null;
+                if (cue) callbacks.onSpatialCue?.(cue);
+              });
+              // The model waits for a reply before it carries on speaking.
+              Promise.all(calls.map(async call => {
+                const request = callbacks.onPlaceRequest ? toPlaceRequest(call.name, call.args) : null;
+                const result = request ? await callbacks.onPlaceRequest!(request) : 'ok';
+                return { id: call.id, name: call.name, response: { result } };
+              })).then(functionResponses => session.sendToolResponse({ functionResponses })).catch(() => {});
+            }
+            const resumption = message.sessionResumptionUpdate;
+            if (resumption?.resumable && resumption.newHandle) callbacks.onResumptionHandle?.(resumption.newHandle);
+          },
+          onerror: (e: ErrorEvent) => callbacks.onError(e),
+          onclose: (e: CloseEvent) => callbacks.onClose({ code: e.code, reason: e.reason })
+        },
+        config: {
+          responseModalities: [Modality.AUDIO],
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          tools: toGeminiTools(tools),
+          speechConfig: { languageCode, voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+          sessionResumption: { handle: resumptionHandle },
+          systemInstruction
+        }
+      });
+      // The SDK doesn't expose its socket. Its browser transport currently keeps the native WebSocket as
+      // the private `ws`, whose `bufferedAmount` is what hasn't left yet; if that field is missing or not a
+      // WebSocket there is no meter, and the frame scheduler keeps the frame size where it is.
+      const socket = (session.conn as { ws?: unknown }).ws;
+      const uplink = typeof WebSocket !== 'undefined' && socket instanceof WebSocket ? createUplinkMeter(() => socket.bufferedAmount) : undefined;
+      // Base64 is all ASCII, so its length is its size on the wire, less a small JSON envelope.
+      return {
+        sendAudio: (data) => { session.sendRealtimeInput({ media: { data, mimeType: 'audio/pcm;rate=16000' } }); uplink?.record(data.length); },
+        sendImage: (data) => { session.sendRealtimeInput({ media: { data, mimeType: 'image/jpeg' } }); uplink?.record(data.length); },
+        sendContext: (text) => session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: false }),
+        uplink,
+        close: () => session.close()
+      };
+    }
+  };
+};
@@ -0,0 +1,195 @@
+
+import { VisionProvider, LiveSessionCallbacks, LiveCloseInfo, SpatialCue } from '../visionProvider';
+import { encode } from '../../utils/audio';
+
+export type MockOperation = 'describeImage' | 'askAboutImage' | 'describeLocation' | 'readText' | 'locateObject' | 'connectLive';
+
+export interface MockScript {
+  /** Delay applied to every one-shot call and to live connect / replies. */
+  latencyMs: number;
+  imageDescription: string;
+  /** Answer to every follow-up question about a described photo. */
+  followUpAnswer: string;
+  locationDescription: string;
+  /** Text "seen" by reading mode; blank lines separate paragraphs. */
+  documentText: string;
+  /** Framing hint returned alongside `documentText`, e.g. `cut_off_left`. */
+  documentFraming: string;
+  /** Boxes `[ymin, xmin, ymax, xmax]` (0-1000) returned by successive object searches, then cycled; `null` is "not found". */
+  objectBoxes: ([number, number, number, number] | null)[];
+  /** Live replies, used in order and then cycled. */
+  liveReplies: string[];
+  /** Spatial cue marked before the live reply with the same index; `null` for none. */
+  liveCues: (SpatialCue | null)[];
+  /** Reported as the input transcription of every user turn. */
+  heardText: string;
+  /** Silence after the last mic chunk before the mock "answers". */
+  replyAfterSilenceMs: number;
+  /** Operations that reject with the given message. */
+  errors: Partial<Record<MockOperation, string>>;
+  /** Close the live session this long after it opens, to exercise drop handling. */
+  dropLiveAfterMs: number | null;
+}
+
+const SCRIPT_KEY = 'vision_voice_mock_script';
+const OUTPUT_RATE = 24000;
+const CHUNK_MS = 100;
+
+export const DEFAULT_MOCK_SCRIPT: MockScript = {
+  latencyMs: 400,
+  imageDescription: "A hallway with a closed wooden door ahead, about three metres away. A chair stands against the left wall. The floor is clear.",
+  followUpAnswer: "The chair is grey with a padded seat. Nothing is on it.",
+  locationDescription: "You are on Main Street, a quiet residential road. A pharmacy is twenty metres ahead on the right, a bus stop is across the street, and a park entrance is at the next corner.",
+  documentText: "Take one tablet twice a day with food.\n\nDo not exceed four tablets in 24 hours. Keep out of reach of children.\n\nStore below 25 degrees. Expires 08/2027.",
+  documentFraming: 'ok',
+  objectBoxes: [null, [300, 40, 420, 160], [320, 180, 460, 320], [330, 320, 520, 500], [280, 400, 620, 640]],
+  liveReplies: [
+    "The path ahead is clear. There is a doorway slightly to your right.",
+    "I can see a table in front of you with a cup on the left side."
+  ],
+  liveCues: [
+    { label: 'doorway', kind: 'landmark', clock: 1 },
+    { label: 'cup', kind: 'landmark', clock: 11 }
+  ],
+  heardText: "What is in front of me?",
+  replyAfterSilenceMs: 600,
+  errors: {},
+  dropLiveAfterMs: null
+};
+
+const loadScript = (): MockScript => {
+  try {
+    const saved = localStorage.getItem(SCRIPT_KEY);
+    return saved ? { ...DEFAULT_MOCK_SCRIPT, ...JSON.parse(saved) } : { ...DEFAULT_MOCK_SCRIPT };
+  } catch (e) { return { ...DEFAULT_MOCK_SCRIPT }; }
+};
+
+let script: MockScript = loadScript();
+let objectSearchIndex = 0;
+
+/** Overrides parts of the mock script; pass `persist` to keep it across reloads. */
+export const configureMockProvider = (overrides: Partial<MockScript>, persist = false) => {
+  script = { ...script, ...overrides };
+  if (persist) localStorage.setItem(SCRIPT_KEY, JSON.stringify(script));
+};
+
+export const resetMockProvider = () => {
+  localStorage.removeItem(SCRIPT_KEY);
+  script = { ...DEFAULT_MOCK_SCRIPT };
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const failIfScripted = (operation: MockOperation) => {
+  const message = script.errors[operation];
+  if (message) throw new Error(message);
+};
+
+/** A soft two-tone chime whose length follows the reply length, split into base64 PCM chunks. */
+export const synthesizeSpeechPcm = (text: string): string[] => {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const durationMs = Math.min(Math.max(words * 120, 400), 4000);
+  const total = Math.round(OUTPUT_RATE * durationMs / 1000);
+  const samples = new Int16Array(total);
+  for (let i = 0; i < total; i++) {
+    const time = i / OUTPUT_RATE;
+    const frequency = Math.floor(time * 4) % 2 === 0 ? 440 : 554;
+    const envelope = Math.min(1, i / 480, (total - i) / 480);
+    samples[i] = Math.round(Math.sin(2 * Math.PI * frequency * time) * envelope * 6000);
+  }
+  const chunkSize = OUTPUT_RATE * CHUNK_MS / 1000;
+  const chunks: string[] = [];
+  for (let start = 0; start < total; start += chunkSize) {
+    chunks.push(encode(new Uint8Array(samples.slice(start, start + chunkSize).buffer)));
+  }
+  return chunks;
+};
+
+const playReply = (text: string, cue: SpatialCue | null, callbacks: LiveSessionCallbacks) => {
+  if (cue) callbacks.onSpatialCue?.(cue);
+  synthesizeSpeechPcm(text).forEach(chunk => callbacks.onAudio(chunk));
+  callbacks.onOutputTranscript?.(text);
+  callbacks.onTurnComplete?.();
+};
+
+export const createMockProvider = (): VisionProvider => ({
+  name: 'mock',
+
+  describeImage: async () => {
+    await wait(script.latencyMs);
+    failIfScripted('describeImage');
+    return script.imageDescription;
+  },
+
+  askAboutImage: async () => {
+    await wait(script.latencyMs);
+    failIfScripted('askAboutImage');
+    return script.followUpAnswer;
+  },
+
+  describeLocation: async () => {
+    await wait(script.latencyMs);
+    failIfScripted('describeLocation');
+    return script.locationDescription;
+  },
+
+  readText: async () => {
+    await wait(script.latencyMs);
+    failIfScripted('readText');
+    return JSON.stringify({ framing: script.documentFraming, text: script.documentText });
+  },
+
+  locateObject: async () => {
+    await wait(script.latencyMs);
+    failIfScripted('locateObject');
+    const boxes = script.objectBoxes;
+    const box = boxes.length ? boxes[objectSearchIndex++ % boxes.length] : null;
+    return JSON.stringify(box ? { found: true, box_2d: box } : { found: false });
+  },
+
+  connectLive: async ({ tools, resumptionHandle, callbacks }) => {
+    await wait(script.latencyMs);
+    failIfScripted('connectLive');
+
+    let open = true;
+    let replyIndex = 0;
+    let silenceTimer: number | null = null;
+    let dropTimer: number | null = null;
+
+    const close = (info?: LiveCloseInfo) => {
+      if (!open) return;
+      open = false;
+      if (silenceTimer) clearTimeout(silenceTimer);
+      if (dropTimer) clearTimeout(dropTimer);
+      callbacks.onClose(info);
+    };
+
+    setTimeout(() => {
+      if (!open) return;
+      callbacks.onOpen();
+      callbacks.onResumptionHandle?.(resumptionHandle || crypto.randomUUID());
+      if (script.dropLiveAfterMs !== null) dropTimer = window.setTimeout(() => close({ code: 1006, reason: 'Mock connection dropped' }), script.dropLiveAfterMs);
+    }, 0);
+
+    return {
+      sendAudio: () => {
+        if (!open) return;
+        if (silenceTimer) clearTimeout(silenceTimer);
+        silenceTimer = window.setTimeout(async () => {
+          silenceTimer = null;
+          const replies = script.liveReplies;
+          if (replies.length === 0) return;
+          const index = replyIndex++ % replies.length;
+          const reply = replies[index];
+          const cue = tools.includes('spatialCues') ? script.liveCues[index] ?? null : null;
+          callbacks.onInputTranscript?.(script.heardText);
+          await wait(script.latencyMs);
+          if (open) playReply(reply, cue, callbacks);
+        }, script.replyAfterSilenceMs);
+      },
+      sendImage: () => {},
+      sendContext: () => {},
+      close: () => close({ code: 1000 })
+    };
+  }
+});
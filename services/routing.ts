@@ -0,0 +1,51 @@
+
+import { Coordinates } from '../types';
+import { resolveProviderName } from './visionProvider';
+import { createFixtureRoutingSource } from './routing/fixtureRoutingSource';
+import { createOsrmRoutingSource } from './routing/osrmRoutingSource';
+
+export type Maneuver = 'depart' | 'straight' | 'left' | 'right' | 'slight_left' | 'slight_right' | 'uturn' | 'arrive';
+
+export interface RouteStep {
+  /** Where the maneuver happens. */
+  location: Coordinates;
+  maneuver: Maneuver;
+  street?: string;
+}
+
+export interface Route {
+  destination: string;
+  /** First step is always `depart`, last is always `arrive`. */
+  steps: RouteStep[];
+}
+
+export interface RoutingSource {
+  readonly name: RoutingSourceName;
+  /** Credit the data's licence requires, shown while guidance runs. */
+  readonly attribution?: string;
+  getRoute: (origin: Coordinates, destination: string) => Promise<Route>;
+}
+
+export type RoutingSourceName = 'osrm' | 'fixture';
+
+const ROUTING_KEY = 'vision_voice_routing';
+
+/** Same lookup order as the vision provider; the fixture is the default whenever the mock provider is in use. */
+export const resolveRoutingSourceName = (): RoutingSourceName => {
+  const configured = localStorage.getItem(ROUTING_KEY) || import.meta.env.VITE_ROUTING_SOURCE;
+  if (configured === 'fixture' || configured === 'osrm') return configured;
+  return resolveProviderName() === 'mock' ? 'fixture' : 'osrm';
+};
+
+let source: RoutingSource | null = null;
+
+export const getRoutingSource = (): RoutingSource => {
+  const name = resolveRoutingSourceName();
+  if (!source || source.name !== name) {
+    source = name === 'fixture' ? createFixtureRoutingSource() : createOsrmRoutingSource({
+      geocoderUrl: import.meta.env.VITE_GEOCODER_URL || undefined,
+      routerUrl: import.meta.env.VITE_ROUTER_URL || undefined
+    });
+  }
+  return source;
+};
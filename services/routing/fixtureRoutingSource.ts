@@ -0,0 +1,17 @@
+
+import { RoutingSource } from '../routing';
+import { offsetMeters } from '../../utils/geo';
+
+/** Deterministic walk around the user's position: 60 m ahead, right for 80 m, left for 40 m. */
+export const createFixtureRoutingSource = (): RoutingSource => ({
+  name: 'fixture',
+  getRoute: async (origin, destination) => ({
+    destination,
+    steps: [
+      { location: origin, maneuver: 'depart', street: 'Fixture Street' },
+      { location: offsetMeters(origin, 60, 0), maneuver: 'right', street: 'Test Avenue' },
+      { location: offsetMeters(origin, 60, 80), maneuver: 'left', street: 'Sample Lane' },
+      { location: offsetMeters(origin, 100, 80), maneuver: 'arrive' }
+    ]
+  })
+});
@@ -0,0 +1,73 @@
+
+import { RoutingSource, Maneuver, RouteStep } from '../routing';
+
+/** OpenStreetMap's public Nominatim; its usage policy allows one request a second and asks for attribution. */
+export const DEFAULT_GEOCODER_URL = 'https://nominatim.openstreetmap.org/search';
+/** FOSSGIS's walking router. The OSRM demo server only has the car profile and ignores `/foot`. */
+export const DEFAULT_ROUTER_URL = 'https://routing.openstreetmap.de/routed-foot/route/v1/foot';
+/** Both public services ask for no more than one request a second from each client. */
+const MIN_REQUEST_GAP_MS = 1000;
+
+export interface OsrmRoutingOptions {
+  /** A Nominatim-compatible `/search` endpoint. */
+  geocoderUrl?: string;
+  /** An OSRM `/route/v1/<profile>` endpoint serving a walking profile. */
+  routerUrl?: string;
+}
+
+interface OsrmStep {
+  name: string;
+  maneuver: { type: string, modifier?: string, location: [number, number] };
+}
+
+const toManeuver = ({ type, modifier }: OsrmStep['maneuver']): Maneuver => {
+  if (type === 'depart' || type === 'arrive') return type;
+  switch (modifier) {
+    case 'left': case 'sharp left': return 'left';
+    case 'right': case 'sharp right': return 'right';
+    case 'slight left': return 'slight_left';
+    case 'slight right': return 'slight_right';
+    case 'uturn': return 'uturn';
+    default: return 'straight';
+  }
+};
+
+/**
+ * Geocodes with Nominatim (biased to ~5 km around the user) and routes on foot with OSRM. Requests
+ * are spaced a second apart and carry the app's origin as referrer, which identifies it to the
+ * public services as their policies require.
+ */
+export const createOsrmRoutingSource = ({ geocoderUrl = DEFAULT_GEOCODER_URL, routerUrl = DEFAULT_ROUTER_URL }: OsrmRoutingOptions = {}): RoutingSource => {
+  let lastRequest = 0;
+
+  const politeFetch = async (url: string) => {
+    const wait = lastRequest + MIN_REQUEST_GAP_MS - Date.now();
+    lastRequest = Date.now() + Math.max(0, wait);
+    if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+    return fetch(url, { referrerPolicy: 'strict-origin-when-cross-origin' });
+  };
+
+  return {
+    name: 'osrm',
+    attribution: '© OpenStreetMap contributors',
+    getRoute: async (origin, destination) => {
+      const { latitude: lat, longitude: lon } = origin;
+      const geocode = await politeFetch(`${geocoderUrl}?format=json&limit=1&q=${encodeURIComponent(destination)}&viewbox=${lon - 0.05},${lat + 0.05},${lon + 0.05},${lat - 0.05}`);
+      if (!geocode.ok) throw new Error(`Geocoding failed: ${geocode.status}`);
+      const [place] = await geocode.json() as { lat: string, lon: string, display_name: string }[];
+      if (!place) throw new Error(`No place found for "${destination}"`);
+
+      const routed = await politeFetch(`${routerUrl}/${lon},${lat};${place.lon},${place.lat}?steps=true&overview=false`);
+      if (!routed.ok) throw new Error(`Routing failed: ${routed.status}`);
+      const data = await routed.json() as { code: string, routes: { legs: { steps: OsrmStep[] }[] }[] };
+      if (data.code !== 'Ok' || !data.routes.length) throw new Error(`Routing failed: ${data.code}`);
+
+      const steps: RouteStep[] = data.routes[0].legs[0].steps.map(step => ({
+        location: { latitude: step.maneuver.location[1], longitude: step.maneuver.location[0] },
+        maneuver: toManeuver(step.maneuver),
+        street: step.name || undefined
+      }));
+      return { destination: place.display_name.split(',')[0], steps };
+    }
+  };
+};
@@ -0,0 +1,74 @@
+
+import { getSettings, updateSettings } from './settings';
+
+export type ScreenReaderPreference = 'auto' | 'on' | 'off';
+export type Politeness = 'polite' | 'assertive';
+
+const DETECTED_KEY = 'vision_voice_screen_reader_detected';
+/** A click this long after the last real pointer or key press is treated as synthesized. */
+const SYNTHETIC_CLICK_MS = 1000;
+
+export const getScreenReaderPreference = (): ScreenReaderPreference => getSettings().screenReader;
+
+export const setScreenReaderPreference = (preference: ScreenReaderPreference) => updateSettings({ screenReader: preference });
+
+export const wasScreenReaderDetected = () => localStorage.getItem(DETECTED_KEY) === '1';
+
+export const isScreenReaderModeEnabled = (preference = getScreenReaderPreference()) =>
+  preference === 'on' || (preference === 'auto' && wasScreenReaderDetected());
+
+/**
+ * Browsers don't expose whether a screen reader is running, so this watches for its footprint:
+ * TalkBack and VoiceOver activate controls with a click that has `detail === 0` and no
+ * preceding pointer or key event. The first such click is remembered for later launches.
+ */
+export const watchForScreenReader = (onDetected: () => void) => {
+  let lastInputAt = 0;
+  const markInput = () => { lastInputAt = Date.now(); };
+  const handleClick = (event: MouseEvent) => {
+    if (event.detail !== 0 || Date.now() - lastInputAt < SYNTHETIC_CLICK_MS) return;
+    localStorage.setItem(DETECTED_KEY, '1');
+    stop();
+    onDetected();
+  };
+  const stop = () => {
+    window.removeEventListener('pointerdown', markInput, true);
+    window.removeEventListener('keydown', markInput, true);
+    window.removeEventListener('click', handleClick, true);
+  };
+  window.addEventListener('pointerdown', markInput, true);
+  window.addEventListener('keydown', markInput, true);
+  window.addEventListener('click', handleClick, true);
+  return stop;
+};
+
+const regions: Partial<Record<Politeness, HTMLElement>> = {};
+
+const VISUALLY_HIDDEN = 'position:absolute;width:1px;height:1px;margin:-1px;padding:0;overflow:hidden;clip:rect(0,0,0,0);white-space:nowrap;border:0;';
+
+const getRegion = (politeness: Politeness) => {
+  if (!regions[politeness]) {
+    const region = document.createElement('div');
+    region.setAttribute('aria-live', politeness);
+    region.setAttribute('aria-atomic', 'true');
+    region.setAttribute('role', politeness === 'assertive' ? 'alert' : 'status');
+    region.style.cssText = VISUALLY_HIDDEN;
+    document.body.appendChild(region);
+    regions[politeness] = region;
+  }
+  return regions[politeness]!;
+};
+
+/** Rough time a screen reader needs for `text`, used where spoken prompts chain into the next step. */
+export const estimateReadingMs = (text: string) => 800 + text.split(/\s+/).filter(Boolean).length * 350;
+
+/**
+ * Hands `text` to the user's screen reader through a live region instead of speechSynthesis,
+ * so the two voices never talk over each other. The region is cleared first so repeating the
+ * same message is announced again.
+ */
+export const announce = (text: string, politeness: Politeness = 'polite') => {
+  const region = getRegion(politeness);
+  region.textContent = '';
+  window.setTimeout(() => { region.textContent = text; }, 50);
+};
@@ -0,0 +1,15 @@
+
+/**
+ * Registers `public/sw.js` in production builds; in dev it would serve stale modules over HMR.
+ * Once it is active, everything this page already loaded is handed to it to cache.
+ */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(() => {});
+    navigator.serviceWorker.ready.then(registration => {
+      const urls = [location.href, ...performance.getEntriesByType('resource').map(entry => entry.name)];
+      registration.active?.postMessage({ type: 'cache-urls', urls });
+    });
+  });
+};
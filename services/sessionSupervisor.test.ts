@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConnectionHooks, superviseLiveSession } from './sessionSupervisor';
+import { LiveSession } from './visionProvider';
+
+// The provider modules read saved settings when they load, and error sorting checks `navigator.onLine`.
+vi.hoisted(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); }
+  });
+  vi.stubGlobal('navigator', { onLine: true });
+  vi.stubGlobal('window', globalThis);
+});
+
+const fakeSession = (): LiveSession => ({ sendAudio: vi.fn(), sendImage: vi.fn(), sendContext: vi.fn(), close: vi.fn() });
+
+describe('superviseLiveSession', () => {
+  const onConnected = vi.fn();
+  const onRetrying = vi.fn();
+  const onFailed = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('backs off exponentially up to the cap, then gives up', async () => {
+    const connect = vi.fn().mockRejectedValue(new Error('network down'));
+    superviseLiveSession({ connect, onConnected, onRetrying, onFailed });
+    await vi.advanceTimersByTimeAsync(0);
+    const delays = [1000, 2000, 4000, 8000, 15000, 15000];
+    for (const delay of delays) await vi.advanceTimersByTimeAsync(delay);
+    expect(onRetrying.mock.calls).toEqual(delays.map((delay, i) => ['network', i + 1, delay]));
+    expect(onFailed).toHaveBeenCalledWith('network');
+    expect(connect).toHaveBeenCalledTimes(delays.length + 1);
+  });
+
+  it('does not retry what the user has to fix', async () => {
+    const connect = vi.fn().mockRejectedValue(new Error('401 API key not valid'));
+    superviseLiveSession({ connect, onConnected, onRetrying, onFailed });
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(onFailed).toHaveBeenCalledWith('auth');
+    expect(onRetrying).not.toHaveBeenCalled();
+    expect(connect).toHaveBeenCalledTimes(1);
+  });
+
+  it('reconnects at once after a clean close, resuming with the latest handle', async () => {
+    const hooks: ConnectionHooks[] = [];
+    const sessions: LiveSession[] = [];
+    const connect = vi.fn(async (connection: ConnectionHooks) => {
+      hooks.push(connection);
+      sessions.push(fakeSession());
+      return sessions[sessions.length - 1];
+    });
+    superviseLiveSession({ connect, onConnected, onRetrying, onFailed });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onConnected).toHaveBeenLastCalledWith(sessions[0], false);
+
+    hooks[0].onOpen();
+    hooks[0].onResumptionHandle('handle-1');
+    hooks[0].onClose({ code: 1000, reason: 'session limit' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sessions[0].close).toHaveBeenCalled();
+    expect(hooks[1].resumptionHandle).toBe('handle-1');
+    expect(onConnected).toHaveBeenLastCalledWith(sessions[1], true);
+    expect(onRetrying).not.toHaveBeenCalled();
+  });
+
+  it('carries a stopped conversation on from its handle', async () => {
+    const hooks: ConnectionHooks[] = [];
+    const connect = vi.fn(async (connection: ConnectionHooks) => { hooks.push(connection); return fakeSession(); });
+    const paused = superviseLiveSession({ connect, onConnected, onRetrying, onFailed });
+    await vi.advanceTimersByTimeAsync(0);
+    hooks[0].onResumptionHandle('handle-1');
+    paused.stop();
+    superviseLiveSession({ connect, resumptionHandle: paused.resumptionHandle(), onConnected, onRetrying, onFailed });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(hooks[1].resumptionHandle).toBe('handle-1');
+    expect(onConnected).toHaveBeenLastCalledWith(expect.anything(), true);
+  });
+
+  it('ignores hooks from a connection it has replaced', async () => {
+    const hooks: ConnectionHooks[] = [];
+    const connect = vi.fn(async (connection: ConnectionHooks) => { hooks.push(connection); return fakeSession(); });
+    const supervisor = superviseLiveSession({ connect, onConnected, onRetrying, onFailed });
+    await vi.advanceTimersByTimeAsync(0);
+    supervisor.retryNow();
+    await vi.advanceTimersByTimeAsync(0);
+    hooks[0].onError(new Error('network down'));
+    await vi.advanceTimersByTimeAsync(20000);
+    expect(connect).toHaveBeenCalledTimes(2);
+    expect(onRetrying).not.toHaveBeenCalled();
+  });
+
+  it('cancels a pending retry when stopped', async () => {
+    const connect = vi.fn().mockRejectedValue(new Error('network down'));
+    const supervisor = superviseLiveSession({ connect, onConnected, onRetrying, onFailed });
+    await vi.advanceTimersByTimeAsync(0);
+    supervisor.stop();
+    await vi.advanceTimersByTimeAsync(20000);
+    expect(connect).toHaveBeenCalledTimes(1);
+  });
+});
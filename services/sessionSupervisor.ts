@@ -0,0 +1,113 @@
+
+import { LiveSession, LiveCloseInfo, LiveErrorKind, classifyLiveError } from './visionProvider';
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15000;
+const MAX_ATTEMPTS = 6;
+/** A connection that stayed up this long resets the backoff. */
+const STABLE_MS = 10000;
+/** Failures the user has to fix themselves; retrying them only repeats the error. */
+const FATAL: LiveErrorKind[] = ['microphone', 'auth'];
+
+/** What one connection attempt must report back so the supervisor can follow its lifetime. */
+export interface ConnectionHooks {
+  resumptionHandle?: string;
+  onOpen: () => void;
+  onResumptionHandle: (handle: string) => void;
+  onError: (error: unknown) => void;
+  onClose: (info?: LiveCloseInfo) => void;
+}
+
+export interface SessionSupervisorOptions {
+  connect: (hooks: ConnectionHooks) => Promise<LiveSession>;
+  /** Picks up a conversation an earlier supervisor left off (its `resumptionHandle()`) instead of starting afresh. */
+  resumptionHandle?: string;
+  /** `resumed` is true when a dropped conversation was picked up again. */
+  onConnected: (session: LiveSession, resumed: boolean) => void;
+  onRetrying: (kind: LiveErrorKind, attempt: number, delayMs: number) => void;
+  onFailed: (kind: LiveErrorKind) => void;
+}
+
+export interface SessionSupervisor {
+  /** Drops any pending retry and starts again from the first attempt. */
+  retryNow: () => void;
+  /** The latest handle, so a later supervisor can carry on this conversation after `stop`. */
+  resumptionHandle: () => string | undefined;
+  stop: () => void;
+}
+
+/**
+ * Keeps one live session open: a drop or error closes the old connection and reconnects with
+ * exponential backoff, carrying the latest resumption handle so the model keeps its context.
+ * A clean server close (e.g. the session time limit) reconnects straight away.
+ */
+export const superviseLiveSession = ({ connect, resumptionHandle: resumeFrom, onConnected, onRetrying, onFailed }: SessionSupervisorOptions): SessionSupervisor => {
+  let stopped = false;
+  let generation = 0;
+  let attempt = 0;
+  let retryTimer: number | null = null;
+  let session: LiveSession | null = null;
+  let resumptionHandle = resumeFrom;
+  let hasConnected = !!resumeFrom;
+  let openedAt: number | null = null;
+
+  const closeCurrent = () => {
+    generation++;
+    if (session) { try { session.close(); } catch (e) {} session = null; }
+  };
+
+  const scheduleRetry = (kind: LiveErrorKind, clean = false) => {
+    closeCurrent();
+    if (stopped) return;
+    if (openedAt !== null && Date.now() - openedAt > STABLE_MS) attempt = 0;
+    openedAt = null;
+    if (FATAL.includes(kind) || attempt >= MAX_ATTEMPTS) { onFailed(kind); return; }
+    if (clean && attempt === 0) { attempt++; open(); return; }
+    const delayMs = Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
+    attempt++;
+    onRetrying(kind, attempt, delayMs);
+    retryTimer = window.setTimeout(() => { retryTimer = null; open(); }, delayMs);
+  };
+
+  const open = async () => {
+    const current = ++generation;
+    const isCurrent = () => !stopped && current === generation;
+    const resuming = hasConnected;
+    try {
+      const connected = await connect({
+        resumptionHandle,
+        onOpen: () => { if (isCurrent()) openedAt = Date.now(); },
+        onResumptionHandle: (handle) => { if (isCurrent()) resumptionHandle = handle; },
+        onError: (error) => { if (isCurrent()) scheduleRetry(classifyLiveError(error)); },
+        onClose: (info) => {
+          if (!isCurrent()) return;
+          scheduleRetry(info?.code === 1000 ? 'server' : classifyLiveError(undefined, info), info?.code === 1000);
+        }
+      });
+      if (!isCurrent()) { try { connected.close(); } catch (e) {} return; }
+      session = connected;
+      hasConnected = true;
+      onConnected(connected, resuming && !!resumptionHandle);
+    } catch (error) {
+      if (isCurrent()) scheduleRetry(classifyLiveError(error));
+    }
+  };
+
+  open();
+
+  return {
+    retryNow: () => {
+      if (stopped) return;
+      if (retryTimer) { window.clearTimeout(retryTimer); retryTimer = null; }
+      attempt = 0;
+      closeCurrent();
+      open();
+    },
+    resumptionHandle: () => resumptionHandle,
+    stop: () => {
+      stopped = true;
+      if (retryTimer) { window.clearTimeout(retryTimer); retryTimer = null; }
+      closeCurrent();
+    }
+  };
+};
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS, SETTING_FIELDS, SettingField, snapSetting, stepSetting } from './settings';
+
+// The static import above loads from an empty store; each loading test re-imports against its own.
+vi.hoisted(() => {
+  vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {}, removeItem: () => {} });
+});
+
+let store: Map<string, string>;
+
+const stubStorage = (entries: Record<string, string>) => {
+  store = new Map(Object.entries(entries));
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); }
+  });
+};
+
+const loadSettings = async (entries: Record<string, string>) => {
+  stubStorage(entries);
+  vi.resetModules();
+  return (await import('./settings')).getSettings();
+};
+
+const field = (key: string) => SETTING_FIELDS.find(f => f.key === key)!;
+
+describe('loading settings', () => {
+  afterEach(() => { vi.unstubAllGlobals(); });
+
+  it('adopts the unversioned language key into version 1 and removes it', async () => {
+    const settings = await loadSettings({ vision_voice_lang: 'hi-IN' });
+    expect(settings).toMatchObject({ languageCode: 'hi-IN' });
+    expect(store.get('vision_voice_lang')).toBeUndefined();
+    expect(JSON.parse(store.get('vision_voice_settings')!)).toEqual({ version: 1, settings });
+  });
+
+  it('falls back to the default for each invalid value', async () => {
+    const settings = await loadSettings({
+      vision_voice_settings: JSON.stringify({
+        version: 1,
+        settings: {
+          speechRate: 9,
+          verbosity: 'loud',
+          handsFree: true,
+          sosContacts: [{ id: '1', name: 'Sam', phone: '+100' }, { name: 'No phone' }],
+          unknown: 'dropped'
+        }
+      })
+    });
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, handsFree: true, sosContacts: [{ id: '1', name: 'Sam', phone: '+100' }] });
+  });
+
+  it('starts from the defaults when the stored copy is corrupt', async () => {
+    expect(await loadSettings({ vision_voice_settings: '{not json' })).toEqual(DEFAULT_SETTINGS);
+  });
+});
+
+describe('stepSetting', () => {
+  it('wraps choices and toggles', () => {
+    expect(stepSetting(field('verbosity'), 'detailed', 1)).toBe('brief');
+    expect(stepSetting(field('verbosity'), 'brief', -1)).toBe('detailed');
+    expect(stepSetting(field('handsFree'), false, 1)).toBe(true);
+  });
+
+  it('clamps numbers to their range', () => {
+    expect(stepSetting(field('speechRate'), 1.75, 1)).toBe(2);
+    expect(stepSetting(field('speechRate'), 2, 1)).toBe(2);
+    expect(stepSetting(field('countdownSeconds'), 0, -1)).toBe(0);
+  });
+});
+
+describe('snapSetting', () => {
+  const speechRate = field('speechRate') as Extract<SettingField, { kind: 'number' }>;
+
+  it('snaps to the nearest step and refuses values out of range', () => {
+    expect(snapSetting(speechRate, 1.3)).toBe(1.25);
+    expect(snapSetting(speechRate, 3)).toBeNull();
+  });
+});
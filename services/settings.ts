@@ -0,0 +1,185 @@
+
+import type { VadSensitivity } from './voiceActivity';
+import type { ScreenReaderPreference } from './screenReader';
+import type { SpatialAudioPreference } from './spatialAudio';
+import type { FeedbackStyle } from './cues';
+import type { GestureBindingOverrides } from './gestureBindings';
+import type { TrustedContact } from '../types';
+
+export type Verbosity = 'brief' | 'standard' | 'detailed';
+
+export interface Settings {
+  /** BCP-47 code picked on first launch; `null` until then. */
+  languageCode: string | null;
+  /** Prebuilt voice of the live model. */
+  voiceName: string;
+  /** speechSynthesis rate for the app's own prompts. */
+  speechRate: number;
+  verbosity: Verbosity;
+  /** Spoken countdown before a scene photo. */
+  countdownSeconds: number;
+  /** Press length that starts push-to-talk. */
+  holdThresholdMs: number;
+  /** Empty uses the build default (`VITE_GEMINI_LIVE_MODEL` / `VITE_GEMINI_MODEL`). */
+  liveModel: string;
+  oneShotModel: string;
+  handsFree: boolean;
+  vadSensitivity: VadSensitivity;
+  captions: boolean;
+  /** Index into `CAPTION_SIZES`. */
+  captionSize: number;
+  screenReader: ScreenReaderPreference;
+  spatialAudio: SpatialAudioPreference;
+  feedback: FeedbackStyle;
+  /** Only where the user changed the defaults; see `services/gestureBindings.ts`. */
+  gestureBindings: GestureBindingOverrides;
+  /** Three hard shakes start the SOS countdown. */
+  sosShake: boolean;
+  sosContacts: TrustedContact[];
+  /** Receives the SOS as JSON; empty texts the trusted contacts. */
+  sosWebhookUrl: string;
+}
+
+/** Keys shown as fields on the settings screen. */
+export type SettingKey = Exclude<keyof Settings, 'languageCode' | 'gestureBindings' | 'sosContacts' | 'sosWebhookUrl'>;
+
+export type SettingField =
+  /** `optionKey` maps an option to its i18n key; options without one are read as-is (voice and model names). */
+  | { key: SettingKey, labelKey: string, kind: 'choice', options: readonly (string | number)[], optionKey?: (option: string | number) => string | null }
+  | { key: SettingKey, labelKey: string, kind: 'number', min: number, max: number, step: number, unitKey: string }
+  | { key: SettingKey, labelKey: string, kind: 'toggle' };
+
+type SettingValue = Settings[SettingKey];
+
+const STORAGE_KEY = 'vision_voice_settings';
+const VERSION = 1;
+
+export const DEFAULT_SETTINGS: Settings = {
+  languageCode: null,
+  voiceName: 'Zephyr',
+  speechRate: 1,
+  verbosity: 'standard',
+  countdownSeconds: 3,
+  holdThresholdMs: 450,
+  liveModel: '',
+  oneShotModel: '',
+  handsFree: false,
+  vadSensitivity: 'medium',
+  captions: true,
+  captionSize: 1,
+  screenReader: 'auto',
+  spatialAudio: 'auto',
+  feedback: 'speech',
+  gestureBindings: {},
+  sosShake: false,
+  sosContacts: [],
+  sosWebhookUrl: ''
+};
+
+/** Screen order. */
+export const SETTING_FIELDS: SettingField[] = [
+  { key: 'verbosity', labelKey: 'setting_verbosity', kind: 'choice', options: ['brief', 'standard', 'detailed'], optionKey: option => `verbosity_${option}` },
+  { key: 'speechRate', labelKey: 'setting_speech_rate', kind: 'number', min: 0.5, max: 2, step: 0.25, unitKey: 'unit_times' },
+  { key: 'voiceName', labelKey: 'setting_voice', kind: 'choice', options: ['Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede', 'Leda', 'Orus'] },
+  { key: 'feedback', labelKey: 'feedback_style', kind: 'choice', options: ['speech', 'earcon', 'haptic'], optionKey: option => `feedback_${option}` },
+  { key: 'countdownSeconds', labelKey: 'setting_countdown', kind: 'number', min: 0, max: 5, step: 1, unitKey: 'unit_seconds' },
+  { key: 'holdThresholdMs', labelKey: 'setting_hold', kind: 'number', min: 300, max: 1000, step: 50, unitKey: 'unit_ms' },
+  { key: 'handsFree', labelKey: 'hands_free', kind: 'toggle' },
+  { key: 'vadSensitivity', labelKey: 'sensitivity', kind: 'choice', options: ['low', 'medium', 'high'], optionKey: option => `sensitivity_${option}` },
+  { key: 'captions', labelKey: 'captions', kind: 'toggle' },
+  { key: 'sosShake', labelKey: 'setting_sos_shake', kind: 'toggle' },
+  { key: 'captionSize', labelKey: 'setting_caption_size', kind: 'choice', options: [0, 1, 2, 3], optionKey: option => `caption_size_${option}` },
+  { key: 'spatialAudio', labelKey: 'spatial_audio', kind: 'choice', options: ['auto', 'on', 'off'], optionKey: option => `setting_${option}` },
+  { key: 'screenReader', labelKey: 'sr_mode', kind: 'choice', options: ['auto', 'on', 'off'], optionKey: option => `setting_${option}` },
+  { key: 'liveModel', labelKey: 'setting_live_model', kind: 'choice', options: ['', 'gemini-2.5-flash-native-audio-preview-12-2025', 'gemini-live-2.5-flash-preview'], optionKey: option => option === '' ? 'setting_default' : null },
+  // `ONE_SHOT_MODELS` in `server/keyProxy.ts` must list the same models.
+  { key: 'oneShotModel', labelKey: 'setting_photo_model', kind: 'choice', options: ['', 'gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'], optionKey: option => option === '' ? 'setting_default' : null }
+];
+
+const isValid = (field: SettingField, value: unknown) => {
+  if (field.kind === 'toggle') return typeof value === 'boolean';
+  if (field.kind === 'number') return typeof value === 'number' && value >= field.min && value <= field.max;
+  return field.options.includes(value as string | number);
+};
+
+/** Drops unknown keys and out-of-range values, falling back to defaults field by field. */
+const sanitize = (raw: Record<string, unknown>): Settings => {
+  const settings: Settings = { ...DEFAULT_SETTINGS };
+  SETTING_FIELDS.forEach(field => {
+    if (isValid(field, raw[field.key])) (settings as Record<SettingKey, SettingValue>)[field.key] = raw[field.key] as SettingValue;
+  });
+  if (typeof raw.languageCode === 'string') settings.languageCode = raw.languageCode;
+  // Entries are checked against the known gestures and actions when they are read.
+  if (raw.gestureBindings && typeof raw.gestureBindings === 'object' && !Array.isArray(raw.gestureBindings)) {
+    settings.gestureBindings = Object.fromEntries(Object.entries(raw.gestureBindings).filter(([, action]) => typeof action === 'string'));
+  }
+  if (Array.isArray(raw.sosContacts)) {
+    settings.sosContacts = raw.sosContacts.filter((contact): contact is TrustedContact =>
+      typeof contact?.id === 'string' && typeof contact.name === 'string' && typeof contact.phone === 'string');
+  }
+  if (typeof raw.sosWebhookUrl === 'string') settings.sosWebhookUrl = raw.sosWebhookUrl;
+  return settings;
+};
+
+/** The one preference stored on its own before settings were versioned. */
+const LEGACY_LANGUAGE_KEY = 'vision_voice_lang';
+
+/** `MIGRATIONS[n]` upgrades version n to n + 1. */
+const MIGRATIONS: ((settings: Record<string, unknown>) => Record<string, unknown>)[] = [
+  // 0 → 1: adopt the legacy language key.
+  (settings) => {
+    const languageCode = localStorage.getItem(LEGACY_LANGUAGE_KEY);
+    localStorage.removeItem(LEGACY_LANGUAGE_KEY);
+    return { ...settings, ...(languageCode && { languageCode }) };
+  }
+];
+
+const save = (settings: Settings) => localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: VERSION, settings }));
+
+const load = (): Settings => {
+  let stored: { version: number, settings: Record<string, unknown> } = { version: 0, settings: {} };
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) stored = JSON.parse(saved);
+  } catch (e) {}
+  let raw = stored.settings || {};
+  for (let version = stored.version || 0; version < VERSION; version++) raw = MIGRATIONS[version](raw);
+  const settings = sanitize(raw);
+  if (stored.version !== VERSION) save(settings);
+  return settings;
+};
+
+type SettingsListener = (settings: Settings) => void;
+
+let current: Settings = load();
+const listeners = new Set<SettingsListener>();
+
+export const getSettings = () => current;
+
+export const updateSettings = (patch: Partial<Settings>) => {
+  current = sanitize({ ...current, ...patch });
+  save(current);
+  listeners.forEach(listener => listener(current));
+  return current;
+};
+
+export const resetSetting = (key: SettingKey) => updateSettings({ [key]: DEFAULT_SETTINGS[key] });
+
+export const subscribeSettings = (listener: SettingsListener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** The next (`step` 1) or previous (`step` -1) value of a field, wrapping for choices and toggles and clamping numbers. */
+export const stepSetting = (field: SettingField, value: SettingValue, step: 1 | -1): SettingValue => {
+  if (field.kind === 'toggle') return !value;
+  if (field.kind === 'number') return Math.min(field.max, Math.max(field.min, Math.round(((value as number) + step * field.step) * 100) / 100));
+  const index = field.options.indexOf(value as string | number);
+  return field.options[(index + step + field.options.length) % field.options.length];
+};
+
+/** Closest allowed value to a spoken number, or `null` when it is out of range. */
+export const snapSetting = (field: Extract<SettingField, { kind: 'number' }>, spoken: number) => {
+  if (spoken < field.min || spoken > field.max) return null;
+  return Math.round(Math.round((spoken - field.min) / field.step) * field.step * 100) / 100 + field.min;
+};
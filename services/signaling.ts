@@ -0,0 +1,70 @@
+import { createHttpSignaling } from './signaling/httpSignaling';
+import { createBroadcastSignaling } from './signaling/broadcastSignaling';
+
+/** The blind user's phone sends the camera; the helper's browser watches it. */
+export type SignalRole = 'user' | 'helper';
+
+/** Apart from `ready`, every message carries the id of the helper it comes from or is meant for. */
+export type SignalMessage =
+  /** The user's side is listening; a helper that is already waiting asks again. */
+  | { type: 'ready' }
+  /** A helper asks to join; the user hears `name` and decides. */
+  | { type: 'join', id: string, name: string }
+  /** The user turned this helper away, or already has one. */
+  | { type: 'reject', id: string }
+  | { type: 'offer', id: string, sdp: string }
+  | { type: 'answer', id: string, sdp: string }
+  | { type: 'candidate', id: string, candidate: RTCIceCandidateInit }
+  | { type: 'hangup', id: string };
+
+export interface SignalingOptions {
+  room: string;
+  role: SignalRole;
+  /** Messages from the other role in the room, in order. */
+  onMessage: (message: SignalMessage) => void;
+}
+
+export interface SignalingChannel {
+  send: (message: SignalMessage) => Promise<void>;
+  close: () => void;
+}
+
+export interface SignalingTransport {
+  readonly name: SignalingTransportName;
+  connect: (options: SignalingOptions) => SignalingChannel;
+}
+
+export type SignalingTransportName = 'http' | 'broadcast';
+
+const SIGNALING_KEY = 'vision_voice_signaling';
+
+/**
+ * `localStorage.vision_voice_signaling`, then `VITE_SIGNALING`: `http` (default) relays through
+ * `/api/signal`; `broadcast` only reaches other tabs of the same browser, for trying a call locally.
+ */
+export const resolveSignalingTransportName = (): SignalingTransportName => {
+  const configured = localStorage.getItem(SIGNALING_KEY) || import.meta.env.VITE_SIGNALING;
+  return configured === 'broadcast' ? 'broadcast' : 'http';
+};
+
+/**
+ * Origin of the relay for `http`. The dev server serves one itself; deployed builds have none,
+ * so `VITE_SIGNALING_URL` must name one. `null` when there is nowhere to relay through.
+ */
+export const resolveRelayUrl = () => {
+  if (import.meta.env.VITE_SIGNALING_URL) return import.meta.env.VITE_SIGNALING_URL;
+  return import.meta.env.DEV ? '' : null;
+};
+
+let transport: SignalingTransport | null = null;
+
+/** `null` when helper calls can't be placed from this build. */
+export const getSignalingTransport = (): SignalingTransport | null => {
+  const name = resolveSignalingTransportName();
+  const relayUrl = resolveRelayUrl();
+  if (name === 'http' && relayUrl === null) return null;
+  if (!transport || transport.name !== name) {
+    transport = name === 'broadcast' ? createBroadcastSignaling() : createHttpSignaling(relayUrl || '');
+  }
+  return transport;
+};
@@ -0,0 +1,16 @@
+import type { SignalingTransport, SignalRole, SignalMessage } from '../signaling';
+
+/** Tabs of the same browser only, for trying a call without a relay; nothing is queued for a tab that isn't open yet. */
+export const createBroadcastSignaling = (): SignalingTransport => ({
+  name: 'broadcast',
+  connect: ({ room, role, onMessage }) => {
+    const channel = new BroadcastChannel(`vision_voice_signal_${room}`);
+    channel.onmessage = (event: MessageEvent<{ from: SignalRole, message: SignalMessage }>) => {
+      if (event.data.from !== role) onMessage(event.data.message);
+    };
+    return {
+      send: async (message) => channel.postMessage({ from: role, message }),
+      close: () => channel.close()
+    };
+  }
+});
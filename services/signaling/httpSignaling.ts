@@ -0,0 +1,44 @@
+import type { SignalingTransport, SignalMessage } from '../signaling';
+
+/** Before polling again after a failed poll, so an unreachable relay isn't hammered. */
+const RETRY_MS = 2000;
+
+/** Long polls the relay in `server/signaling.ts` (or one with the same API at `baseUrl`). */
+export const createHttpSignaling = (baseUrl: string): SignalingTransport => ({
+  name: 'http',
+  connect: ({ room, role, onMessage }) => {
+    const endpoint = `${baseUrl}/api/signal`;
+    const aborter = new AbortController();
+    /** Last message seen, so every poll only returns what is new. */
+    let cursor = 0;
+
+    const poll = async () => {
+      while (!aborter.signal.aborted) {
+        try {
+          const response = await fetch(`${endpoint}?room=${encodeURIComponent(room)}&role=${role}&after=${cursor}`, { cache: 'no-store', signal: aborter.signal });
+          if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+          const { messages, cursor: next } = await response.json() as { messages: SignalMessage[], cursor: number };
+          cursor = next;
+          messages.forEach(message => { if (!aborter.signal.aborted) onMessage(message); });
+        } catch (e) {
+          if (aborter.signal.aborted) return;
+          await new Promise(resolve => setTimeout(resolve, RETRY_MS));
+        }
+      }
+    };
+    poll();
+
+    return {
+      send: async (message) => {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ room, role, message }),
+          signal: aborter.signal
+        });
+        if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      },
+      close: () => aborter.abort()
+    };
+  }
+});
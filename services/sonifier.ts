@@ -0,0 +1,55 @@
+
+import { Sonification } from './objectFinder';
+
+const VOLUME = 0.25;
+const GLIDE_S = 0.08;
+
+export interface Sonifier {
+  /** `null` silences the tone until the next update. */
+  update: (sound: Sonification | null) => void;
+  stop: () => void;
+}
+
+/**
+ * A continuous tone pulsed by a low-frequency oscillator, so pitch, pulse rate and stereo
+ * position can all glide smoothly as new positions arrive.
+ */
+export const createSonifier = (): Sonifier => {
+  const AudioCtx = (window.AudioContext || (window as any).webkitAudioContext);
+  const ctx: AudioContext = new AudioCtx();
+  const carrier = ctx.createOscillator();
+  const pulse = ctx.createGain();
+  const lfo = ctx.createOscillator();
+  const lfoDepth = ctx.createGain();
+  const master = ctx.createGain();
+  const panner = ctx.createStereoPanner();
+
+  carrier.type = 'triangle';
+  lfo.type = 'square';
+  // pulse.gain swings between 0 and 1 around its 0.5 base.
+  pulse.gain.value = 0.5;
+  lfoDepth.gain.value = 0.5;
+  master.gain.value = 0;
+
+  lfo.connect(lfoDepth).connect(pulse.gain);
+  carrier.connect(pulse).connect(master).connect(panner).connect(ctx.destination);
+  carrier.start();
+  lfo.start();
+
+  return {
+    update: (sound) => {
+      const now = ctx.currentTime;
+      if (!sound) { master.gain.setTargetAtTime(0, now, GLIDE_S); return; }
+      master.gain.setTargetAtTime(VOLUME, now, GLIDE_S);
+      carrier.frequency.setTargetAtTime(sound.frequency, now, GLIDE_S);
+      lfo.frequency.setTargetAtTime(sound.rate, now, GLIDE_S);
+      // Centred: the pulsing stops and the tone holds steady.
+      lfoDepth.gain.setTargetAtTime(sound.centred ? 0 : 0.5, now, GLIDE_S);
+      panner.pan.setTargetAtTime(sound.pan, now, GLIDE_S);
+    },
+    stop: () => {
+      try { carrier.stop(); lfo.stop(); } catch (e) {}
+      ctx.close();
+    }
+  };
+};
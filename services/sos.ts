@@ -0,0 +1,147 @@
+
+import { Coordinates, TrustedContact } from '../types';
+import { Translator } from '../i18n';
+import { getSettings, updateSettings } from './settings';
+
+/** Seconds spoken before the message goes out; a tap anywhere in that time cancels it. */
+export const SOS_COUNTDOWN_SECONDS = 5;
+
+/** Net acceleration (m/s²) of a deliberate shake, well above walking or a phone dropped into a bag. */
+const SHAKE_ACCELERATION = 25;
+const SHAKES_NEEDED = 3;
+const SHAKE_WINDOW_MS = 1500;
+/** One shake peaks over several motion events; count it once. */
+const SHAKE_GAP_MS = 200;
+const GRAVITY = 9.81;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/** Only the webhook sends anything itself; the other two leave a message for the user to send. */
+export type SosChannel = 'webhook' | 'share_opened' | 'sms_opened';
+
+export interface SosResult {
+  /** `needs_tap` when the browser only shares from a fresh user gesture; `null` when nothing went out. */
+  channel: SosChannel | 'needs_tap' | null;
+  /** A webhook is set but did not confirm the message, so another channel was tried. */
+  webhookFailed: boolean;
+}
+
+export type SosState =
+  | { phase: 'countdown', seconds: number }
+  | { phase: 'sending' }
+  /** The share sheet needs a fresh tap; the countdown outlived the one that started it. */
+  | { phase: 'share', message: string, coordinates: Coordinates | null }
+  | { phase: 'sent', message: string }
+  /** A text or share target holds the message; it only goes out when the user presses Send there. */
+  | { phase: 'opened', message: string, channel: Exclude<SosChannel, 'webhook'> };
+
+export const mapLink = ({ latitude, longitude }: Coordinates) =>
+  `https://www.google.com/maps/search/?api=1&query=${latitude.toFixed(6)},${longitude.toFixed(6)}`;
+
+/** In the user's language, which their contacts most likely share. */
+export const buildSosMessage = (coordinates: Coordinates | null, t: Translator) => coordinates
+  ? t('sos_message', { latitude: coordinates.latitude.toFixed(6), longitude: coordinates.longitude.toFixed(6), link: mapLink(coordinates) })
+  : t('sos_message_no_location');
+
+/** Digits with a leading `+` kept; `null` when too short to dial. */
+export const normalizePhone = (input: string) => {
+  const phone = input.trim().replace(/[^\d+]/g, '').replace(/(?!^)\+/g, '');
+  return phone.replace('+', '').length >= 3 ? phone : null;
+};
+
+export const addTrustedContact = (name: string, phone: string): TrustedContact => {
+  const contact = { id: crypto.randomUUID(), name: name.trim(), phone };
+  updateSettings({ sosContacts: [...getSettings().sosContacts, contact] });
+  return contact;
+};
+
+export const removeTrustedContact = (id: string) =>
+  updateSettings({ sosContacts: getSettings().sosContacts.filter(contact => contact.id !== id) });
+
+/** Only http(s) URLs are kept; anything else clears the webhook. */
+export const setSosWebhookUrl = (input: string) => {
+  let url = '';
+  try { url = ['https:', 'http:'].includes(new URL(input.trim()).protocol) ? input.trim() : ''; } catch (e) {}
+  updateSettings({ sosWebhookUrl: url });
+  return url;
+};
+
+/** `?&body=` is read by both Android and iOS messaging apps. */
+const smsLink = (message: string, contacts: TrustedContact[]) =>
+  `sms:${contacts.map(contact => contact.phone).join(',')}?&body=${encodeURIComponent(message)}`;
+
+/**
+ * Sent as `text/plain` so the browser makes a simple request with no CORS preflight; the body is
+ * still JSON. The response is only readable, and the send only counts, when the webhook answers
+ * with `Access-Control-Allow-Origin` for the app's origin.
+ */
+const postWebhook = async (url: string, message: string, coordinates: Coordinates | null) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'text/plain;charset=UTF-8' },
+    body: JSON.stringify({
+      message,
+      coordinates,
+      mapLink: coordinates ? mapLink(coordinates) : null,
+      contacts: getSettings().sosContacts.map(({ name, phone }) => ({ name, phone })),
+      sentAt: new Date().toISOString()
+    }),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+  });
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+};
+
+/**
+ * Opens a text addressed to the trusted contacts, or the share sheet when there are none. Neither
+ * sends it: the draft or the picked app still waits for Send. Resolves to what was opened, `null`
+ * when it was dismissed or nothing is available, or `needs_tap` when the browser only shares from
+ * a fresh user gesture.
+ */
+export const shareSos = async (message: string): Promise<Exclude<SosChannel, 'webhook'> | 'needs_tap' | null> => {
+  const contacts = getSettings().sosContacts.filter(contact => contact.phone);
+  if (contacts.length) {
+    window.location.href = smsLink(message, contacts);
+    return 'sms_opened';
+  }
+  if (!navigator.share) return null;
+  try {
+    // Resolves once a target is picked, before anything is sent.
+    await navigator.share({ text: message });
+    return 'share_opened';
+  } catch (e) {
+    return e instanceof DOMException && e.name === 'NotAllowedError' ? 'needs_tap' : null;
+  }
+};
+
+/** The configured webhook needs nobody to confirm it, so it goes first; a text to the contacts is the fallback. */
+export const sendSos = async (message: string, coordinates: Coordinates | null): Promise<SosResult> => {
+  const { sosWebhookUrl } = getSettings();
+  if (sosWebhookUrl) {
+    try {
+      await postWebhook(sosWebhookUrl, message, coordinates);
+      return { channel: 'webhook', webhookFailed: false };
+    } catch (e) {
+      // Offline, misconfigured or missing CORS headers; the contacts can still be texted.
+      return { channel: await shareSos(message), webhookFailed: true };
+    }
+  }
+  return { channel: await shareSos(message), webhookFailed: false };
+};
+
+/** Calls `onShake` after a few hard shakes in quick succession; returns the unsubscribe. */
+export const watchForShake = (onShake: () => void) => {
+  let peaks: number[] = [];
+  const handleMotion = (event: DeviceMotionEvent) => {
+    const { acceleration, accelerationIncludingGravity: withGravity } = event;
+    const net = acceleration?.x != null
+      ? Math.hypot(acceleration.x, acceleration.y ?? 0, acceleration.z ?? 0)
+      : withGravity?.x != null ? Math.abs(Math.hypot(withGravity.x, withGravity.y ?? 0, withGravity.z ?? 0) - GRAVITY) : 0;
+    const now = Date.now();
+    if (net < SHAKE_ACCELERATION || (peaks.length && now - peaks[peaks.length - 1] < SHAKE_GAP_MS)) return;
+    peaks = [...peaks.filter(at => now - at < SHAKE_WINDOW_MS), now];
+    if (peaks.length < SHAKES_NEEDED) return;
+    peaks = [];
+    onShake();
+  };
+  window.addEventListener('devicemotion', handleMotion);
+  return () => window.removeEventListener('devicemotion', handleMotion);
+};
@@ -0,0 +1,144 @@
+
+import { getHeading, subscribeHeading } from './heading';
+import { normalizeDegrees } from '../utils/geo';
+import { getCueContext, playTones } from '../utils/earcons';
+import { SpatialCue } from './visionProvider';
+import { getSettings, updateSettings } from './settings';
+
+export type SpatialAudioPreference = 'auto' | 'on' | 'off';
+
+/** Output device labels that are worn on the head; built-in earpieces and speakers are excluded below. */
+const HEADPHONE_LABEL = /head(phone|set)|ear(phone|bud)|airpods|buds|bluetooth|hands-?free/i;
+const BUILT_IN_LABEL = /earpiece|speaker/i;
+/** Metres from the listener; far enough that HRTF cues don't sound inside the head. */
+const DISTANCE = 2;
+const GLIDE_S = 0.05;
+
+const CUE_TONES: Record<SpatialCue['kind'], [number, number][]> = {
+  hazard: [[880, 90], [660, 90], [880, 140]],
+  landmark: [[523, 100], [784, 160]]
+};
+
+export const getSpatialAudioPreference = (): SpatialAudioPreference => getSettings().spatialAudio;
+
+export const setSpatialAudioPreference = (preference: SpatialAudioPreference) => updateSettings({ spatialAudio: preference });
+
+let headphonesDetected = false;
+let watchingDevices = false;
+
+const refreshOutputs = async () => {
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    headphonesDetected = devices.some(device => device.kind === 'audiooutput' && HEADPHONE_LABEL.test(device.label) && !BUILT_IN_LABEL.test(device.label));
+  } catch (e) { headphonesDetected = false; }
+};
+
+/**
+ * Tracks whether headphones are plugged in. Device labels only appear once microphone
+ * permission is granted, so call again after the mic starts; platforms that list no outputs
+ * (iOS Safari) never report headphones and `auto` stays mono there.
+ */
+export const watchHeadphones = () => {
+  refreshOutputs();
+  if (watchingDevices || !navigator.mediaDevices?.addEventListener) return;
+  watchingDevices = true;
+  navigator.mediaDevices.addEventListener('devicechange', refreshOutputs);
+};
+
+export const areHeadphonesDetected = () => headphonesDetected;
+
+/** On a phone speaker left and right collapse into one, so without headphones everything stays mono. */
+export const isSpatialAudioEnabled = (preference = getSpatialAudioPreference()) =>
+  preference === 'on' || (preference === 'auto' && headphonesDetected);
+
+/** Degrees clockwise from straight ahead; 12 o'clock is 0°, 3 o'clock is 90°. */
+export const clockToAzimuth = (clock: number) => normalizeDegrees((clock % 12) * 30);
+
+const createPanner = (ctx: AudioContext) => {
+  const panner = ctx.createPanner();
+  panner.panningModel = 'HRTF';
+  panner.distanceModel = 'inverse';
+  panner.refDistance = DISTANCE;
+  return panner;
+};
+
+/** The listener faces -z by default, so 0° is (0, 0, -d) and 90° is (d, 0, 0). */
+const positionPanner = (panner: PannerNode, azimuth: number) => {
+  const rad = azimuth * Math.PI / 180;
+  const x = Math.sin(rad) * DISTANCE;
+  const z = -Math.cos(rad) * DISTANCE;
+  if (panner.positionX) {
+    const now = panner.context.currentTime;
+    panner.positionX.setTargetAtTime(x, now, GLIDE_S);
+    panner.positionY.setTargetAtTime(0, now, GLIDE_S);
+    panner.positionZ.setTargetAtTime(z, now, GLIDE_S);
+  } else panner.setPosition(x, 0, z);
+};
+
+/** Plays the hazard or landmark earcon from the given clock position, or centred when spatial audio is off. */
+export const playSpatialCue = (kind: SpatialCue['kind'], clock: number) => {
+  const tones = CUE_TONES[kind];
+  if (!isSpatialAudioEnabled()) { playTones(tones); return; }
+  const ctx = getCueContext();
+  const panner = createPanner(ctx);
+  positionPanner(panner, clockToAzimuth(clock));
+  panner.connect(ctx.destination);
+  playTones(tones, 0.2, panner);
+  const durationMs = tones.reduce((total, [, ms]) => total + ms, 0);
+  setTimeout(() => panner.disconnect(), durationMs + 200);
+};
+
+export interface SpatialSpeechOutput {
+  /** Connect speech sources here instead of `ctx.destination`. */
+  input: AudioNode;
+  /** Places the speech that follows at a clock position; `null` centres it again. */
+  placeAt: (clock: number | null) => void;
+  dispose: () => void;
+}
+
+/**
+ * Routes the live model's speech through an HRTF panner. A placed voice is pinned to the
+ * compass bearing it had when placed, so it stays on the object while the user turns.
+ */
+export const createSpatialSpeechOutput = (ctx: AudioContext): SpatialSpeechOutput => {
+  const input = ctx.createGain();
+  const panner = createPanner(ctx);
+  panner.connect(ctx.destination);
+  input.connect(ctx.destination);
+  let spatial = false;
+  /** Bearing of the placed voice: compass degrees when a heading is known, else relative to the user. */
+  let anchor: { degrees: number, pinned: boolean } | null = null;
+
+  const reposition = () => {
+    if (!anchor) return;
+    const heading = getHeading();
+    positionPanner(panner, anchor.pinned && heading ? normalizeDegrees(anchor.degrees - heading.degrees) : anchor.degrees);
+  };
+
+  const route = (next: boolean) => {
+    if (next === spatial) return;
+    spatial = next;
+    input.disconnect();
+    input.connect(spatial ? panner : ctx.destination);
+  };
+
+  const unsubscribe = subscribeHeading(() => { if (spatial) reposition(); });
+
+  return {
+    input,
+    placeAt: (clock) => {
+      if (clock === null) { anchor = null; route(false); return; }
+      const heading = getHeading();
+      anchor = heading
+        ? { degrees: normalizeDegrees(heading.degrees + clockToAzimuth(clock)), pinned: true }
+        : { degrees: clockToAzimuth(clock), pinned: false };
+      reposition();
+      route(isSpatialAudioEnabled());
+    },
+    dispose: () => {
+      unsubscribe();
+      input.disconnect();
+      panner.disconnect();
+    }
+  };
+};
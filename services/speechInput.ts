@@ -0,0 +1,28 @@
+
+/**
+ * One-shot on-device dictation via the Web Speech API; resolves with '' when nothing was heard.
+ * Aborting `stopSignal` ends listening early but still resolves with what was heard so far.
+ */
+export const listenOnce = (lang: string, timeoutMs = 8000, stopSignal?: AbortSignal): Promise<string> => {
+  const Recognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+  if (!Recognition) return Promise.reject(new Error('Speech recognition unsupported'));
+  return new Promise((resolve, reject) => {
+    const recognition = new Recognition();
+    recognition.lang = lang;
+    recognition.interimResults = false;
+    recognition.maxAlternatives = 1;
+    let transcript = '';
+    const timer = window.setTimeout(() => recognition.stop(), timeoutMs);
+    recognition.onresult = (e: any) => { transcript = e.results[0]?.[0]?.transcript || ''; };
+    recognition.onerror = (e: any) => {
+      window.clearTimeout(timer);
+      if (e.error === 'no-speech' || e.error === 'aborted') resolve('');
+      else reject(new Error(e.error));
+    };
+    recognition.onend = () => { window.clearTimeout(timer); resolve(transcript.trim()); };
+    stopSignal?.addEventListener('abort', () => recognition.stop());
+    recognition.start();
+  });
+};
+
+export const isSpeechInputSupported = () => Boolean((window as any).SpeechRecognition || (window as any).webkitSpeechRecognition);
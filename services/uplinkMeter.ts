@@ -0,0 +1,45 @@
+
+/** Long enough to span several frames and audio chunks, short enough to follow a walk between cells. */
+const WINDOW_MS = 5000;
+/** A shorter span says too little about the link. */
+const MIN_SPAN_MS = 1000;
+
+export interface UplinkMeter {
+  /** Call with the size of every message handed to the socket. */
+  record: (bytes: number) => void;
+  /** Bytes handed over that the socket has not sent yet. */
+  backlog: () => number;
+  /** kbit/s that actually left the device over the last few seconds; `null` until a second has passed. */
+  kbps: () => number | null;
+}
+
+/**
+ * Measures the uplink a socket really achieves: what was handed to it minus what it still buffers,
+ * over time. While the socket holds a backlog this is the link's capacity; while it keeps up it is
+ * only what was sent, a lower bound.
+ */
+export const createUplinkMeter = (bufferedAmount: () => number): UplinkMeter => {
+  let queued = 0;
+  let samples: { at: number, sent: number }[] = [];
+
+  const sample = () => {
+    const now = Date.now();
+    samples = [...samples.filter(({ at }) => now - at <= WINDOW_MS), { at: now, sent: Math.max(0, queued - bufferedAmount()) }];
+    return samples;
+  };
+
+  return {
+    record: (bytes) => {
+      queued += bytes;
+      sample();
+    },
+    backlog: () => Math.min(queued, bufferedAmount()),
+    kbps: () => {
+      const window = sample();
+      const first = window[0];
+      const last = window[window.length - 1];
+      const span = last.at - first.at;
+      return span < MIN_SPAN_MS ? null : Math.round((last.sent - first.sent) * 8 / span);
+    }
+  };
+};
@@ -0,0 +1,119 @@
+
+import { Coordinates, ChatTurn } from '../types';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { UplinkMeter } from './uplinkMeter';
+
+/**
+ * `spatialCues` lets the model mark where a hazard or landmark is so the app can sound it from there;
+ * `savedPlaces` lets it save and look up the user's places, answered on the device.
+ */
+export type LiveTool = 'googleMaps' | 'googleSearch' | 'spatialCues' | 'savedPlaces';
+
+export interface SpatialCue {
+  /** One or two words, e.g. "chair". */
+  label: string;
+  kind: 'hazard' | 'landmark';
+  /** Clock-face direction relative to where the user faces; 12 is straight ahead. */
+  clock: number;
+}
+
+export type PlaceRequest =
+  | { action: 'save', name: string, notes?: string }
+  | { action: 'directions', name: string }
+  | { action: 'list' };
+
+export type LiveErrorKind = 'microphone' | 'auth' | 'network' | 'server';
+
+export interface LiveCloseInfo {
+  code?: number;
+  reason?: string;
+}
+
+export interface LiveSessionCallbacks {
+  onOpen: () => void;
+  /** Base64 16-bit PCM, mono, 24 kHz. */
+  onAudio: (base64: string) => void;
+  onOutputTranscript?: (text: string) => void;
+  onInputTranscript?: (text: string) => void;
+  onTurnComplete?: () => void;
+  onInterrupted?: () => void;
+  /** The model marked a hazard or landmark it is about to mention. */
+  onSpatialCue?: (cue: SpatialCue) => void;
+  /** Resolves to the tool result the model reads back to the user. */
+  onPlaceRequest?: (request: PlaceRequest) => Promise<string>;
+  /** Latest handle for resuming this conversation on a new connection. */
+  onResumptionHandle?: (handle: string) => void;
+  onError: (error: unknown) => void;
+  onClose: (info?: LiveCloseInfo) => void;
+}
+
+export interface LiveSessionOptions {
+  systemInstruction: string;
+  tools: LiveTool[];
+  voiceName: string;
+  /** BCP-47 code the model should speak in. */
+  languageCode: string;
+  /** Continue a dropped conversation where the backend supports it. */
+  resumptionHandle?: string;
+  callbacks: LiveSessionCallbacks;
+}
+
+export interface LiveSession {
+  /** Base64 16-bit PCM, mono, 16 kHz. */
+  sendAudio: (base64: string) => void;
+  /** Base64 JPEG frame. */
+  sendImage: (base64: string) => void;
+  /** Adds context to the conversation without asking for a reply. */
+  sendContext: (text: string) => void;
+  /** What the connection really sends; absent when the backend has no socket to measure. */
+  uplink?: UplinkMeter;
+  close: () => void;
+}
+
+export interface VisionProvider {
+  readonly name: ProviderName;
+  describeImage: (base64Jpeg: string, prompt: string) => Promise<string>;
+  /** Follow-up on a described photo; `turns` continues after `prompt` and ends with the new question. */
+  askAboutImage: (base64Jpeg: string, prompt: string, turns: ChatTurn[]) => Promise<string>;
+  describeLocation: (coordinates: Coordinates, prompt: string) => Promise<string>;
+  /** Verbatim text extraction; resolves to the JSON reply described in `READING_PROMPT`. */
+  readText: (base64Jpeg: string, prompt: string) => Promise<string>;
+  /** Object search; resolves to the JSON reply described in `locatePrompt`. */
+  locateObject: (base64Jpeg: string, prompt: string) => Promise<string>;
+  connectLive: (options: LiveSessionOptions) => Promise<LiveSession>;
+}
+
+const MIC_ERRORS = ['NotAllowedError', 'SecurityError', 'NotFoundError', 'NotReadableError', 'OverconstrainedError'];
+
+/** Sorts a connect failure, error event or close into what the user can do about it. */
+export const classifyLiveError = (error: unknown, close?: LiveCloseInfo): LiveErrorKind => {
+  if (error instanceof DOMException && MIC_ERRORS.includes(error.name)) return 'microphone';
+  const message = `${(error as any)?.message ?? ''} ${close?.reason ?? ''}`;
+  if (close?.code === 1008 || /api key|unauthori[sz]ed|forbidden|permission denied|\b40[13]\b/i.test(message)) return 'auth';
+  if (!navigator.onLine || close?.code === 1006 || error instanceof TypeError || /network|failed to fetch|timed? ?out/i.test(message)) return 'network';
+  return 'server';
+};
+
+export type ProviderName = 'gemini' | 'mock';
+
+const PROVIDER_KEY = 'vision_voice_provider';
+
+/**
+ * Picks the backend from `localStorage.vision_voice_provider`, then `VITE_VISION_PROVIDER`,
+ * falling back to Gemini. Set either to `mock` to run the whole app without a key or network.
+ */
+export const resolveProviderName = (): ProviderName => {
+  const configured = localStorage.getItem(PROVIDER_KEY) || import.meta.env.VITE_VISION_PROVIDER;
+  return configured === 'mock' ? 'mock' : 'gemini';
+};
+
+let provider: VisionProvider | null = null;
+
+export const getVisionProvider = (): VisionProvider => {
+  const name = resolveProviderName();
+  if (!provider || provider.name !== name) {
+    provider = name === 'mock' ? createMockProvider() : createGeminiProvider(import.meta.env.VITE_KEY_PROXY_URL || '');
+  }
+  return provider;
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createVoiceActivityDetector } from './voiceActivity';
+
+const QUIET = { rms: 0.002, peak: 0.004 };
+const SPEECH = { rms: 0.1, peak: 0.3 };
+/** Above the medium threshold, below the strict one. */
+const SOFT = { rms: 0.017, peak: 0.03 };
+
+describe('createVoiceActivityDetector', () => {
+  it('starts after the onset chunks and ends after the hangover', () => {
+    const onSpeechStart = vi.fn();
+    const onSpeechEnd = vi.fn();
+    const vad = createVoiceActivityDetector({ sensitivity: 'medium', onSpeechStart, onSpeechEnd });
+    for (let i = 0; i < 20; i++) vad.process(QUIET);
+    expect(vad.process(SPEECH)).toBe(false);
+    expect(vad.process(SPEECH)).toBe(true);
+    expect(onSpeechStart).toHaveBeenCalledTimes(1);
+    for (let i = 0; i < 5; i++) expect(vad.process(QUIET)).toBe(true);
+    expect(vad.process(QUIET)).toBe(false);
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start on a single loud chunk', () => {
+    const vad = createVoiceActivityDetector({ sensitivity: 'medium' });
+    vad.process(SPEECH);
+    vad.process(QUIET);
+    vad.process(SPEECH);
+    expect(vad.isSpeaking()).toBe(false);
+  });
+
+  it('raises the bar in strict mode', () => {
+    const relaxed = createVoiceActivityDetector({ sensitivity: 'medium' });
+    relaxed.process(SOFT);
+    expect(relaxed.process(SOFT)).toBe(true);
+    const strict = createVoiceActivityDetector({ sensitivity: 'medium' });
+    strict.process(SOFT, true);
+    expect(strict.process(SOFT, true)).toBe(false);
+  });
+
+  it('hears softer speech at higher sensitivity', () => {
+    const low = createVoiceActivityDetector({ sensitivity: 'low' });
+    const high = createVoiceActivityDetector({ sensitivity: 'high' });
+    [low, high].forEach(vad => { vad.process(SOFT); vad.process(SOFT); });
+    expect(low.isSpeaking()).toBe(false);
+    expect(high.isSpeaking()).toBe(true);
+  });
+
+  it('resets to silence', () => {
+    const vad = createVoiceActivityDetector({ sensitivity: 'medium' });
+    vad.process(SPEECH);
+    vad.process(SPEECH);
+    vad.reset();
+    expect(vad.isSpeaking()).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+
+import { MicLevel } from './audioCapture';
+
+export type VadSensitivity = 'low' | 'medium' | 'high';
+
+export const VAD_SENSITIVITIES: VadSensitivity[] = ['low', 'medium', 'high'];
+
+/** How far above the running noise floor a chunk must be, and the absolute minimum level. */
+const THRESHOLDS: Record<VadSensitivity, { ratio: number, minRms: number }> = {
+  low: { ratio: 3.5, minRms: 0.02 },
+  medium: { ratio: 2.5, minRms: 0.012 },
+  high: { ratio: 1.8, minRms: 0.007 }
+};
+
+export interface VoiceActivityOptions {
+  sensitivity: VadSensitivity;
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+  /** Consecutive loud chunks needed before speech starts. */
+  onsetChunks?: number;
+  /** Consecutive quiet chunks tolerated before speech ends. */
+  hangoverChunks?: number;
+}
+
+export interface VoiceActivityDetector {
+  /** Feeds one chunk level; `strict` raises the bar, e.g. while the model is talking. Returns whether speech is active. */
+  process: (level: MicLevel, strict?: boolean) => boolean;
+  isSpeaking: () => boolean;
+  reset: () => void;
+}
+
+/** Energy-based detector with an adaptive noise floor, onset debounce and hangover. */
+export const createVoiceActivityDetector = ({ sensitivity, onSpeechStart, onSpeechEnd, onsetChunks = 2, hangoverChunks = 6 }: VoiceActivityOptions): VoiceActivityDetector => {
+  const { ratio, minRms } = THRESHOLDS[sensitivity];
+  let noiseFloor = minRms / 2;
+  let speaking = false;
+  let loudRun = 0;
+  let quietRun = 0;
+
+  return {
+    process: ({ rms }, strict = false) => {
+      const threshold = Math.max(noiseFloor * ratio, minRms) * (strict ? 1.6 : 1);
+      const loud = rms > threshold;
+      if (!speaking) {
+        noiseFloor = noiseFloor * 0.95 + Math.min(rms, threshold) * 0.05;
+        loudRun = loud ? loudRun + 1 : 0;
+        if (loudRun >= onsetChunks) { speaking = true; quietRun = 0; onSpeechStart?.(); }
+      } else {
+        quietRun = loud ? 0 : quietRun + 1;
+        if (quietRun >= hangoverChunks) { speaking = false; loudRun = 0; onSpeechEnd?.(); }
+      }
+      return speaking;
+    },
+    isSpeaking: () => speaking,
+    reset: () => { speaking = false; loudRun = 0; quietRun = 0; }
+  };
+};
@@ -3,10 +3,86 @@ export enum View {
   VOICE_HUB = 'voice_hub'
 }
 
+export type SessionMode = 'VISION' | 'NAV' | 'MAPS' | 'FIND' | 'COLOR' | 'HELPER';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
 export interface VisionLog {
   id: string;
   text: string;
   timestamp: number;
+  mode: SessionMode;
+  language: string;
+  coordinates?: Coordinates;
+  thumbnail?: string;
+}
+
+export interface TranscriptEntry {
+  speaker: 'user' | 'model';
+  text: string;
+  timestamp: number;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/** A captured still kept for follow-up questions until it is replaced or dismissed. */
+export interface PhotoConversation {
+  /** Base64 JPEG, as sent with the original description request. */
+  image: string;
+  thumbnail?: string;
+  /** The prompt the first description answered; not shown to the user. */
+  prompt: string;
+  /** Starts with the model's description. */
+  turns: ChatTurn[];
+}
+
+/** A photo captured without signal, kept until it can be described. */
+export interface QueuedPhoto {
+  id: string;
+  /** Base64 JPEG. */
+  image: string;
+  thumbnail?: string;
+  prompt: string;
+  mode: SessionMode;
+  language: string;
+  capturedAt: number;
+}
+
+/** Someone the SOS message is meant for. */
+export interface TrustedContact {
+  id: string;
+  name: string;
+  /** Digits with an optional leading `+`. */
+  phone: string;
+}
+
+/** A location the user saved by name, e.g. "home". */
+export interface SavedPlace {
+  id: string;
+  name: string;
+  coordinates: Coordinates;
+  notes: string;
+  savedAt: number;
+}
+
+export interface SessionTranscript {
+  id: string;
+  mode: SessionMode;
+  language: string;
+  startedAt: number;
+  endedAt: number;
+  entries: TranscriptEntry[];
+}
+
+export interface HistoryRetention {
+  maxEntries: number;
+  maxAgeDays: number;
 }
 
 export type VoiceStatus = 'idle' | 'connecting' | 'listening' | 'speaking' | 'error';
@@ -0,0 +1,37 @@
+
+let cueContext: AudioContext | null = null;
+
+/** Shared context for short cues; anything routed into `playTones` must belong to it. */
+export const getCueContext = () => {
+  if (!cueContext) {
+    const AudioCtx = (window.AudioContext || (window as any).webkitAudioContext);
+    cueContext = new AudioCtx();
+  }
+  if (cueContext.state === 'suspended') cueContext.resume();
+  return cueContext;
+};
+
+/** Plays a sequence of short sine blips, each `[frequencyHz, durationMs]`, into `output` or the speakers. */
+export const playTones = (tones: [number, number][], volume = 0.15, output?: AudioNode) => {
+  try {
+    const ctx = getCueContext();
+    let at = ctx.currentTime;
+    tones.forEach(([frequency, durationMs]) => {
+      const duration = durationMs / 1000;
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.frequency.value = frequency;
+      gain.gain.setValueAtTime(0, at);
+      gain.gain.linearRampToValueAtTime(volume, at + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.001, at + duration);
+      osc.connect(gain).connect(output ?? ctx.destination);
+      osc.start(at);
+      osc.stop(at + duration);
+      at += duration;
+    });
+  } catch (e) {}
+};
+
+export const playListeningCue = (state: 'start' | 'stop') => {
+  playTones(state === 'start' ? [[660, 80], [990, 120]] : [[990, 80], [660, 120]]);
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { bearingDegrees, distanceMeters, distanceToSegmentMeters, normalizeDegrees, offsetMeters } from './geo';
+
+const LONDON = { latitude: 51.5074, longitude: -0.1278 };
+const PARIS = { latitude: 48.8566, longitude: 2.3522 };
+
+describe('distanceMeters', () => {
+  it('measures great-circle distances', () => {
+    expect(distanceMeters(LONDON, PARIS) / 1000).toBeCloseTo(343.5, 0);
+    expect(distanceMeters(LONDON, LONDON)).toBe(0);
+  });
+
+  it('agrees with offsetMeters over short distances', () => {
+    expect(distanceMeters(LONDON, offsetMeters(LONDON, 30, 40))).toBeCloseTo(50, 1);
+  });
+});
+
+describe('bearingDegrees', () => {
+  it('is clockwise from north', () => {
+    const origin = { latitude: 0, longitude: 0 };
+    expect(bearingDegrees(origin, { latitude: 1, longitude: 0 })).toBeCloseTo(0);
+    expect(bearingDegrees(origin, { latitude: 0, longitude: 1 })).toBeCloseTo(90);
+    expect(bearingDegrees(origin, { latitude: -1, longitude: 0 })).toBeCloseTo(180);
+    expect(bearingDegrees(origin, { latitude: 0, longitude: -1 })).toBeCloseTo(270);
+  });
+
+  it('points from London to Paris south-east', () => {
+    expect(bearingDegrees(LONDON, PARIS)).toBeCloseTo(148, 0);
+  });
+});
+
+describe('distanceToSegmentMeters', () => {
+  const start = LONDON;
+  const end = offsetMeters(LONDON, 0, 200);
+
+  it('measures across the segment beside it', () => {
+    expect(distanceToSegmentMeters(offsetMeters(LONDON, 50, 100), start, end)).toBeCloseTo(50, 0);
+  });
+
+  it('measures to the nearer end beyond it', () => {
+    expect(distanceToSegmentMeters(offsetMeters(LONDON, 0, -30), start, end)).toBeCloseTo(30, 0);
+    expect(distanceToSegmentMeters(offsetMeters(LONDON, 40, 230), start, end)).toBeCloseTo(50, 0);
+  });
+});
+
+describe('normalizeDegrees', () => {
+  it('wraps into 0..360', () => {
+    expect(normalizeDegrees(-90)).toBe(270);
+    expect(normalizeDegrees(720)).toBe(0);
+  });
+});
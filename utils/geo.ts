@@ -0,0 +1,49 @@
+
+import { Coordinates } from '../types';
+
+const EARTH_RADIUS_M = 6371000;
+const toRad = (deg: number) => deg * Math.PI / 180;
+const toDeg = (rad: number) => rad * 180 / Math.PI;
+
+export const normalizeDegrees = (deg: number) => ((deg % 360) + 360) % 360;
+
+/** Great-circle distance in metres. */
+export const distanceMeters = (a: Coordinates, b: Coordinates) => {
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/** Initial bearing from `a` to `b`, degrees clockwise from true north (0..360). */
+export const bearingDegrees = (a: Coordinates, b: Coordinates) => {
+  const dLon = toRad(b.longitude - a.longitude);
+  const y = Math.sin(dLon) * Math.cos(toRad(b.latitude));
+  const x = Math.cos(toRad(a.latitude)) * Math.sin(toRad(b.latitude)) - Math.sin(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.cos(dLon);
+  return normalizeDegrees(toDeg(Math.atan2(y, x)));
+};
+
+/** Distance in metres from `point` to the segment `start`→`end`, clamped to the segment ends. */
+export const distanceToSegmentMeters = (point: Coordinates, start: Coordinates, end: Coordinates) => {
+  const legLength = distanceMeters(start, end);
+  if (legLength < 1) return distanceMeters(point, start);
+  const fromStart = distanceMeters(start, point);
+  const angle = toRad(bearingDegrees(start, point) - bearingDegrees(start, end));
+  const along = fromStart * Math.cos(angle);
+  if (along <= 0) return fromStart;
+  if (along >= legLength) return distanceMeters(point, end);
+  return Math.abs(fromStart * Math.sin(angle));
+};
+
+/** Moves `origin` by the given metres north and east (small-distance approximation). */
+export const offsetMeters = (origin: Coordinates, north: number, east: number): Coordinates => ({
+  latitude: origin.latitude + toDeg(north / EARTH_RADIUS_M),
+  longitude: origin.longitude + toDeg(east / (EARTH_RADIUS_M * Math.cos(toRad(origin.latitude))))
+});
+
+export const getCurrentCoordinates = (options: PositionOptions = { enableHighAccuracy: true, timeout: 15000 }): Promise<Coordinates> =>
+  new Promise((resolve, reject) => navigator.geolocation.getCurrentPosition(
+    pos => resolve({ latitude: pos.coords.latitude, longitude: pos.coords.longitude }),
+    reject,
+    options
+  ));
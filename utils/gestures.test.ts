@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { classifyStroke, createGestureRecognizer, GestureMetrics, RecognizedGesture } from './gestures';
+
+/** What `gestureMetrics` gives a 400 × 800 screen. */
+const METRICS: GestureMetrics = { swipe: 80, tapSlop: 24 };
+
+const line = (from: [number, number], to: [number, number], count = 8) =>
+  Array.from({ length: count }, (_, i) => ({
+    x: from[0] + (to[0] - from[0]) * i / (count - 1),
+    y: from[1] + (to[1] - from[1]) * i / (count - 1)
+  }));
+
+/** Screen y grows downwards, so increasing angles run clockwise. */
+const circle = (clockwise: boolean) => Array.from({ length: 25 }, (_, i) => {
+  const angle = (clockwise ? 1 : -1) * i * 2 * Math.PI / 24;
+  return { x: 200 + 60 * Math.cos(angle), y: 400 + 60 * Math.sin(angle) };
+});
+
+describe('classifyStroke', () => {
+  it('names straight swipes by their direction', () => {
+    expect(classifyStroke(line([300, 400], [100, 400]), METRICS)).toBe('SWIPE_LEFT');
+    expect(classifyStroke(line([200, 600], [210, 300]), METRICS)).toBe('SWIPE_UP');
+  });
+
+  it('ignores short, diagonal or sparse strokes', () => {
+    expect(classifyStroke(line([200, 400], [240, 400]), METRICS)).toBeNull();
+    expect(classifyStroke(line([100, 100], [250, 250]), METRICS)).toBeNull();
+    expect(classifyStroke(line([300, 400], [100, 400], 4), METRICS)).toBeNull();
+  });
+
+  it('names both legs of an L', () => {
+    const points = [...line([100, 100], [100, 220]), ...line([100, 220], [220, 220]).slice(1)];
+    expect(classifyStroke(points, METRICS)).toBe('L_DOWN_RIGHT');
+  });
+
+  it('tells clockwise circles from anticlockwise ones', () => {
+    expect(classifyStroke(circle(true), METRICS)).toBe('CIRCLE_CW');
+    expect(classifyStroke(circle(false), METRICS)).toBe('CIRCLE_CCW');
+  });
+});
+
+describe('createGestureRecognizer', () => {
+  let gestures: RecognizedGesture[];
+  let unrecognized: number;
+  let recognizer: ReturnType<typeof createGestureRecognizer>;
+
+  const touch = (pointerId: number, x: number, y: number) => ({ pointerId, clientX: x, clientY: y });
+  const tap = (x = 200, y = 400) => { recognizer.down(touch(1, x, y)); recognizer.up(touch(1, x, y)); };
+  const stroke = (points: { x: number, y: number }[]) => {
+    recognizer.down(touch(1, points[0].x, points[0].y));
+    points.slice(1).forEach(p => recognizer.move(touch(1, p.x, p.y)));
+    recognizer.up(touch(1, points[points.length - 1].x, points[points.length - 1].y));
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal('window', globalThis);
+    vi.stubGlobal('innerWidth', 400);
+    vi.stubGlobal('innerHeight', 800);
+    vi.useFakeTimers();
+    gestures = [];
+    unrecognized = 0;
+    recognizer = createGestureRecognizer({ onGesture: gesture => gestures.push(gesture), onUnrecognized: () => unrecognized++ });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('counts taps until the tap window passes', () => {
+    tap(); tap();
+    expect(gestures).toEqual([]);
+    vi.advanceTimersByTime(300);
+    expect(gestures.map(g => g.id)).toEqual(['TAP_2']);
+  });
+
+  it('counts the most fingers down at once', () => {
+    recognizer.down(touch(1, 150, 400));
+    recognizer.down(touch(2, 250, 400));
+    recognizer.up(touch(1, 150, 400));
+    expect(recognizer.fingers()).toBe(1);
+    recognizer.up(touch(2, 250, 400));
+    vi.advanceTimersByTime(300);
+    expect(gestures).toEqual([{ id: 'TWO_FINGER_TAP_1', fingers: 2, stroke: null, taps: 1 }]);
+  });
+
+  it('reports a stroke at once, after any taps before it', () => {
+    tap();
+    stroke(line([100, 400], [300, 400]));
+    expect(gestures.map(g => g.id)).toEqual(['TAP_1', 'SWIPE_RIGHT']);
+  });
+
+  it('reports a touch that moved but matched nothing', () => {
+    stroke(line([200, 400], [240, 440]));
+    vi.advanceTimersByTime(300);
+    expect(gestures).toEqual([]);
+    expect(unrecognized).toBe(1);
+  });
+
+  it('drops pending taps when cancelled', () => {
+    tap();
+    recognizer.cancel();
+    vi.advanceTimersByTime(300);
+    expect(gestures).toEqual([]);
+  });
+});
@@ -0,0 +1,198 @@
+export type SwipeDirection = 'LEFT' | 'RIGHT' | 'UP' | 'DOWN';
+
+/** Shapes a single finger traces; L-shapes name both legs, e.g. `L_DOWN_RIGHT`. */
+export type Gesture = `SWIPE_${SwipeDirection}` | `L_${SwipeDirection}_${SwipeDirection}` | 'CIRCLE_CW' | 'CIRCLE_CCW';
+
+/** A stroke or tap count with its finger count, e.g. `SWIPE_LEFT`, `TAP_3`, `TWO_FINGER_TAP_1`. */
+export type GestureId = string;
+
+export interface RecognizedGesture {
+  id: GestureId;
+  fingers: number;
+  /** `null` for taps. */
+  stroke: Gesture | null;
+  taps: number;
+}
+
+type Point = { x: number, y: number };
+
+export const MAX_FINGERS = 3;
+const FINGER_PREFIXES = ['', '', 'TWO_FINGER_', 'THREE_FINGER_'];
+
+export const gestureId = (fingers: number, stroke: Gesture | null, taps: number): GestureId =>
+  `${FINGER_PREFIXES[fingers]}${stroke ?? `TAP_${taps}`}`;
+
+export interface GestureMetrics {
+  /** Shortest straight swipe. */
+  swipe: number;
+  /** Movement still counted as a tap. */
+  tapSlop: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Scaled to the short side of the screen, so a tablet needs a proportionally longer swipe; about 80 px on a phone. */
+export const gestureMetrics = (): GestureMetrics => {
+  const side = Math.min(window.innerWidth, window.innerHeight);
+  return { swipe: clamp(side * 0.2, 60, 200), tapSlop: clamp(side * 0.06, 20, 48) };
+};
+
+const length = (dx: number, dy: number) => Math.hypot(dx, dy);
+
+const pathLength = (points: Point[]) =>
+  points.slice(1).reduce((total, p, i) => total + length(p.x - points[i].x, p.y - points[i].y), 0);
+
+/** The dominant direction of a movement at least `min` long that is clearly more along one axis than the other. */
+const directionOf = (dx: number, dy: number, min: number): SwipeDirection | null => {
+  const absDx = Math.abs(dx);
+  const absDy = Math.abs(dy);
+  if (absDx > min && absDx > absDy * 1.5) return dx > 0 ? 'RIGHT' : 'LEFT';
+  if (absDy > min && absDy > absDx * 1.5) return dy > 0 ? 'DOWN' : 'UP';
+  return null;
+};
+
+const isHorizontal = (direction: SwipeDirection) => direction === 'LEFT' || direction === 'RIGHT';
+
+/** Most of a turn around the stroke's centre that ends near where it began. Screen y grows downwards, so a positive turn is clockwise. */
+const circleOf = (points: Point[], { swipe }: GestureMetrics): Gesture | null => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const width = Math.max(...xs) - Math.min(...xs);
+  const height = Math.max(...ys) - Math.min(...ys);
+  if (Math.min(width, height) < swipe * 0.5) return null;
+  const cx = xs.reduce((a, b) => a + b, 0) / points.length;
+  const cy = ys.reduce((a, b) => a + b, 0) / points.length;
+  let turn = 0;
+  points.slice(1).forEach((p, i) => {
+    let delta = Math.atan2(p.y - cy, p.x - cx) - Math.atan2(points[i].y - cy, points[i].x - cx);
+    if (delta > Math.PI) delta -= 2 * Math.PI;
+    if (delta < -Math.PI) delta += 2 * Math.PI;
+    turn += delta;
+  });
+  const start = points[0];
+  const end = points[points.length - 1];
+  if (Math.abs(turn) < Math.PI * 1.5 || length(end.x - start.x, end.y - start.y) > Math.max(width, height) * 0.8) return null;
+  return turn > 0 ? 'CIRCLE_CW' : 'CIRCLE_CCW';
+};
+
+/** Two straight, perpendicular legs meeting at the point farthest from the line between the ends. */
+const lShapeOf = (points: Point[], { swipe }: GestureMetrics): Gesture | null => {
+  const start = points[0];
+  const end = points[points.length - 1];
+  const chord = length(end.x - start.x, end.y - start.y);
+  if (chord === 0) return null;
+  let corner = start;
+  let farthest = 0;
+  points.forEach(p => {
+    const distance = Math.abs((end.x - start.x) * (start.y - p.y) - (start.x - p.x) * (end.y - start.y)) / chord;
+    if (distance > farthest) { farthest = distance; corner = p; }
+  });
+  const first = directionOf(corner.x - start.x, corner.y - start.y, swipe * 0.6);
+  const second = directionOf(end.x - corner.x, end.y - corner.y, swipe * 0.6);
+  if (!first || !second || isHorizontal(first) === isHorizontal(second)) return null;
+  const legs = length(corner.x - start.x, corner.y - start.y) + length(end.x - corner.x, end.y - corner.y);
+  if (pathLength(points) > legs * 1.3) return null;
+  return `L_${first}_${second}`;
+};
+
+export const classifyStroke = (points: Point[], metrics: GestureMetrics): Gesture | null => {
+  if (points.length < 5) return null;
+  const start = points[0];
+  const end = points[points.length - 1];
+  const circle = circleOf(points, metrics);
+  if (circle) return circle;
+  const lShape = lShapeOf(points, metrics);
+  if (lShape) return lShape;
+  const swipe = directionOf(end.x - start.x, end.y - start.y, metrics.swipe);
+  return swipe ? `SWIPE_${swipe}` : null;
+};
+
+/** Single-finger stroke, for screens that count their own taps; `null` for taps and anything unrecognised. */
+export const analyzeGesture = (points: Point[]): Gesture | null => classifyStroke(points, gestureMetrics());
+
+interface PointerSample {
+  pointerId: number;
+  clientX: number;
+  clientY: number;
+}
+
+export interface GestureRecognizerOptions {
+  onGesture: (gesture: RecognizedGesture) => void;
+  /** A touch that moved but matched no shape. */
+  onUnrecognized?: () => void;
+  /** How long to wait for another tap before the count is final. */
+  tapWindowMs?: number;
+}
+
+export interface GestureRecognizer {
+  down: (e: PointerSample) => void;
+  move: (e: PointerSample) => void;
+  /** Also for `pointercancel`. */
+  up: (e: PointerSample) => void;
+  /** Drops the touch in progress and any pending taps, e.g. once a hold has taken over. */
+  cancel: () => void;
+  /** Pointers currently down. */
+  fingers: () => number;
+}
+
+/**
+ * Multi-finger taps and strokes. A touch lasts until every finger has lifted; its finger count is
+ * the most that were down at once and its shape is the first finger's path. Taps with the same
+ * finger count are counted until `tapWindowMs` passes without another.
+ */
+export const createGestureRecognizer = ({ onGesture, onUnrecognized, tapWindowMs = 300 }: GestureRecognizerOptions): GestureRecognizer => {
+  const paths = new Map<number, Point[]>();
+  const active = new Set<number>();
+  let primaryId: number | null = null;
+  let fingers = 0;
+  let cancelled = false;
+  let pending: { fingers: number, taps: number } | null = null;
+  let tapTimer: number | null = null;
+
+  const flushTaps = () => {
+    if (tapTimer !== null) { window.clearTimeout(tapTimer); tapTimer = null; }
+    if (!pending) return;
+    const { fingers: count, taps } = pending;
+    pending = null;
+    onGesture({ id: gestureId(count, null, taps), fingers: count, stroke: null, taps });
+  };
+
+  const finish = () => {
+    const primary = (primaryId !== null && paths.get(primaryId)) || [];
+    const all = [...paths.values()];
+    paths.clear();
+    if (cancelled || fingers > MAX_FINGERS) return;
+    const metrics = gestureMetrics();
+    const stroke = classifyStroke(primary, metrics);
+    if (stroke) { flushTaps(); onGesture({ id: gestureId(fingers, stroke, 0), fingers, stroke, taps: 0 }); return; }
+    const moved = all.some(path => path.some(p => length(p.x - path[0].x, p.y - path[0].y) > metrics.tapSlop));
+    if (moved) { onUnrecognized?.(); return; }
+    if (pending && pending.fingers !== fingers) flushTaps();
+    pending = { fingers, taps: (pending?.taps ?? 0) + 1 };
+    if (tapTimer !== null) window.clearTimeout(tapTimer);
+    tapTimer = window.setTimeout(flushTaps, tapWindowMs);
+  };
+
+  return {
+    down: (e) => {
+      if (active.size === 0) { paths.clear(); primaryId = e.pointerId; fingers = 0; cancelled = false; }
+      active.add(e.pointerId);
+      paths.set(e.pointerId, [{ x: e.clientX, y: e.clientY }]);
+      fingers = Math.max(fingers, active.size);
+    },
+    move: (e) => { if (active.has(e.pointerId)) paths.get(e.pointerId)?.push({ x: e.clientX, y: e.clientY }); },
+    up: (e) => {
+      if (!active.has(e.pointerId)) return;
+      paths.get(e.pointerId)?.push({ x: e.clientX, y: e.clientY });
+      active.delete(e.pointerId);
+      // Lifted fingers keep their paths so the whole touch is judged once the last one is up.
+      if (active.size === 0) finish();
+    },
+    cancel: () => {
+      cancelled = active.size > 0;
+      pending = null;
+      if (tapTimer !== null) { window.clearTimeout(tapTimer); tapTimer = null; }
+    },
+    fingers: () => active.size
+  };
+};
@@ -0,0 +1,23 @@
+
+export type HapticType = 'light' | 'medium' | 'heavy' | 'double' | 'success' | 'left' | 'right' | 'warning';
+
+/** Raw vibration pattern, for cues that need more than the fixed `HapticType`s. */
+export const vibrate = (pattern: number | number[]) => {
+  if (navigator.vibrate) navigator.vibrate(pattern);
+};
+
+export const playHaptic = (type: HapticType) => {
+  if (navigator.vibrate) {
+    const patterns = { 
+      light: 20, 
+      medium: 50, 
+      heavy: 80,
+      double: [40, 60, 40],
+      success: [15, 40, 15, 80],
+      left: [60, 80, 60],
+      right: [60, 80, 60, 80, 60],
+      warning: [200, 100, 200, 100, 200]
+    };
+    navigator.vibrate(patterns[type]);
+  }
+};
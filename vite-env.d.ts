@@ -0,0 +1,24 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Origin of the key proxy (`server/keyProxy.ts`); empty for the app's own `/api` routes. */
+  readonly VITE_KEY_PROXY_URL?: string;
+  /** `gemini` (default) or `mock` for the offline stand-in. */
+  readonly VITE_VISION_PROVIDER?: string;
+  readonly VITE_GEMINI_MODEL?: string;
+  readonly VITE_GEMINI_LIVE_MODEL?: string;
+  /** `osrm` or `fixture`; defaults to `fixture` with the mock provider. */
+  readonly VITE_ROUTING_SOURCE?: string;
+  /** Nominatim-compatible `/search` endpoint for `osrm`; defaults to openstreetmap.org's. */
+  readonly VITE_GEOCODER_URL?: string;
+  /** OSRM `/route/v1/<profile>` endpoint with a walking profile for `osrm`; defaults to FOSSGIS's `routed-foot`. */
+  readonly VITE_ROUTER_URL?: string;
+  /** `http` (default) or `broadcast`; see `services/signaling.ts`. */
+  readonly VITE_SIGNALING?: string;
+  /** Origin of the helper-call relay; required outside the dev server, which has its own `/api/signal`. */
+  readonly VITE_SIGNALING_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,6 +1,11 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react";
+import { keyProxyPlugin } from "./server/devProxy";
 
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => {
+  // The empty prefix loads unprefixed variables too; GEMINI_API_KEY stays on the server.
+  const env = loadEnv(mode, process.cwd(), "");
+  return {
+    plugins: [react(), keyProxyPlugin(env.GEMINI_API_KEY || "", env.VITE_GEMINI_MODEL, env.VITE_GEMINI_LIVE_MODEL)],
+  };
 });